@@ -0,0 +1,177 @@
+/*
+ * Outbox service worker.
+ *
+ * The page hands emergency submissions and location updates to this worker
+ * when the network is unavailable. They are kept in IndexedDB and replayed
+ * with exponential backoff until the server accepts or rejects them, so an
+ * SOS survives flaky connectivity, page reloads and browser restarts.
+ * Emergency submissions carry an idempotency key, which makes replays safe.
+ */
+
+const DB_NAME = 'meditrack-outbox';
+const DB_VERSION = 1;
+const STORE = 'requests';
+const SYNC_TAG = 'outbox';
+
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+// Location fixes older than this are of no use to responders
+const LOCATION_TTL_MS = 30 * 60 * 1000;
+
+let flushing = null;
+let retryTimer = null;
+
+function openDb() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+      store.createIndex('status', 'status');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore(mode, fn) {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const result = fn(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(result && 'result' in result ? result.result : undefined);
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+const putEntry = (entry) => withStore('readwrite', store => store.put(entry));
+const deleteEntry = (id) => withStore('readwrite', store => store.delete(id));
+const listEntries = () => withStore('readonly', store => store.getAll());
+
+async function notifyClients(message) {
+  const clients = await self.clients.matchAll({ includeUncontrolled: true, type: 'window' });
+  clients.forEach(client => client.postMessage(message));
+}
+
+// Server errors, timeouts, rate limits and expired sessions are worth retrying;
+// any other client error means the request itself is wrong.
+function isRetryable(status) {
+  return status >= 500 || status === 401 || status === 408 || status === 429;
+}
+
+function backoff(attempts) {
+  const delay = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * Math.pow(2, attempts - 1));
+  return delay / 2 + Math.random() * delay / 2;
+}
+
+function scheduleRetry(entries) {
+  const pending = entries.filter(entry => entry.status === 'queued');
+  if (retryTimer) clearTimeout(retryTimer);
+  if (pending.length === 0) return;
+
+  const next = Math.min(...pending.map(entry => entry.nextAttemptAt));
+  retryTimer = setTimeout(flush, Math.max(0, next - Date.now()));
+}
+
+async function send(entry) {
+  let response;
+  try {
+    response = await fetch(entry.url, {
+      method: entry.method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(entry.body),
+      credentials: 'same-origin',
+    });
+  } catch (error) {
+    return { ...entry, attempts: entry.attempts + 1, nextAttemptAt: Date.now() + backoff(entry.attempts + 1), lastError: 'Network unavailable' };
+  }
+
+  const payload = await response.json().catch(() => null);
+  if (response.ok) {
+    return { ...entry, status: 'sent', attempts: entry.attempts + 1, response: payload, lastError: undefined };
+  }
+
+  const lastError = (payload && payload.message) || `${response.status}: ${response.statusText}`;
+  if (isRetryable(response.status)) {
+    return { ...entry, attempts: entry.attempts + 1, nextAttemptAt: Date.now() + backoff(entry.attempts + 1), lastError };
+  }
+  return { ...entry, status: 'failed', attempts: entry.attempts + 1, lastError };
+}
+
+async function drain() {
+  const now = Date.now();
+  const entries = await listEntries();
+
+  // Emergencies before location updates, oldest first
+  const due = entries
+    .filter(entry => entry.status === 'queued' && entry.nextAttemptAt <= now)
+    .sort((a, b) => (a.kind === b.kind ? a.createdAt - b.createdAt : a.kind === 'emergency' ? -1 : 1));
+
+  for (const entry of due) {
+    if (entry.kind === 'location' && now - entry.createdAt > LOCATION_TTL_MS) {
+      await deleteEntry(entry.id);
+      continue;
+    }
+
+    const result = await send(entry);
+    if (result.status === 'queued') {
+      await putEntry(result);
+      await notifyClients({ type: 'outbox:update', entry: result });
+      // Still offline; the remaining entries would fail the same way
+      if (result.lastError === 'Network unavailable') break;
+      continue;
+    }
+
+    // Settled entries are reported once and then forgotten
+    await deleteEntry(entry.id);
+    await notifyClients({ type: 'outbox:update', entry: result });
+  }
+
+  scheduleRetry(await listEntries());
+}
+
+function flush() {
+  if (!flushing) {
+    flushing = drain()
+      .catch(error => console.error('Outbox flush failed:', error))
+      .finally(() => { flushing = null; });
+  }
+  return flushing;
+}
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim().then(flush));
+});
+
+self.addEventListener('message', (event) => {
+  const message = event.data || {};
+
+  if (message.type === 'outbox:enqueue') {
+    const entry = {
+      ...message.entry,
+      status: 'queued',
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      createdAt: Date.now(),
+    };
+    event.waitUntil(
+      putEntry(entry)
+        .then(() => notifyClients({ type: 'outbox:update', entry }))
+        .then(flush)
+    );
+  } else if (message.type === 'outbox:flush') {
+    event.waitUntil(flush());
+  } else if (message.type === 'outbox:list') {
+    event.waitUntil(
+      listEntries().then(entries => event.source && event.source.postMessage({ type: 'outbox:entries', entries }))
+    );
+  }
+});
+
+// Browsers with Background Sync wake the worker when connectivity returns
+self.addEventListener('sync', (event) => {
+  if (event.tag === SYNC_TAG) {
+    event.waitUntil(flush());
+  }
+});
@@ -7,9 +7,7 @@ import { queryClient } from "@/lib/queryClient";
 import { lazy, Suspense } from "react";
 import { Loader2 } from "lucide-react";
 import { ProtectedRoute } from "@/lib/protected-route";
-import { UserRole } from "@shared/schema";
-import { useEffect } from "react";
-import { connectWebSocket } from "@/lib/websocket";
+import { Permission } from "@shared/permissions";
 import { AdminDashboard } from "@/components/AdminDashboard";
 
 // Lazy load components
@@ -23,6 +21,7 @@ const ResponseTeamPage = lazy(() => import("@/pages/response-team-page"));
 const VerifyEmailPage = lazy(() => import("@/pages/verify-email"));
 const ResetPasswordPage = lazy(() => import("@/pages/reset-password"));
 const ForgotPasswordPage = lazy(() => import("@/pages/forgot-password"));
+const TrackPage = lazy(() => import("@/pages/track-page"));
 const ProfilePage = lazy(() => import("@/pages/profile-page"));
 const FacilitiesPage = lazy(() => import("@/pages/facilities-page"));
 const SupportPage = lazy(() => import("@/pages/support-page"));
@@ -37,10 +36,6 @@ const LoadingSpinner = () => (
 );
 
 export default function App() {
-  useEffect(() => {
-    connectWebSocket();
-  }, []);
-
   return (
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
@@ -51,6 +46,7 @@ export default function App() {
               <Route path="/verify-email/:token" component={VerifyEmailPage} />
               <Route path="/reset-password/:token" component={ResetPasswordPage} />
               <Route path="/forgot-password" component={ForgotPasswordPage} />
+              <Route path="/track/:token" component={TrackPage} />
               <Route path="/" component={HomePage} />
               <ProtectedRoute path="/dashboard" component={DashboardPage} />
               <ProtectedRoute path="/services" component={ServicesPage} />
@@ -62,12 +58,12 @@ export default function App() {
               <ProtectedRoute 
                 path="/admin" 
                 component={AdminDashboard} 
-                allowedRoles={[UserRole.ADMIN]} 
+                permission={Permission.ADMIN_CONSOLE}
               />
               <ProtectedRoute 
                 path="/response-team" 
                 component={ResponseTeamPage}
-                allowedRoles={[UserRole.RESPONSE_TEAM]} 
+                permission={Permission.EMERGENCY_DISPATCH}
               />
               <Route component={NotFound} />
             </Switch>
@@ -8,8 +8,13 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
 import { apiRequest } from '@/lib/queryClient';
 import { useAuth } from '@/hooks/use-auth';
+import { usePermissions } from '@/hooks/use-permission';
+import { Permission } from '@shared/permissions';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { EmergencyMapPreview } from './EmergencyMapPreview';
+import { IncidentPlayback } from './IncidentPlayback';
+import { AuditLog } from './AuditLog';
+import { ApiTokens } from './ApiTokens';
 import { LoadScript } from '@react-google-maps/api';
 
 interface User {
@@ -23,6 +28,14 @@ interface User {
   phone: string;
 }
 
+interface Lockout {
+  key: string;
+  scope: 'account' | 'ip' | 'register';
+  subject: string;
+  attempts: number;
+  lockedUntil: string;
+}
+
 interface Emergency {
   id: number;
   type: string;
@@ -71,6 +84,7 @@ interface SystemAnalytics {
 
 export function AdminDashboard() {
   const { user: currentUser } = useAuth();
+  const { can } = usePermissions();
   const queryClient = useQueryClient();
   const [activeTab, setActiveTab] = useState('users');
   const [editingUser, setEditingUser] = useState<User | null>(null);
@@ -92,6 +106,7 @@ export function AdminDashboard() {
     latitude: '',
     longitude: ''
   });
+  const [replayEmergency, setReplayEmergency] = useState<Emergency | null>(null);
   const [facilityErrors, setFacilityErrors] = useState<Partial<Record<keyof Facility, string>>>({});
   const [editFormErrors, setEditFormErrors] = useState<Partial<Record<keyof User, string>>>({});
 
@@ -106,17 +121,28 @@ export function AdminDashboard() {
       }
       return response.json();
     },
-    enabled: currentUser?.role === 'admin', // Only fetch if user is admin
+    enabled: can(Permission.USER_VIEW_ALL),
   });
 
-  // Filter users based on current user's role
+  // Filter users based on current user's permissions
   const filteredUsers = users.filter(user => {
-    if (currentUser?.role === 'admin') {
-      return true; // Admin can see all users
+    if (can(Permission.USER_MANAGE)) {
+      return true; // User managers can see all users
     }
     return user.role !== 'admin'; // Non-admin users can't see other admins
   });
 
+  const { data: lockouts = [] } = useQuery<Lockout[]>({
+    queryKey: ['/api/admin/lockouts'],
+    queryFn: () => apiRequest('GET', '/api/admin/lockouts').then(res => res.json()),
+    enabled: can(Permission.USER_MANAGE),
+  });
+
+  // Account lockouts are keyed by lower-cased username
+  const lockedAccounts = new Map(
+    lockouts.filter(lockout => lockout.scope === 'account').map(lockout => [lockout.subject, lockout])
+  );
+
   const { data: emergencies = [], isLoading: isLoadingEmergencies } = useQuery<Emergency[]>({
     queryKey: ['/api/admin/emergencies'],
     queryFn: () => apiRequest('GET', '/api/admin/emergencies').then(res => res.json()),
@@ -132,7 +158,7 @@ export function AdminDashboard() {
       }
       return response.json();
     },
-    enabled: currentUser?.role === 'admin', // Only fetch if user is admin
+    enabled: can(Permission.FACILITY_MANAGE),
   });
 
   const { data: analytics, isLoading: isLoadingAnalytics, error: analyticsError } = useQuery<SystemAnalytics>({
@@ -145,7 +171,7 @@ export function AdminDashboard() {
       }
       return response.json();
     },
-    enabled: currentUser?.role === 'admin', // Only fetch if user is admin
+    enabled: can(Permission.ANALYTICS_VIEW),
   });
 
   const validateUserForm = (user: Partial<User>) => {
@@ -353,6 +379,58 @@ export function AdminDashboard() {
     }
   };
 
+  const forceLogoutMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const response = await apiRequest('POST', `/api/admin/users/${userId}/logout`);
+      return response.json() as Promise<{ revoked: number }>;
+    },
+    onSuccess: ({ revoked }) => {
+      toast.success(`Ended ${revoked} session${revoked === 1 ? '' : 's'}`);
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to log the user out');
+    }
+  });
+
+  const unlockUserMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const response = await apiRequest('POST', `/api/admin/users/${userId}/unlock`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/lockouts'] });
+      toast.success('Account unlocked');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to unlock account');
+    }
+  });
+
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const response = await apiRequest('POST', `/api/admin/users/${userId}/2fa/reset`);
+      return response.json() as Promise<{ reset: boolean }>;
+    },
+    onSuccess: ({ reset }) => {
+      toast.success(reset ? 'Two-factor sign-in reset' : 'This user had not set up two-factor sign-in');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to reset two-factor sign-in');
+    }
+  });
+
+  const handleResetTwoFactor = (userId: number) => {
+    if (window.confirm("Remove this user's authenticator and recovery codes? They will set up two-factor sign-in again at their next login if their role requires it.")) {
+      resetTwoFactorMutation.mutate(userId);
+    }
+  };
+
+  const handleForceLogout = (userId: number) => {
+    if (window.confirm('Log this user out on every device?')) {
+      forceLogoutMutation.mutate(userId);
+    }
+  };
+
   // Add edit user mutation
   const editUserMutation = useMutation({
     mutationFn: async (userData: Partial<User>) => {
@@ -451,6 +529,8 @@ export function AdminDashboard() {
             <TabsTrigger value="emergencies">Emergencies</TabsTrigger>
             <TabsTrigger value="facilities">Facilities</TabsTrigger>
             <TabsTrigger value="analytics">Analytics</TabsTrigger>
+            {can(Permission.AUDIT_VIEW) && <TabsTrigger value="audit">Audit</TabsTrigger>}
+            {can(Permission.API_TOKEN_MANAGE) && <TabsTrigger value="api-tokens">API Tokens</TabsTrigger>}
           </TabsList>
 
           <TabsContent value="users">
@@ -459,7 +539,7 @@ export function AdminDashboard() {
                 <CardTitle>User Management</CardTitle>
               </CardHeader>
               <CardContent>
-                {currentUser?.role === 'admin' && (
+                {can(Permission.USER_MANAGE) && (
                   <div className="mb-4">
                     <h2 className="text-lg font-semibold mb-2">Create New User</h2>
                     <div className="grid grid-cols-2 gap-4">
@@ -539,7 +619,7 @@ export function AdminDashboard() {
                         >
                           <option value="user">User</option>
                           <option value="response_team">Response Team</option>
-                          {currentUser?.role === 'admin' && <option value="admin">Admin</option>}
+                          {can(Permission.USER_MANAGE) && <option value="admin">Admin</option>}
                         </select>
                         {formErrors.role && (
                           <p className="text-red-500 text-sm mt-1">{formErrors.role}</p>
@@ -563,17 +643,24 @@ export function AdminDashboard() {
                       <TableHead>Name</TableHead>
                       <TableHead>Email</TableHead>
                       <TableHead>Role</TableHead>
-                      {currentUser?.role === 'admin' && <TableHead>Actions</TableHead>}
+                      {can(Permission.USER_MANAGE) && <TableHead>Actions</TableHead>}
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {filteredUsers.map((user) => (
                       <TableRow key={user.id}>
-                        <TableCell>{user.username}</TableCell>
+                        <TableCell>
+                          {user.username}
+                          {lockedAccounts.has(user.username.toLowerCase()) && (
+                            <div className="text-red-500 text-xs">
+                              Locked until {new Date(lockedAccounts.get(user.username.toLowerCase())!.lockedUntil).toLocaleString()}
+                            </div>
+                          )}
+                        </TableCell>
                         <TableCell>{`${user.firstName} ${user.lastName}`}</TableCell>
                         <TableCell>{user.email}</TableCell>
                         <TableCell>{user.role}</TableCell>
-                        {currentUser?.role === 'admin' && (
+                        {can(Permission.USER_MANAGE) && (
                           <TableCell>
                             <Button 
                               variant="outline" 
@@ -591,6 +678,35 @@ export function AdminDashboard() {
                             >
                               Delete
                             </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="ml-2"
+                              onClick={() => handleForceLogout(user.id)}
+                              disabled={user.id === Number(currentUser?.id) || forceLogoutMutation.isPending}
+                            >
+                              Log out
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="ml-2"
+                              onClick={() => handleResetTwoFactor(user.id)}
+                              disabled={user.id === Number(currentUser?.id) || resetTwoFactorMutation.isPending}
+                            >
+                              Reset 2FA
+                            </Button>
+                            {lockedAccounts.has(user.username.toLowerCase()) && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="ml-2"
+                                onClick={() => unlockUserMutation.mutate(user.id)}
+                                disabled={unlockUserMutation.isPending}
+                              >
+                                Unlock
+                              </Button>
+                            )}
                           </TableCell>
                         )}
                       </TableRow>
@@ -653,10 +769,18 @@ export function AdminDashboard() {
                               id: emergency.id,
                               data: { status: 'resolved' }
                             })}
-                            disabled={emergency.status === 'resolved'}
+                            disabled={emergency.status === 'resolved' || emergency.status === 'cancelled'}
                           >
                             Resolve
                           </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="ml-2"
+                            onClick={() => setReplayEmergency(emergency)}
+                          >
+                            Replay
+                          </Button>
                         </TableCell>
                       </TableRow>
                     ))}
@@ -890,9 +1014,54 @@ export function AdminDashboard() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          {can(Permission.AUDIT_VIEW) && (
+            <TabsContent value="audit">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Audit Log</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <AuditLog userNames={new Map(users.map(u => [u.id, `${u.firstName} ${u.lastName}`]))} />
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
+
+          {can(Permission.API_TOKEN_MANAGE) && (
+            <TabsContent value="api-tokens">
+              <Card>
+                <CardHeader>
+                  <CardTitle>API Tokens</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ApiTokens
+                    users={users.map(u => ({ id: u.id, name: u.username }))}
+                    facilities={facilities.map(f => ({ id: f.id, name: f.name }))}
+                  />
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
         </Tabs>
       </LoadScript>
 
+      {/* Incident Playback Dialog */}
+      <Dialog open={!!replayEmergency} onOpenChange={(open) => !open && setReplayEmergency(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Incident #{replayEmergency?.id} playback</DialogTitle>
+          </DialogHeader>
+          {replayEmergency && (
+            <IncidentPlayback
+              emergencyId={replayEmergency.id}
+              latitude={replayEmergency.latitude}
+              longitude={replayEmergency.longitude}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Edit User Dialog */}
       <Dialog open={!!editingUser} onOpenChange={(open) => !open && setEditingUser(null)}>
         <DialogContent>
@@ -965,7 +1134,7 @@ export function AdminDashboard() {
                 >
                   <option value="user">User</option>
                   <option value="response_team">Response Team</option>
-                  {currentUser?.role === 'admin' && <option value="admin">Admin</option>}
+                  {can(Permission.USER_MANAGE) && <option value="admin">Admin</option>}
                 </select>
                 {editFormErrors.role && (
                   <p className="text-red-500 text-sm mt-1">{editFormErrors.role}</p>
@@ -0,0 +1,248 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Copy, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Permission, UNIT_TOKEN_SCOPES } from '@shared/permissions';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+type OwnerType = 'user' | 'facility' | 'ambulance';
+
+interface ApiTokenSummary {
+  id: number;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  ownerType: OwnerType;
+  ownerId: number;
+  ownerName: string;
+  expiresAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+interface Owner {
+  id: number;
+  name: string;
+}
+
+interface ApiTokensProps {
+  users: Owner[];
+  facilities: Owner[];
+}
+
+const EMPTY_DRAFT = { name: '', ownerType: 'facility' as OwnerType, ownerId: '', scopes: [] as string[], expiresInDays: '90' };
+
+function tokenStatus(token: ApiTokenSummary): string {
+  if (token.revokedAt) return 'Revoked';
+  if (new Date(token.expiresAt) <= new Date()) return 'Expired';
+  return 'Active';
+}
+
+export function ApiTokens({ users, facilities }: ApiTokensProps) {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  // The plain token from the last mint, shown until dismissed
+  const [minted, setMinted] = useState<string | null>(null);
+
+  const { data: tokens = [], isLoading, error } = useQuery<ApiTokenSummary[]>({
+    queryKey: ['/api/admin/api-tokens'],
+    queryFn: () => apiRequest('GET', '/api/admin/api-tokens').then(res => res.json()),
+  });
+
+  const { data: ambulances = [] } = useQuery<Owner[]>({
+    queryKey: ['/api/ambulances'],
+    queryFn: () => apiRequest('GET', '/api/ambulances').then(res => res.json()),
+  });
+
+  const createTokenMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/admin/api-tokens', {
+        name: draft.name,
+        ownerType: draft.ownerType,
+        ownerId: Number(draft.ownerId),
+        scopes: draft.scopes,
+        expiresInDays: Number(draft.expiresInDays),
+      });
+      return response.json() as Promise<{ token: string }>;
+    },
+    onSuccess: ({ token }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/api-tokens'] });
+      setMinted(token);
+      setDraft(EMPTY_DRAFT);
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to create token');
+    }
+  });
+
+  const revokeTokenMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('DELETE', `/api/admin/api-tokens/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/api-tokens'] });
+      toast.success('Token revoked');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke token');
+    }
+  });
+
+  const owners = { user: users, facility: facilities, ambulance: ambulances }[draft.ownerType];
+  const scopeOptions: readonly string[] = draft.ownerType === 'user'
+    ? Object.values(Permission)
+    : UNIT_TOKEN_SCOPES[draft.ownerType];
+
+  const toggleScope = (scope: string) => {
+    setDraft({
+      ...draft,
+      scopes: draft.scopes.includes(scope) ? draft.scopes.filter(s => s !== scope) : [...draft.scopes, scope],
+    });
+  };
+
+  const handleRevoke = (token: ApiTokenSummary) => {
+    if (window.confirm(`Revoke "${token.name}"? Clients using it will stop working immediately.`)) {
+      revokeTokenMutation.mutate(token.id);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {minted && (
+        <div className="border rounded p-4 space-y-2 bg-muted">
+          <p className="text-sm font-medium">Copy this token now. It will not be shown again.</p>
+          <div className="flex gap-2">
+            <Input readOnly value={minted} className="font-mono" onFocus={(e) => e.target.select()} />
+            <Button
+              variant="outline"
+              onClick={() => {
+                navigator.clipboard.writeText(minted);
+                toast.success('Token copied');
+              }}
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" onClick={() => setMinted(null)}>Done</Button>
+          </div>
+        </div>
+      )}
+
+      <form
+        className="space-y-3"
+        onSubmit={(e: React.FormEvent) => {
+          e.preventDefault();
+          createTokenMutation.mutate();
+        }}
+      >
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          <Input
+            placeholder="Name, e.g. KNH bed system"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          />
+          <select
+            className="text-foreground border rounded p-2 w-full"
+            value={draft.ownerType}
+            onChange={(e) => setDraft({ ...draft, ownerType: e.target.value as OwnerType, ownerId: '', scopes: [] })}
+          >
+            <option value="facility">Facility</option>
+            <option value="ambulance">Ambulance unit</option>
+            <option value="user">User</option>
+          </select>
+          <select
+            className="text-foreground border rounded p-2 w-full"
+            value={draft.ownerId}
+            onChange={(e) => setDraft({ ...draft, ownerId: e.target.value })}
+          >
+            <option value="">Choose owner…</option>
+            {owners.map(owner => (
+              <option key={owner.id} value={owner.id}>{owner.name}</option>
+            ))}
+          </select>
+          <Input
+            type="number"
+            min={1}
+            max={365}
+            aria-label="Expires in days"
+            value={draft.expiresInDays}
+            onChange={(e) => setDraft({ ...draft, expiresInDays: e.target.value })}
+          />
+        </div>
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+          {scopeOptions.map(scope => (
+            <label key={scope} className="flex items-center gap-1">
+              <input type="checkbox" checked={draft.scopes.includes(scope)} onChange={() => toggleScope(scope)} />
+              {scope}
+            </label>
+          ))}
+        </div>
+        <Button
+          type="submit"
+          disabled={!draft.name.trim() || !draft.ownerId || draft.scopes.length === 0 || createTokenMutation.isPending}
+        >
+          {createTokenMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Create token
+        </Button>
+      </form>
+
+      {isLoading ? (
+        <div className="h-40 flex items-center justify-center">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : error ? (
+        <p className="text-destructive text-sm">
+          {error instanceof Error ? error.message : 'Failed to load API tokens'}
+        </p>
+      ) : tokens.length === 0 ? (
+        <p className="text-muted-foreground text-sm">No API tokens yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Token</TableHead>
+              <TableHead>Owner</TableHead>
+              <TableHead>Scopes</TableHead>
+              <TableHead>Expires</TableHead>
+              <TableHead>Last used</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {tokens.map(token => (
+              <TableRow key={token.id}>
+                <TableCell>{token.name}</TableCell>
+                <TableCell className="font-mono text-xs">{token.prefix}…</TableCell>
+                <TableCell>
+                  <span className="capitalize">{token.ownerType}</span>: {token.ownerName}
+                </TableCell>
+                <TableCell className="text-xs">{token.scopes.join(', ')}</TableCell>
+                <TableCell>{new Date(token.expiresAt).toLocaleDateString()}</TableCell>
+                <TableCell>{token.lastUsedAt ? new Date(token.lastUsedAt).toLocaleString() : 'Never'}</TableCell>
+                <TableCell>{tokenStatus(token)}</TableCell>
+                <TableCell>
+                  {!token.revokedAt && (
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => handleRevoke(token)}
+                      disabled={revokeTokenMutation.isPending}
+                    >
+                      Revoke
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+import React, { useState } from 'react';
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { Loader2, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+interface AuditEvent {
+  id: number;
+  actorId: number | null;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: string;
+}
+
+interface AuditPage {
+  events: AuditEvent[];
+  nextBeforeId: number | null;
+}
+
+interface ChainVerification {
+  valid: boolean;
+  checked: number;
+  brokenAt: number | null;
+}
+
+interface AuditLogProps {
+  // Resolves actor ids to names where the viewer can list users
+  userNames?: Map<number, string>;
+}
+
+const EMPTY_FILTERS = { action: '', entityType: '', entityId: '', actorId: '', from: '', to: '' };
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function Changes({ event }: { event: AuditEvent }) {
+  const fields = Array.from(new Set([...Object.keys(event.before ?? {}), ...Object.keys(event.after ?? {})]));
+  if (fields.length === 0) return <span className="text-muted-foreground">—</span>;
+
+  return (
+    <ul className="text-xs space-y-1 max-w-md">
+      {fields.map(field => (
+        <li key={field} className="break-all">
+          <span className="font-medium">{field}</span>:{' '}
+          {event.before && <span className="line-through text-muted-foreground">{formatValue(event.before[field])}</span>}
+          {event.before && event.after && ' → '}
+          {event.after && <span>{formatValue(event.after[field])}</span>}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function AuditLog({ userNames }: AuditLogProps) {
+  const [draft, setDraft] = useState(EMPTY_FILTERS);
+  const [filters, setFilters] = useState(EMPTY_FILTERS);
+
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery<AuditPage>({
+    queryKey: ['/api/admin/audit', filters],
+    initialPageParam: null as number | null,
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(filters)) {
+        if (!value.trim()) continue;
+        // Date inputs are local; the API compares instants
+        params.set(key, key === 'from' || key === 'to' ? new Date(value).toISOString() : value.trim());
+      }
+      if (pageParam) params.set('beforeId', String(pageParam));
+
+      const response = await apiRequest('GET', `/api/admin/audit?${params}`);
+      return response.json();
+    },
+    getNextPageParam: (lastPage) => lastPage.nextBeforeId,
+  });
+
+  const { data: verification, refetch: verify, isFetching: isVerifying } = useQuery<ChainVerification>({
+    queryKey: ['/api/admin/audit/verify'],
+    queryFn: () => apiRequest('GET', '/api/admin/audit/verify').then(res => res.json()),
+    enabled: false,
+  });
+
+  const events = data?.pages.flatMap(page => page.events) ?? [];
+  const actorName = (actorId: number | null) =>
+    actorId === null ? 'System' : userNames?.get(actorId) ?? `User #${actorId}`;
+
+  return (
+    <div className="space-y-4">
+      <form
+        className="grid grid-cols-2 md:grid-cols-4 gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          setFilters(draft);
+        }}
+      >
+        <Input
+          placeholder="Action, e.g. user.updated"
+          value={draft.action}
+          onChange={(e) => setDraft({ ...draft, action: e.target.value })}
+        />
+        <Input
+          placeholder="Entity type"
+          value={draft.entityType}
+          onChange={(e) => setDraft({ ...draft, entityType: e.target.value })}
+        />
+        <Input
+          placeholder="Entity ID"
+          value={draft.entityId}
+          onChange={(e) => setDraft({ ...draft, entityId: e.target.value })}
+        />
+        <Input
+          placeholder="Actor user ID"
+          type="number"
+          value={draft.actorId}
+          onChange={(e) => setDraft({ ...draft, actorId: e.target.value })}
+        />
+        <Input
+          type="datetime-local"
+          aria-label="From"
+          value={draft.from}
+          onChange={(e) => setDraft({ ...draft, from: e.target.value })}
+        />
+        <Input
+          type="datetime-local"
+          aria-label="To"
+          value={draft.to}
+          onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+        />
+        <Button type="submit">Apply filters</Button>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => {
+            setDraft(EMPTY_FILTERS);
+            setFilters(EMPTY_FILTERS);
+          }}
+        >
+          Clear
+        </Button>
+      </form>
+
+      <div className="flex items-center gap-3 text-sm">
+        <Button variant="outline" size="sm" onClick={() => verify()} disabled={isVerifying}>
+          {isVerifying && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Verify integrity
+        </Button>
+        {verification && (verification.valid ? (
+          <span className="flex items-center text-green-600">
+            <ShieldCheck className="h-4 w-4 mr-1" />
+            {verification.checked} events checked, chain intact
+          </span>
+        ) : (
+          <span className="flex items-center text-destructive">
+            <ShieldAlert className="h-4 w-4 mr-1" />
+            Chain broken at event #{verification.brokenAt}
+          </span>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="h-40 flex items-center justify-center">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : error ? (
+        <p className="text-destructive text-sm">
+          {error instanceof Error ? error.message : 'Failed to load the audit log'}
+        </p>
+      ) : events.length === 0 ? (
+        <p className="text-muted-foreground text-sm">No audit events match these filters.</p>
+      ) : (
+        <>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>Actor</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Target</TableHead>
+                <TableHead>Changes</TableHead>
+                <TableHead>Origin</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map((event) => (
+                <TableRow key={event.id}>
+                  <TableCell className="whitespace-nowrap">{new Date(event.createdAt).toLocaleString()}</TableCell>
+                  <TableCell>{actorName(event.actorId)}</TableCell>
+                  <TableCell className="font-mono text-xs">{event.action}</TableCell>
+                  <TableCell>
+                    {event.entityType}{event.entityId ? ` #${event.entityId}` : ''}
+                  </TableCell>
+                  <TableCell><Changes event={event} /></TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    <div>{event.ip ?? '—'}</div>
+                    <div className="max-w-[12rem] truncate" title={event.userAgent ?? undefined}>
+                      {event.userAgent}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {hasNextPage && (
+            <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+              {isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Load older events
+            </Button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
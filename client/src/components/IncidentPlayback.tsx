@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Loader2 } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { LocationMap, type PlaybackTrack } from '@/components/maps/location-map';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface EmergencyTrack {
+  emergencyId: number;
+  from: string;
+  to: string;
+  toleranceMeters: number;
+  tracks: (PlaybackTrack & { subject: 'reporter' | 'unit'; recordedPoints: number })[];
+}
+
+interface IncidentPlaybackProps {
+  emergencyId: number;
+  latitude: string;
+  longitude: string;
+}
+
+const TOLERANCES = [0, 10, 50, 200];
+
+export function IncidentPlayback({ emergencyId, latitude, longitude }: IncidentPlaybackProps) {
+  const [tolerance, setTolerance] = useState(10);
+
+  const { data: track, isLoading, error } = useQuery<EmergencyTrack>({
+    queryKey: ['/api/emergencies', emergencyId, 'track', tolerance],
+    queryFn: () => apiRequest('GET', `/api/emergencies/${emergencyId}/track?tolerance=${tolerance}`).then(res => res.json()),
+  });
+
+  const hasPoints = track?.tracks.some(t => t.points.length > 0);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">
+          {track && `${new Date(track.from).toLocaleString()} – ${new Date(track.to).toLocaleString()}`}
+        </span>
+        <Select value={String(tolerance)} onValueChange={(value) => setTolerance(parseInt(value))}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TOLERANCES.map(value => (
+              <SelectItem key={value} value={String(value)}>
+                {value === 0 ? 'Every point' : `Simplify to ${value} m`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="h-80 flex items-center justify-center">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : error ? (
+        <p className="text-destructive text-sm">
+          {error instanceof Error ? error.message : 'Failed to load the incident track'}
+        </p>
+      ) : !hasPoints ? (
+        <p className="text-sm text-muted-foreground">No location history was recorded for this incident.</p>
+      ) : (
+        <>
+          <LocationMap
+            latitude={parseFloat(latitude)}
+            longitude={parseFloat(longitude)}
+            tracks={track!.tracks}
+            className="min-h-[20rem]"
+          />
+          <p className="text-xs text-muted-foreground">
+            {track!.tracks.map(t => `${t.label}: ${t.points.length} of ${t.recordedPoints} points`).join(' · ')}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
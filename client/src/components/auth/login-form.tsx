@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, type FormEvent } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -17,10 +17,15 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Loader2 } from "lucide-react";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import type { TwoFactorChallenge } from "@/hooks/use-auth";
 
 interface LoginFormProps {
   onSubmit: (data: LoginUser) => void;
   isPending: boolean;
+  // Set once the password has been accepted and a code is needed to finish
+  twoFactor?: TwoFactorChallenge | null;
+  onCancelTwoFactor?: () => void;
 }
 
 const loginSchema = z.object({
@@ -29,8 +34,10 @@ const loginSchema = z.object({
   rememberMe: z.boolean().optional(),
 });
 
-export function LoginForm({ onSubmit, isPending }: LoginFormProps) {
+export function LoginForm({ onSubmit, isPending, twoFactor, onCancelTwoFactor }: LoginFormProps) {
   const [rememberMe, setRememberMe] = useState(false);
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
 
   const form = useForm<LoginUser>({
     resolver: zodResolver(loginSchema),
@@ -45,6 +52,98 @@ export function LoginForm({ onSubmit, isPending }: LoginFormProps) {
     onSubmit(data);
   };
 
+  // The second step resends the username and password along with the code
+  const handleCodeSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onSubmit({ ...form.getValues(), code });
+    setCode("");
+  };
+
+  const handleCancelTwoFactor = () => {
+    setCode("");
+    setUseRecoveryCode(false);
+    onCancelTwoFactor?.();
+  };
+
+  if (twoFactor) {
+    const setup = twoFactor.code === "two_factor_setup_required" ? twoFactor.setup : undefined;
+    return (
+      <div className="w-full max-w-md space-y-6">
+        <div className="flex flex-col items-center">
+          <h2 className="mt-6 text-3xl font-bold tracking-tight text-white">
+            {setup ? "Set up two-factor sign-in" : "Two-factor sign-in"}
+          </h2>
+          <p className="mt-2 text-white/70 text-sm text-center">{twoFactor.message}</p>
+        </div>
+
+        {setup && (
+          <div className="bg-white/10 rounded-lg p-4 space-y-2 text-sm text-white/80">
+            <p>Enter this key in your authenticator app, then type the 6-digit code it shows.</p>
+            <p className="font-mono text-white break-all select-all">{setup.secret.match(/.{1,4}/g)?.join(" ")}</p>
+            <a href={setup.otpauthUrl} className="text-secondary underline">
+              Open in authenticator app
+            </a>
+          </div>
+        )}
+
+        <form className="space-y-6" onSubmit={handleCodeSubmit}>
+          {useRecoveryCode ? (
+            <Input
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="xxxxx-xxxxx"
+              autoComplete="off"
+              className="w-full bg-white/20 rounded-lg px-4 py-3 text-white border border-white/10"
+            />
+          ) : (
+            <div className="flex justify-center">
+              <InputOTP maxLength={6} value={code} onChange={setCode} autoFocus autoComplete="one-time-code">
+                <InputOTPGroup>
+                  {[0, 1, 2, 3, 4, 5].map(index => (
+                    <InputOTPSlot key={index} index={index} className="text-white border-white/30" />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+          )}
+
+          <Button
+            type="submit"
+            className="w-full bg-green-500 hover:bg-green-600 text-white font-medium py-3 px-4 rounded-lg"
+            disabled={isPending || (useRecoveryCode ? code.trim().length < 6 : code.length !== 6)}
+          >
+            {isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Verifying...
+              </>
+            ) : (
+              "Verify"
+            )}
+          </Button>
+        </form>
+
+        <div className="flex justify-between">
+          {!setup && (
+            <Button
+              variant="link"
+              className="text-sm text-white/70 p-0 h-auto"
+              onClick={() => {
+                setUseRecoveryCode(!useRecoveryCode);
+                setCode("");
+              }}
+            >
+              {useRecoveryCode ? "Use authenticator code" : "Use a recovery code"}
+            </Button>
+          )}
+          <Button variant="link" className="text-sm text-white/70 p-0 h-auto ml-auto" onClick={handleCancelTwoFactor}>
+            Back
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="w-full max-w-md space-y-8">
       <div className="flex flex-col items-center">
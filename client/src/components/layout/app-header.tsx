@@ -1,5 +1,7 @@
 import { useState } from "react";
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permission";
+import { Permission } from "@shared/permissions";
 import { Bell, Menu, LogOut, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
@@ -15,6 +17,9 @@ interface AppHeaderProps {
 
 export function AppHeader({ title = "MediTrack" }: AppHeaderProps) {
   const { user, logoutMutation, isAdmin, isResponseTeam } = useAuth();
+  const { can } = usePermissions();
+  const canOpenAdmin = can(Permission.ADMIN_CONSOLE);
+  const canDispatch = can(Permission.EMERGENCY_DISPATCH);
   const [location, setLocation] = useLocation();
 
   const handleLogout = () => {
@@ -81,7 +86,7 @@ export function AppHeader({ title = "MediTrack" }: AppHeaderProps) {
                   onClick={() => setLocation("/settings")}
                 />
                 
-                {isAdmin && (
+                {canOpenAdmin && (
                   <MenuItem
                     label="Admin Panel"
                     icon="admin"
@@ -90,7 +95,7 @@ export function AppHeader({ title = "MediTrack" }: AppHeaderProps) {
                   />
                 )}
                 
-                {isResponseTeam && (
+                {canDispatch && (
                   <MenuItem
                     label="Response Team"
                     icon="ambulance"
@@ -1,6 +1,9 @@
 /// <reference types="@types/google.maps" />
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Pause, Play } from 'lucide-react';
 
 interface Marker {
   lat: number;
@@ -10,6 +13,12 @@ interface Marker {
   info?: string;
 }
 
+export interface PlaybackTrack {
+  label: string;
+  color?: string;
+  points: { latitude: number; longitude: number; timestamp: string | Date }[];
+}
+
 interface LocationMapProps {
   latitude: number;
   longitude: number;
@@ -17,6 +26,28 @@ interface LocationMapProps {
   markers?: Marker[];
   className?: string;
   onMarkerClick?: (marker: Marker) => void;
+  // Recorded trails to scrub through, e.g. for incident review
+  tracks?: PlaybackTrack[];
+}
+
+const TRACK_COLORS = ['#EF4444', '#3B82F6', '#10B981', '#F59E0B', '#8B5CF6'];
+const PLAYBACK_SPEEDS = [10, 60, 300];
+const PLAYBACK_TICK_MS = 200;
+
+// Where a track was at a moment, interpolating between breadcrumbs
+function positionAt(points: { lat: number; lng: number; time: number }[], time: number) {
+  if (points.length === 0 || time < points[0].time) return null;
+  const nextIndex = points.findIndex(point => point.time > time);
+  if (nextIndex === -1) return points[points.length - 1];
+
+  const prev = points[nextIndex - 1];
+  const next = points[nextIndex];
+  const ratio = (time - prev.time) / (next.time - prev.time);
+  return {
+    lat: prev.lat + (next.lat - prev.lat) * ratio,
+    lng: prev.lng + (next.lng - prev.lng) * ratio,
+    time,
+  };
 }
 
 export function LocationMap({ 
@@ -25,12 +56,15 @@ export function LocationMap({
   zoom = 15, 
   markers = [],
   className,
-  onMarkerClick
+  onMarkerClick,
+  tracks
 }: LocationMapProps) {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<any>(null);
   const markersRef = useRef<google.maps.Marker[]>([]);
+  const trackOverlaysRef = useRef<{ line: google.maps.Polyline; marker: google.maps.Marker }[]>([]);
   const [mapError, setMapError] = useState<string | null>(null);
+  const [isMapReady, setIsMapReady] = useState(false);
   const [infoWindow, setInfoWindow] = useState<any>(null);
   const { toast } = useToast();
 
@@ -242,6 +276,7 @@ export function LocationMap({
         });
 
         mapInitialized = true;
+        setIsMapReady(true);
         setMapError(null);
       } catch (error) {
         const errorMessage = 'Error initializing map: ' + (error instanceof Error ? error.message : String(error));
@@ -305,6 +340,100 @@ export function LocationMap({
     }
   }, [latitude, longitude, markers]);
 
+  // Playback over the recorded tracks
+  const playbackTracks = useMemo(() => (tracks ?? []).map((track, index) => ({
+    ...track,
+    color: track.color ?? TRACK_COLORS[index % TRACK_COLORS.length],
+    path: track.points.map(point => ({
+      lat: point.latitude,
+      lng: point.longitude,
+      time: new Date(point.timestamp).getTime(),
+    })),
+  })), [tracks]);
+
+  const [startTime, endTime] = useMemo(() => {
+    const times = playbackTracks.flatMap(track => track.path.map(point => point.time));
+    return times.length ? [Math.min(...times), Math.max(...times)] : [0, 0];
+  }, [playbackTracks]);
+
+  const [playbackTime, setPlaybackTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speedIndex, setSpeedIndex] = useState(1);
+
+  // Rewind whenever a different set of tracks is loaded
+  useEffect(() => {
+    setPlaybackTime(startTime);
+    setIsPlaying(false);
+  }, [startTime]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setInterval(() => {
+      setPlaybackTime(time => {
+        const next = time + PLAYBACK_TICK_MS * PLAYBACK_SPEEDS[speedIndex];
+        if (next >= endTime) {
+          setIsPlaying(false);
+          return endTime;
+        }
+        return next;
+      });
+    }, PLAYBACK_TICK_MS);
+    return () => clearInterval(timer);
+  }, [isPlaying, speedIndex, endTime]);
+
+  // Draw each trail once, then fit the map around all of them
+  useEffect(() => {
+    if (!isMapReady || !mapInstanceRef.current) return;
+
+    const bounds = new google.maps.LatLngBounds();
+    trackOverlaysRef.current = playbackTracks.map(track => {
+      track.path.forEach(point => bounds.extend(point));
+      return {
+        line: new google.maps.Polyline({
+          path: track.path,
+          map: mapInstanceRef.current,
+          strokeColor: track.color,
+          strokeOpacity: 0.7,
+          strokeWeight: 3,
+        }),
+        marker: new google.maps.Marker({
+          map: mapInstanceRef.current,
+          title: track.label,
+          icon: {
+            path: google.maps.SymbolPath.CIRCLE,
+            scale: 7,
+            fillOpacity: 1,
+            fillColor: track.color,
+            strokeWeight: 2,
+            strokeColor: '#FFFFFF',
+          },
+        }),
+      };
+    });
+    if (!bounds.isEmpty()) {
+      mapInstanceRef.current.fitBounds(bounds);
+    }
+
+    return () => {
+      trackOverlaysRef.current.forEach(({ line, marker }) => {
+        line.setMap(null);
+        marker.setMap(null);
+      });
+      trackOverlaysRef.current = [];
+    };
+  }, [isMapReady, playbackTracks]);
+
+  // Move each track's marker to where it was at the playback time
+  useEffect(() => {
+    trackOverlaysRef.current.forEach(({ marker }, index) => {
+      const position = positionAt(playbackTracks[index]?.path ?? [], playbackTime);
+      marker.setVisible(!!position);
+      if (position) marker.setPosition(position);
+    });
+  }, [playbackTime, playbackTracks, isMapReady]);
+
+  const hasPlayback = endTime > startTime;
+
   if (mapError) {
     return (
       <div className={`w-full h-full rounded-lg overflow-hidden bg-destructive/10 flex items-center justify-center ${className || ''}`}>
@@ -329,6 +458,49 @@ export function LocationMap({
         ref={mapRef} 
         className={`w-full h-full rounded-lg overflow-hidden ${className || ''}`}
       />
+      {hasPlayback && (
+        <div className="mt-3 space-y-2">
+          <div className="flex items-center gap-3">
+            <Button
+              size="icon"
+              variant="outline"
+              onClick={() => {
+                if (playbackTime >= endTime) setPlaybackTime(startTime);
+                setIsPlaying(playing => !playing);
+              }}
+              aria-label={isPlaying ? 'Pause playback' : 'Play back incident'}
+            >
+              {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+            </Button>
+            <Slider
+              min={startTime}
+              max={endTime}
+              step={1000}
+              value={[playbackTime]}
+              onValueChange={([time]) => setPlaybackTime(time)}
+              className="flex-1"
+            />
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => setSpeedIndex(index => (index + 1) % PLAYBACK_SPEEDS.length)}
+            >
+              {PLAYBACK_SPEEDS[speedIndex]}x
+            </Button>
+          </div>
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>{new Date(playbackTime).toLocaleTimeString()}</span>
+            <div className="flex gap-3">
+              {playbackTracks.map(track => (
+                <span key={track.label} className="flex items-center gap-1">
+                  <span className="inline-block h-2 w-2 rounded-full" style={{ backgroundColor: track.color }} />
+                  {track.label}
+                </span>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
     </>
   );
 }
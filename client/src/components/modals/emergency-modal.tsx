@@ -3,7 +3,7 @@ import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { useEmergency } from "@/hooks/use-emergency";
 import { Heartbeat } from "@/components/ui/heartbeat";
-import { Loader2, MapPin, Ambulance, AlertTriangle } from "lucide-react";
+import { Loader2, MapPin, Ambulance, AlertTriangle, CloudOff, CheckCircle2 } from "lucide-react";
 import { LocationMap } from "@/components/maps/location-map";
 import { useLocation } from "@/hooks/use-maps";
 import { Icon } from "@/components/ui/icon";
@@ -18,7 +18,8 @@ export function EmergencyModal() {
     isEmergencyModalOpen, 
     closeEmergencyModal, 
     submitEmergency,
-    isSubmittingEmergency
+    isSubmittingEmergency,
+    emergencySubmissionStatus
   } = useEmergency();
 
   const [emergencyType, setEmergencyType] = useState("");
@@ -177,7 +178,8 @@ export function EmergencyModal() {
   if (!isEmergencyModalOpen) return null;
 
   const showLocationError = locationError && (!locationData || retryCount >= MAX_RETRIES);
-  const isDisabled = !emergencyType || isSubmitting || (showLocationError && !locationData);
+  const isQueued = emergencySubmissionStatus === 'queued';
+  const isDisabled = !emergencyType || isSubmitting || isQueued || (showLocationError && !locationData);
 
   return (
     <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
@@ -191,6 +193,28 @@ export function EmergencyModal() {
             <p className="text-white/80">We're sending help your way</p>
           </div>
 
+          {isQueued && (
+            <Alert className="mb-4 bg-yellow-500/10 border-yellow-500/50 text-white">
+              <CloudOff className="h-4 w-4 text-yellow-400" />
+              <div className="ml-2">
+                <h4 className="font-medium">Alert queued</h4>
+                <p className="text-sm text-white/80">
+                  You're offline. Your alert is saved on this device and will be sent automatically when your connection returns.
+                </p>
+              </div>
+            </Alert>
+          )}
+
+          {emergencySubmissionStatus === 'sent' && (
+            <Alert className="mb-4 bg-green-500/10 border-green-500/50 text-white">
+              <CheckCircle2 className="h-4 w-4 text-green-400" />
+              <div className="ml-2">
+                <h4 className="font-medium">Alert sent</h4>
+                <p className="text-sm text-white/80">Responders have received your alert.</p>
+              </div>
+            </Alert>
+          )}
+
           <div className="bg-white/10 rounded-lg p-4 mb-4">
             <div className="flex items-center justify-between mb-3">
               <h3 className="text-white font-medium">Your Location</h3>
@@ -411,6 +435,11 @@ export function EmergencyModal() {
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                   Sending...
                 </>
+              ) : isQueued ? (
+                <>
+                  <CloudOff className="mr-2 h-4 w-4" />
+                  Queued
+                </>
               ) : (
                 <>
                   <Ambulance className="mr-2 h-4 w-4" />
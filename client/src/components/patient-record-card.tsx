@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2, ShieldAlert } from "lucide-react";
+import { EmergencyContact, MedicalInfo } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+
+interface PatientRecord {
+  emergencyId: number;
+  patient: { id: number; firstName?: string; lastName?: string; phone: string };
+  medicalInfo: MedicalInfo | null;
+  emergencyContacts: EmergencyContact[];
+  access: 'crew' | 'break_glass';
+}
+
+type PatientRecordResult =
+  | { record: PatientRecord }
+  | { breakGlassRequired: true; message: string };
+
+interface PatientRecordCardProps {
+  emergencyId: number;
+}
+
+export function PatientRecordCard({ emergencyId }: PatientRecordCardProps) {
+  const { toast } = useToast();
+  const [justification, setJustification] = useState("");
+  const [breakGlassRecord, setBreakGlassRecord] = useState<PatientRecord | null>(null);
+
+  // A 403 with break_glass_required is an expected answer, not an error
+  const { data, isLoading, error } = useQuery<PatientRecordResult>({
+    queryKey: [`/api/emergencies/${emergencyId}/patient`],
+    queryFn: async () => {
+      const res = await fetch(`/api/emergencies/${emergencyId}/patient`, { credentials: "include" });
+      const body = await res.json();
+      if (res.status === 403 && body.code === "break_glass_required") {
+        return { breakGlassRequired: true, message: body.message };
+      }
+      if (!res.ok) {
+        throw new Error(body.message || "Failed to load patient record");
+      }
+      return { record: body };
+    },
+  });
+
+  const { mutate: breakGlass, isPending: isBreakingGlass } = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/emergencies/${emergencyId}/patient/break-glass`, { justification });
+      return await res.json() as PatientRecord;
+    },
+    onSuccess: (record) => {
+      setBreakGlassRecord(record);
+      setJustification("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Access Denied",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const record = breakGlassRecord ?? (data && "record" in data ? data.record : null);
+
+  return (
+    <Card className="mt-8">
+      <CardContent className="p-6">
+        <h2 className="text-2xl font-bold text-white mb-4">Patient</h2>
+        {isLoading ? (
+          <div className="flex justify-center">
+            <Loader2 className="h-8 w-8 animate-spin text-accent" />
+          </div>
+        ) : error ? (
+          <div className="text-red-400">{error instanceof Error ? error.message : "Failed to load patient record"}</div>
+        ) : record ? (
+          <div className="space-y-4 text-white">
+            {record.access === "break_glass" && (
+              <div className="flex items-center text-amber-400 text-sm">
+                <ShieldAlert className="h-4 w-4 mr-2" />
+                Break-glass access. This view has been recorded and the patient notified.
+              </div>
+            )}
+            <div>
+              <h3 className="font-medium">{record.patient.firstName} {record.patient.lastName}</h3>
+              <p className="text-white/60 text-sm">{record.patient.phone}</p>
+            </div>
+            {record.medicalInfo ? (
+              <dl className="grid grid-cols-2 gap-2 text-sm">
+                <dt className="text-white/60">Blood type</dt>
+                <dd>{record.medicalInfo.bloodType || "Unknown"}</dd>
+                <dt className="text-white/60">Allergies</dt>
+                <dd>{record.medicalInfo.allergies || "None recorded"}</dd>
+                <dt className="text-white/60">Conditions</dt>
+                <dd>{record.medicalInfo.conditions || "None recorded"}</dd>
+                <dt className="text-white/60">Medications</dt>
+                <dd>{record.medicalInfo.medications || "None recorded"}</dd>
+              </dl>
+            ) : (
+              <p className="text-white/60 text-sm">No medical information on file</p>
+            )}
+            <div>
+              <h4 className="font-medium mb-1">Emergency contacts</h4>
+              {record.emergencyContacts.length ? (
+                <ul className="text-sm space-y-1">
+                  {record.emergencyContacts.map(contact => (
+                    <li key={contact.id}>
+                      {contact.name} ({contact.relationship}) — {contact.phone}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-white/60 text-sm">No emergency contacts</p>
+              )}
+            </div>
+          </div>
+        ) : data && "breakGlassRequired" in data ? (
+          <div className="space-y-3">
+            <p className="text-white/60 text-sm">{data.message}</p>
+            <Textarea
+              value={justification}
+              onChange={(e) => setJustification(e.target.value)}
+              placeholder="Why do you need this patient's medical information?"
+              maxLength={500}
+            />
+            <Button
+              onClick={() => breakGlass()}
+              disabled={justification.trim().length < 10 || isBreakingGlass}
+              className="bg-red-600 hover:bg-red-700 text-white"
+            >
+              {isBreakingGlass && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Break glass and view record
+            </Button>
+            <p className="text-white/40 text-xs">
+              Your name and reason are recorded and sent to the patient.
+            </p>
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
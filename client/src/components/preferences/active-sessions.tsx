@@ -0,0 +1,109 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { apiRequest } from "@/lib/queryClient";
+import { Loader2, Monitor } from "lucide-react";
+
+interface SessionSummary {
+  id: string;
+  current: boolean;
+  device: string;
+  ip: string | null;
+  createdAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: string;
+}
+
+export function ActiveSessions() {
+  const queryClient = useQueryClient();
+
+  const { data: sessions = [], isLoading } = useQuery<SessionSummary[]>({
+    queryKey: ["/api/sessions"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/sessions");
+      return response.json();
+    }
+  });
+
+  const revokeSessionMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/sessions/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      toast.success("Session logged out");
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to log out session");
+    }
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", "/api/sessions");
+      return response.json() as Promise<{ revoked: number }>;
+    },
+    onSuccess: ({ revoked }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      toast.success(`Logged out ${revoked} other session${revoked === 1 ? "" : "s"}`);
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to log out other sessions");
+    }
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-6 w-6 animate-spin text-white/60" />
+      </div>
+    );
+  }
+
+  const hasOthers = sessions.some(session => !session.current);
+
+  return (
+    <div className="space-y-3">
+      {sessions.map(session => (
+        <div key={session.id} className="flex items-center bg-white/5 p-3 rounded-lg">
+          <Monitor className="text-white/60 h-5 w-5 mr-3 shrink-0" />
+          <div className="flex-1 min-w-0">
+            <h4 className="text-white font-medium text-sm">
+              {session.device}
+              {session.current && <span className="ml-2 text-secondary text-xs">This device</span>}
+            </h4>
+            <p className="text-white/60 text-xs truncate">
+              {[
+                session.ip,
+                session.lastSeenAt && `Active ${formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}`,
+                session.createdAt && `signed in ${new Date(session.createdAt).toLocaleDateString()}`,
+              ].filter(Boolean).join(" · ")}
+            </p>
+          </div>
+          {!session.current && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-white/80 hover:bg-white/10"
+              onClick={() => revokeSessionMutation.mutate(session.id)}
+              disabled={revokeSessionMutation.isPending}
+            >
+              Log out
+            </Button>
+          )}
+        </div>
+      ))}
+      {hasOthers && (
+        <Button
+          className="w-full bg-white/5 hover:bg-white/10 text-white text-sm"
+          onClick={() => revokeOthersMutation.mutate()}
+          disabled={revokeOthersMutation.isPending}
+        >
+          Log out all other sessions
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -2,17 +2,20 @@ import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
 import { Card, CardContent } from "@/components/ui/card";
 import { toast } from "sonner";
 import { apiRequest } from "@/lib/queryClient";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Plus, Trash2 } from "lucide-react";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
 
 interface EmergencyContact {
   id: number;
   name: string;
   relationship: string;
   phone: string;
+  notifyOnEmergency: boolean;
+  priority: number;
 }
 
 export function EmergencyContacts() {
@@ -68,6 +71,42 @@ export function EmergencyContacts() {
     }
   });
 
+  const alertsMutation = useMutation({
+    mutationFn: async ({ id, notifyOnEmergency }: { id: number; notifyOnEmergency: boolean }) => {
+      const response = await apiRequest("PATCH", `/api/emergency-contacts/${id}`, { notifyOnEmergency });
+      return response.json();
+    },
+    onSuccess: (contact: EmergencyContact) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/emergency-contacts"] });
+      toast.success(contact.notifyOnEmergency
+        ? `${contact.name} will be texted if you raise an SOS`
+        : `${contact.name} will not be texted if you raise an SOS`);
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to update emergency contact");
+    }
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async (ids: number[]) => {
+      const response = await apiRequest("PUT", "/api/emergency-contacts/order", { ids });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/emergency-contacts"] });
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to reorder emergency contacts");
+    }
+  });
+
+  // Swap a contact with its neighbour; the list arrives in priority order
+  const moveContact = (index: number, offset: -1 | 1) => {
+    const ids = contacts.map(contact => contact.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    reorderMutation.mutate(ids);
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!newContact.name || !newContact.relationship || !newContact.phone) {
@@ -121,18 +160,50 @@ export function EmergencyContacts() {
             <Table>
               <TableHeader>
                 <TableRow>
+                  <TableHead>Order</TableHead>
                   <TableHead>Name</TableHead>
                   <TableHead>Relationship</TableHead>
                   <TableHead>Phone</TableHead>
+                  <TableHead>SOS alerts</TableHead>
                   <TableHead>Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {contacts.map((contact) => (
+                {contacts.map((contact, index) => (
                   <TableRow key={contact.id}>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => moveContact(index, -1)}
+                          disabled={index === 0 || reorderMutation.isPending}
+                          aria-label={`Contact ${contact.name} earlier`}
+                        >
+                          <ArrowUp className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => moveContact(index, 1)}
+                          disabled={index === contacts.length - 1 || reorderMutation.isPending}
+                          aria-label={`Contact ${contact.name} later`}
+                        >
+                          <ArrowDown className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
                     <TableCell>{contact.name}</TableCell>
                     <TableCell>{contact.relationship}</TableCell>
                     <TableCell>{contact.phone}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={contact.notifyOnEmergency}
+                        onCheckedChange={(checked) => alertsMutation.mutate({ id: contact.id, notifyOnEmergency: checked })}
+                        disabled={alertsMutation.isPending}
+                        aria-label={`Text ${contact.name} when I raise an SOS`}
+                      />
+                    </TableCell>
                     <TableCell>
                       <Button
                         variant="destructive"
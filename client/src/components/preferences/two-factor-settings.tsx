@@ -0,0 +1,234 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { toast } from "sonner";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth, type TwoFactorSetup } from "@/hooks/use-auth";
+import { Loader2, ShieldCheck } from "lucide-react";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export function TwoFactorSettings() {
+  const queryClient = useQueryClient();
+  const { newRecoveryCodes, clearNewRecoveryCodes } = useAuth();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/2fa"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/2fa");
+      return response.json();
+    }
+  });
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/2fa/setup");
+      return response.json() as Promise<TwoFactorSetup>;
+    },
+    onSuccess: (data) => {
+      setSetup(data);
+      setCode("");
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to start two-factor setup");
+    }
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/2fa/enable", { code });
+      return response.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/2fa"] });
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      toast.success("Two-factor sign-in is on");
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to turn on two-factor sign-in");
+    }
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/2fa/recovery-codes", { code });
+      return response.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/2fa"] });
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to create new recovery codes");
+    }
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/2fa/disable", { code });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/2fa"] });
+      setCode("");
+      toast.success("Two-factor sign-in is off");
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to turn off two-factor sign-in");
+    }
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-6 w-6 animate-spin text-white/60" />
+      </div>
+    );
+  }
+
+  const shownCodes = recoveryCodes ?? newRecoveryCodes;
+  if (shownCodes) {
+    return (
+      <div className="space-y-3">
+        <p className="text-white/80 text-sm">
+          Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator.
+          They will not be shown again.
+        </p>
+        <div className="grid grid-cols-2 gap-2 bg-white/5 p-3 rounded-lg font-mono text-sm text-white">
+          {shownCodes.map(recoveryCode => <span key={recoveryCode}>{recoveryCode}</span>)}
+        </div>
+        <div className="flex gap-2">
+          <Button
+            className="flex-1 bg-white/5 hover:bg-white/10 text-white text-sm"
+            onClick={() => {
+              navigator.clipboard.writeText(shownCodes.join("\n"));
+              toast.success("Recovery codes copied");
+            }}
+          >
+            Copy
+          </Button>
+          <Button
+            className="flex-1 bg-secondary/20 hover:bg-secondary/30 text-secondary text-sm"
+            onClick={() => {
+              setRecoveryCodes(null);
+              clearNewRecoveryCodes();
+            }}
+          >
+            I've saved them
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const codeInput = (
+    <div className="flex justify-center">
+      <InputOTP maxLength={6} value={code} onChange={setCode}>
+        <InputOTPGroup>
+          {[0, 1, 2, 3, 4, 5].map(index => (
+            <InputOTPSlot key={index} index={index} className="text-white border-white/30" />
+          ))}
+        </InputOTPGroup>
+      </InputOTP>
+    </div>
+  );
+
+  if (setup) {
+    return (
+      <div className="space-y-3">
+        <p className="text-white/80 text-sm">
+          Enter this key in your authenticator app, then type the 6-digit code it shows.
+        </p>
+        <p className="font-mono text-white text-sm break-all select-all bg-white/5 p-3 rounded-lg">
+          {setup.secret.match(/.{1,4}/g)?.join(" ")}
+        </p>
+        <a href={setup.otpauthUrl} className="text-secondary text-sm underline">
+          Open in authenticator app
+        </a>
+        {codeInput}
+        <div className="flex gap-2">
+          <Button className="flex-1 bg-white/5 hover:bg-white/10 text-white text-sm" onClick={() => setSetup(null)}>
+            Cancel
+          </Button>
+          <Button
+            className="flex-1 bg-secondary/20 hover:bg-secondary/30 text-secondary text-sm"
+            onClick={() => enableMutation.mutate()}
+            disabled={code.length !== 6 || enableMutation.isPending}
+          >
+            Turn on
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!status?.enabled) {
+    return (
+      <div className="space-y-3">
+        <p className="text-white/60 text-xs">
+          Ask for a code from an authenticator app as well as your password when you sign in.
+          {status?.required && " Your role requires it."}
+        </p>
+        <Button
+          className="w-full bg-white/5 hover:bg-white/10 text-white text-sm"
+          onClick={() => setupMutation.mutate()}
+          disabled={setupMutation.isPending}
+        >
+          Set up two-factor sign-in
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center bg-white/5 p-3 rounded-lg">
+        <ShieldCheck className="text-secondary h-5 w-5 mr-3 shrink-0" />
+        <div>
+          <h4 className="text-white font-medium text-sm">Two-factor sign-in is on</h4>
+          <p className="text-white/60 text-xs">
+            {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? "" : "s"} left
+          </p>
+        </div>
+      </div>
+      <p className="text-white/60 text-xs">Enter a current code or a recovery code to make changes.</p>
+      <Input
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        placeholder="123456"
+        autoComplete="one-time-code"
+        className="bg-white/10 text-white border-white/10"
+      />
+      <div className="flex gap-2">
+        <Button
+          className="flex-1 bg-white/5 hover:bg-white/10 text-white text-sm"
+          onClick={() => regenerateMutation.mutate()}
+          disabled={code.trim().length < 6 || regenerateMutation.isPending}
+        >
+          New recovery codes
+        </Button>
+        {!status.required && (
+          <Button
+            className="flex-1 bg-white/5 hover:bg-white/10 text-white text-sm"
+            onClick={() => disableMutation.mutate()}
+            disabled={code.trim().length < 6 || disableMutation.isPending}
+          >
+            Turn off
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
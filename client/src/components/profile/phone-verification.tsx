@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export function PhoneVerification({ phone, onVerified }: { phone: string; onVerified: () => void }) {
+  const { toast } = useToast();
+  const [codeSent, setCodeSent] = useState(false);
+  const [code, setCode] = useState("");
+
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/users/phone/verify/start", {});
+      return await res.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      setCodeSent(true);
+      setCode("");
+      toast({ title: "Code sent", description: data.message });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not send code", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const res = await apiRequest("POST", "/api/users/phone/verify/confirm", { code: value });
+      return await res.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      toast({ title: "Phone verified", description: data.message });
+      queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+      onVerified();
+    },
+    onError: (error: Error) => {
+      setCode("");
+      toast({ title: "Verification failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!codeSent) {
+    return (
+      <div className="space-y-4">
+        <p className="text-white/80 text-sm">
+          We will text a 6-digit code to <span className="font-medium text-white">{phone}</span> so responders
+          can rely on reaching you.
+        </p>
+        <Button
+          className="w-full bg-secondary hover:bg-secondary/80"
+          disabled={startMutation.isPending}
+          onClick={() => startMutation.mutate()}
+        >
+          {startMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Send code
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-white/80 text-sm">Enter the code sent to {phone}.</p>
+      <div className="flex justify-center">
+        <InputOTP
+          maxLength={6}
+          value={code}
+          onChange={setCode}
+          onComplete={(value) => confirmMutation.mutate(value)}
+          disabled={confirmMutation.isPending}
+        >
+          <InputOTPGroup>
+            {Array.from({ length: 6 }, (_, index) => (
+              <InputOTPSlot key={index} index={index} />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      </div>
+      <div className="flex justify-between">
+        <Button
+          variant="link"
+          className="text-secondary p-0"
+          disabled={startMutation.isPending}
+          onClick={() => startMutation.mutate()}
+        >
+          Resend code
+        </Button>
+        <Button
+          className="bg-secondary hover:bg-secondary/80"
+          disabled={code.length !== 6 || confirmMutation.isPending}
+          onClick={() => confirmMutation.mutate(code)}
+        >
+          {confirmMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Verify
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link2, Loader2, X } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+
+interface TrackingLinkSummary {
+  id: number;
+  contactName: string | null;
+  expiresAt: string;
+  revokedAt: string | null;
+  createdAt: string;
+  active: boolean;
+}
+
+interface TrackingLinksProps {
+  emergencyId: number;
+}
+
+// Lets the reporter share a live tracking page with family, and withdraw it again
+export function TrackingLinks({ emergencyId }: TrackingLinksProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/emergencies/${emergencyId}/tracking-links`];
+
+  const { data: links = [], isLoading } = useQuery<TrackingLinkSummary[]>({
+    queryKey,
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/emergencies/${emergencyId}/tracking-links`);
+      return res.json();
+    },
+  });
+
+  const { mutate: shareLink, isPending: isSharing } = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/emergencies/${emergencyId}/tracking-links`);
+      return await res.json() as { url: string };
+    },
+    onSuccess: async ({ url }) => {
+      queryClient.invalidateQueries({ queryKey });
+      // The link is only ever shown now, so hand it straight to the share sheet or clipboard
+      if (navigator.share) {
+        await navigator.share({ title: "Follow my emergency", url }).catch(() => undefined);
+      } else {
+        await navigator.clipboard.writeText(url);
+        toast({ title: "Link copied", description: "Paste it into a message to share it." });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not create link", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const { mutate: revokeLink, isPending: isRevoking } = useMutation({
+    mutationFn: async (linkId: number) => {
+      await apiRequest("DELETE", `/api/emergencies/${emergencyId}/tracking-links/${linkId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: "Link revoked", description: "Anyone holding it can no longer follow this emergency." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not revoke link", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const activeLinks = links.filter(link => link.active);
+
+  return (
+    <div className="mt-3 space-y-2">
+      <Button
+        size="sm"
+        className="w-full bg-white/5 hover:bg-white/10 text-white text-sm"
+        onClick={() => shareLink()}
+        disabled={isSharing}
+      >
+        {isSharing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Link2 className="h-4 w-4 mr-2" />}
+        Share tracking link
+      </Button>
+      {!isLoading && activeLinks.map(link => (
+        <div key={link.id} className="flex items-center justify-between bg-white/5 px-3 py-2 rounded-lg">
+          <span className="text-white/60 text-xs">
+            {link.contactName ? `Texted to ${link.contactName}` : `Shared ${new Date(link.createdAt).toLocaleTimeString()}`}
+            {" · expires "}{new Date(link.expiresAt).toLocaleTimeString()}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-white/60 hover:text-white"
+            onClick={() => revokeLink(link.id)}
+            disabled={isRevoking}
+            aria-label="Revoke link"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
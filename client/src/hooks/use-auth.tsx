@@ -11,12 +11,34 @@ interface User {
   firstName?: string;
   lastName?: string;
   role: UserRole;
+  phone?: string;
+  isEmailVerified?: boolean;
+  isPhoneVerified?: boolean;
 }
 
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+// What /api/login asks for once the password has checked out
+export interface TwoFactorChallenge {
+  code: 'two_factor_required' | 'two_factor_setup_required';
+  message: string;
+  setup?: TwoFactorSetup;
+}
+
+type LoginResult =
+  | { user: User & { recoveryCodes?: string[] } }
+  | { twoFactor: TwoFactorChallenge };
+
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
   loginMutation: any;
+  // Recovery codes from a two-factor setup finished during login, until the user has seen them
+  newRecoveryCodes: string[] | null;
+  clearNewRecoveryCodes: () => void;
   logoutMutation: any;
   registerMutation: any;
   isAdmin: boolean;
@@ -28,6 +50,7 @@ const AuthContext = createContext<AuthContextType | null>(null);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const { toast } = useToast();
   const [user, setUser] = useState<User | null>(null);
+  const [newRecoveryCodes, setNewRecoveryCodes] = useState<string[] | null>(null);
   const [, setLocation] = useLocation();
 
   const { data: session, isLoading } = useQuery({
@@ -54,20 +77,32 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }, [session]);
 
   const loginMutation = useMutation({
-    mutationFn: async (credentials: LoginUser) => {
+    mutationFn: async (credentials: LoginUser): Promise<LoginResult> => {
       try {
-        const res = await apiRequest('POST', '/api/login', credentials);
+        // Not apiRequest: the two-factor prompts are 401s whose code it would drop
+        const res = await fetch('/api/login', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(credentials),
+          credentials: 'include',
+        });
         const data = await res.json();
+        if (res.status === 401 && (data.code === 'two_factor_required' || data.code === 'two_factor_setup_required')) {
+          return { twoFactor: data };
+        }
         if (!res.ok) {
           throw new Error(data.message || 'Login failed');
         }
-        return data;
+        return { user: data };
       } catch (error) {
         console.error('Login error:', error);
         throw error;
       }
     },
-    onSuccess: (data) => {
+    onSuccess: (result) => {
+      if ('twoFactor' in result) return;
+
+      const { recoveryCodes, ...data } = result.user;
       setUser(data);
       queryClient.setQueryData(['/api/user'], data);
       queryClient.invalidateQueries({ queryKey: ['/api/user'] });
@@ -75,7 +110,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         title: "Success",
         description: "Logged in successfully",
       });
-      setLocation('/');
+      if (recoveryCodes) {
+        // Straight to settings, where the codes are shown for saving
+        setNewRecoveryCodes(recoveryCodes);
+        setLocation('/settings');
+      } else {
+        setLocation('/');
+      }
     },
     onError: (error: Error) => {
       console.error('Login mutation error:', error);
@@ -161,6 +202,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       user,
       isLoading,
       loginMutation,
+      newRecoveryCodes,
+      clearNewRecoveryCodes: () => setNewRecoveryCodes(null),
       logoutMutation,
       registerMutation,
       isAdmin,
@@ -1,9 +1,10 @@
-import { useState, createContext, useContext, ReactNode, useEffect } from 'react';
+import { useState, createContext, useContext, ReactNode, useEffect, useRef } from 'react';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { apiRequest, queryClient, getQueryFn } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { useLocation } from '@/hooks/use-maps';
-import { connectWebSocket, sendWSMessage, addWSListener } from '@/lib/websocket';
+import { connectWebSocket, disconnectWebSocket, sendWSMessage, addWSListener, isWSConnected } from '@/lib/websocket';
+import { registerOutbox, enqueueRequest, addOutboxListener, isNetworkError } from '@/lib/outbox';
 import { 
   EmergencyAlert, 
   InsertEmergencyAlert, 
@@ -23,14 +24,19 @@ interface EmergencySubmissionData {
   severity: 'low' | 'medium' | 'high';
   symptoms?: string[];
   patientCount?: number;
+  idempotencyKey?: string;
 }
 
+// queued: saved in the offline outbox, waiting for connectivity
+export type EmergencySubmissionStatus = 'idle' | 'queued' | 'sent' | 'failed';
+
 interface EmergencyContextType {
   isEmergencyModalOpen: boolean;
   openEmergencyModal: () => void;
   closeEmergencyModal: () => void;
   submitEmergency: (data: EmergencySubmissionData) => Promise<void>;
   isSubmittingEmergency: boolean;
+  emergencySubmissionStatus: EmergencySubmissionStatus;
   activeEmergencies: EmergencyAlert[] | null;
   isLoadingEmergencies: boolean;
   nearbyAmbulances: AmbulanceUnit[] | null;
@@ -40,8 +46,13 @@ interface EmergencyContextType {
 
 const EmergencyContext = createContext<EmergencyContextType | null>(null);
 
+// How often the user's position is sent while their own emergency is open, and otherwise
+const EMERGENCY_LOCATION_INTERVAL_MS = 30000;
+const BACKGROUND_LOCATION_INTERVAL_MS = 5 * 60 * 1000;
+
 export function EmergencyProvider({ children }: { children: ReactNode }) {
   const [isEmergencyModalOpen, setIsEmergencyModalOpen] = useState(false);
+  const [emergencySubmissionStatus, setEmergencySubmissionStatus] = useState<EmergencySubmissionStatus>('idle');
   const { toast } = useToast();
   const { getCurrentLocation, startWatchingLocation, stopWatchingLocation } = useLocation();
   
@@ -98,6 +109,12 @@ export function EmergencyProvider({ children }: { children: ReactNode }) {
     refetchInterval: 60000, // Refresh every minute
   });
 
+  // Whether the user shares their position outside emergencies
+  const { data: preferences } = useQuery<{ locationTracking: boolean }>({
+    queryKey: ['/api/users/me/preferences'],
+    enabled: !!user,
+  });
+
   // Get user emergency history
   const {
     data: userEmergencyHistory = null,
@@ -106,6 +123,10 @@ export function EmergencyProvider({ children }: { children: ReactNode }) {
     enabled: !!user,
   });
 
+  // Reused until a submission succeeds, so a retry after a lost response
+  // returns the alert the server already created instead of a duplicate
+  const pendingIdempotencyKey = useRef<string | null>(null);
+
   // Create emergency
   const { mutate: submitEmergencyMutation, isPending: isSubmittingEmergency } = useMutation({
     mutationFn: async (data: EmergencySubmissionData) => {
@@ -125,6 +146,7 @@ export function EmergencyProvider({ children }: { children: ReactNode }) {
         emergencyType: data.emergencyType,
         description: data.description || '',
         priority: data.severity,
+        idempotencyKey: data.idempotencyKey,
         requiredResources: JSON.stringify({
           patientCount: data.patientCount || 1,
           symptoms: data.symptoms || [],
@@ -132,38 +154,32 @@ export function EmergencyProvider({ children }: { children: ReactNode }) {
         })
       };
       
-      const res = await apiRequest('POST', '/api/emergencies', emergencyData);
-      if (!res.ok) {
-        const errorData = await res.json().catch(() => ({ message: 'Failed to submit emergency alert' }));
-        throw new Error(errorData.message || 'Failed to submit emergency alert');
+      try {
+        const res = await apiRequest('POST', '/api/emergencies', emergencyData);
+        if (!res.ok) {
+          const errorData = await res.json().catch(() => ({ message: 'Failed to submit emergency alert' }));
+          throw new Error(errorData.message || 'Failed to submit emergency alert');
+        }
+        return await res.json() as EmergencyAlert;
+      } catch (error) {
+        // Without a connection the outbox keeps retrying under the same key
+        if (isNetworkError(error) &&
+            await enqueueRequest('emergency', 'POST', '/api/emergencies', emergencyData, data.idempotencyKey)) {
+          return null;
+        }
+        throw error;
       }
-      return await res.json();
     },
     onSuccess: (data) => {
-      setIsEmergencyModalOpen(false);
-      toast({
-        title: "Emergency Submitted",
-        description: "Help is on the way. Stay calm and wait for assistance.",
-      });
-      
-      // Start tracking location more frequently during emergency
-      startWatchingLocation();
-      
-      // Invalidate relevant queries
-      queryClient.invalidateQueries({ queryKey: ['/api/emergencies/active'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/emergencies/user'] });
-      
-      // Broadcast emergency via WebSocket
-      sendWSMessage('emergency_broadcast', {
-        id: data.id,
-        userId: user?.id,
-        type: data.emergencyType,
-        location: {
-          latitude: data.latitude,
-          longitude: data.longitude,
-          accuracy: data.accuracy
-        }
-      });
+      if (!data) {
+        setEmergencySubmissionStatus('queued');
+        toast({
+          title: "Emergency Queued",
+          description: "You appear to be offline. Your alert is saved and will be sent as soon as you reconnect.",
+        });
+        return;
+      }
+      handleEmergencyCreated(data);
     },
     onError: (error: Error) => {
       toast({
@@ -174,16 +190,70 @@ export function EmergencyProvider({ children }: { children: ReactNode }) {
     }
   });
 
+  const handleEmergencyCreated = (emergency: EmergencyAlert, replayed = false) => {
+    pendingIdempotencyKey.current = null;
+    setEmergencySubmissionStatus('sent');
+    // A replayed alert leaves the modal open so the user sees it went out
+    if (!replayed) {
+      setIsEmergencyModalOpen(false);
+    }
+    toast({
+      title: "Emergency Submitted",
+      description: "Help is on the way. Stay calm and wait for assistance.",
+    });
+    
+    // Start tracking location more frequently during emergency
+    startWatchingLocation();
+    
+    // Invalidate relevant queries
+    queryClient.invalidateQueries({ queryKey: ['/api/emergencies/active'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/emergencies/user'] });
+    
+    // Broadcast emergency via WebSocket
+    sendWSMessage('emergency_broadcast', { emergencyId: emergency.id });
+  };
+
+  // Follow submissions the outbox replays in the background
+  useEffect(() => {
+    registerOutbox();
+
+    return addOutboxListener((entry) => {
+      if (entry.kind !== 'emergency' || entry.id !== pendingIdempotencyKey.current) return;
+
+      if (entry.status === 'sent') {
+        handleEmergencyCreated(entry.response, true);
+      } else if (entry.status === 'failed') {
+        pendingIdempotencyKey.current = null;
+        setEmergencySubmissionStatus('failed');
+        toast({
+          title: "Emergency Submission Failed",
+          description: entry.lastError || "Your queued alert was rejected. Please try again.",
+          variant: "destructive",
+        });
+      }
+    });
+  }, [toast]);
+
   const submitEmergency = async (data: EmergencySubmissionData) => {
+    if (!pendingIdempotencyKey.current) {
+      pendingIdempotencyKey.current = crypto.randomUUID();
+    }
+
     try {
-      await submitEmergencyMutation(data);
+      await submitEmergencyMutation({ ...data, idempotencyKey: pendingIdempotencyKey.current });
     } catch (error) {
       // Error will be handled by onError callback
       throw error;
     }
   };
 
-  const openEmergencyModal = () => setIsEmergencyModalOpen(true);
+  const openEmergencyModal = () => {
+    // Keep showing a queued alert until the outbox delivers it
+    if (emergencySubmissionStatus !== 'queued') {
+      setEmergencySubmissionStatus('idle');
+    }
+    setIsEmergencyModalOpen(true);
+  };
   const closeEmergencyModal = () => {
     setIsEmergencyModalOpen(false);
     stopWatchingLocation(); // Stop tracking location when modal is closed
@@ -191,6 +261,9 @@ export function EmergencyProvider({ children }: { children: ReactNode }) {
 
   // Set up WebSocket connection and listeners
   useEffect(() => {
+    // The server only accepts sockets from logged-in sessions
+    if (!user) return;
+
     // Connect to WebSocket
     connectWebSocket();
 
@@ -215,7 +288,22 @@ export function EmergencyProvider({ children }: { children: ReactNode }) {
         queryClient.invalidateQueries({ queryKey: ['/api/facilities/nearby'] });
       }
 
+      if (data.type === 'eta_update' && data.data.userId === user?.id) {
+        // Patch the cached alert so the new ETA shows without a refetch
+        const applyEta = (emergencies?: EmergencyAlert[] | null) =>
+          emergencies?.map(e => e.id === data.data.emergencyId
+            ? { ...e, etaSeconds: data.data.etaSeconds, etaUpdatedAt: new Date(data.data.computedAt) }
+            : e);
+        queryClient.setQueryData<EmergencyAlert[]>(['/api/emergencies/user'], applyEta);
+        queryClient.setQueryData<EmergencyAlert[]>(['/api/emergencies/active'], applyEta);
+      }
+
+      if (data.type === 'emergency_status_update') {
+        queryClient.invalidateQueries({ queryKey: ['/api/emergencies/active'] });
+      }
+
       if (data.type === 'emergency_status_update' && data.data.userId === user?.id) {
+        queryClient.invalidateQueries({ queryKey: ['/api/emergencies/user'] });
         toast({
           title: "Emergency Update",
           description: data.data.message,
@@ -224,16 +312,21 @@ export function EmergencyProvider({ children }: { children: ReactNode }) {
       }
     });
 
-    // Clean up listener on unmount
+    // Clean up listener on unmount or when the session user changes
     return () => {
       removeListener();
       stopWatchingLocation();
+      disconnectWebSocket();
     };
   }, [toast, user?.id]);
   
-  // Send location updates if user is logged in and has an active emergency
+  const hasOwnEmergency = !!user && !!activeEmergencies?.some(e => e.userId === user.id);
+  const locationTracking = preferences?.locationTracking ?? false;
+
+  // Send location updates while the user has an active emergency, and otherwise
+  // only if they allow location tracking
   useEffect(() => {
-    if (!user || !activeEmergencies?.some(e => e.userId === user.id)) return;
+    if (!user || (!hasOwnEmergency && !locationTracking)) return;
     
     let locationInterval: NodeJS.Timeout;
     
@@ -241,15 +334,18 @@ export function EmergencyProvider({ children }: { children: ReactNode }) {
       try {
         const location = await getCurrentLocation();
         if (location && location.accuracy && location.accuracy <= 100) { // Only send if accuracy is within 100 meters
-          sendWSMessage('location_update', {
-            type: 'location_update',
-            id: user.id,
-            role: user.role,
+          const report = {
             latitude: location.latitude,
             longitude: location.longitude,
             accuracy: location.accuracy,
             timestamp: Date.now()
-          });
+          };
+          if (isWSConnected()) {
+            sendWSMessage('location_update', report);
+          } else {
+            // Keep the trail while offline; the outbox posts it once reconnected
+            await enqueueRequest('location', 'POST', '/api/location-updates', report);
+          }
         }
       } catch (error) {
         console.error('Failed to send location update:', error);
@@ -262,14 +358,17 @@ export function EmergencyProvider({ children }: { children: ReactNode }) {
     updateLocation();
     
     // Set interval for updates - 30 seconds is more battery-friendly
-    locationInterval = setInterval(updateLocation, 30000);
+    locationInterval = setInterval(
+      updateLocation,
+      hasOwnEmergency ? EMERGENCY_LOCATION_INTERVAL_MS : BACKGROUND_LOCATION_INTERVAL_MS
+    );
     
     return () => {
       if (locationInterval) {
         clearInterval(locationInterval);
       }
     };
-  }, [user, activeEmergencies, getCurrentLocation]);
+  }, [user, hasOwnEmergency, locationTracking, getCurrentLocation]);
 
   return (
     <EmergencyContext.Provider
@@ -279,6 +378,7 @@ export function EmergencyProvider({ children }: { children: ReactNode }) {
         closeEmergencyModal,
         submitEmergency,
         isSubmittingEmergency,
+        emergencySubmissionStatus,
         activeEmergencies,
         isLoadingEmergencies,
         nearbyAmbulances,
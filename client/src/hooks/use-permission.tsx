@@ -0,0 +1,16 @@
+import { useAuth } from "@/hooks/use-auth";
+import { hasPermission, type Permission } from "@shared/permissions";
+
+// Whether the signed-in user's role grants a capability; false while signed out
+export function usePermission(permission: Permission): boolean {
+  const { user } = useAuth();
+  return hasPermission(user?.role, permission);
+}
+
+// For components that check several capabilities
+export function usePermissions() {
+  const { user } = useAuth();
+  return {
+    can: (permission: Permission) => hasPermission(user?.role, permission),
+  };
+}
@@ -0,0 +1,98 @@
+// Page side of the offline outbox kept by the service worker in /sw.js
+
+export type OutboxKind = 'emergency' | 'location';
+export type OutboxStatus = 'queued' | 'sent' | 'failed';
+
+export interface OutboxEntry {
+  id: string;
+  kind: OutboxKind;
+  method: string;
+  url: string;
+  body: unknown;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: number;
+  lastError?: string;
+  response?: any;
+}
+
+type OutboxListener = (entry: OutboxEntry) => void;
+
+const SYNC_TAG = 'outbox';
+const listeners = new Set<OutboxListener>();
+let registration: Promise<ServiceWorkerRegistration | null> | null = null;
+
+export function isOutboxSupported() {
+  return 'serviceWorker' in navigator && 'indexedDB' in window;
+}
+
+/**
+ * Register the outbox worker once and replay queued requests whenever the
+ * browser reports that it is back online
+ */
+export function registerOutbox(): Promise<ServiceWorkerRegistration | null> {
+  if (registration) return registration;
+
+  if (!isOutboxSupported()) {
+    registration = Promise.resolve(null);
+    return registration;
+  }
+
+  navigator.serviceWorker.addEventListener('message', (event) => {
+    if (event.data?.type === 'outbox:update') {
+      listeners.forEach(listener => listener(event.data.entry));
+    }
+  });
+  window.addEventListener('online', () => flushOutbox());
+
+  registration = navigator.serviceWorker.register('/sw.js')
+    .then(() => navigator.serviceWorker.ready)
+    .catch((error) => {
+      console.error('Failed to register outbox service worker:', error);
+      return null;
+    });
+  return registration;
+}
+
+async function postToWorker(message: unknown) {
+  const ready = await registerOutbox();
+  if (!ready?.active) return false;
+  ready.active.postMessage(message);
+  return true;
+}
+
+/**
+ * Hand a request to the worker, which keeps retrying it until the server
+ * answers. Resolves to false when no worker is available.
+ */
+export async function enqueueRequest(
+  kind: OutboxKind,
+  method: string,
+  url: string,
+  body: unknown,
+  id: string = crypto.randomUUID()
+): Promise<boolean> {
+  const queued = await postToWorker({ type: 'outbox:enqueue', entry: { id, kind, method, url, body } });
+
+  // Let Background Sync wake the worker even if this tab is closed
+  const ready = await registerOutbox();
+  (ready as any)?.sync?.register(SYNC_TAG).catch(() => {});
+
+  return queued;
+}
+
+export function flushOutbox() {
+  return postToWorker({ type: 'outbox:flush' });
+}
+
+export function addOutboxListener(listener: OutboxListener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function isNetworkError(error: unknown) {
+  return !navigator.onLine || error instanceof TypeError;
+}
@@ -1,17 +1,19 @@
 import { Loader2 } from "lucide-react";
 import { Redirect, Route, useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
+import { hasPermission, type Permission } from "@shared/permissions";
 
 type ProtectedRouteProps = {
   path: string;
   component: React.ComponentType<any>;
-  allowedRoles?: string[];
+  // Capability the user needs to open this page
+  permission?: Permission;
 };
 
 export function ProtectedRoute({
   path,
   component: Component,
-  allowedRoles,
+  permission,
 }: ProtectedRouteProps) {
   const [location] = useLocation();
   const { user, isLoading } = useAuth();
@@ -34,9 +36,9 @@ export function ProtectedRoute({
           return <Redirect to="/auth" />;
         }
         
-        // Check role-based access
-        if (user && allowedRoles && !allowedRoles.includes(user.role)) {
-          console.log("User role not allowed, redirecting to home");
+        // Check permission-based access
+        if (user && permission && !hasPermission(user.role, permission)) {
+          console.log("Permission not granted, redirecting to home");
           return <Redirect to="/" />;
         }
         
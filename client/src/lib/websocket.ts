@@ -1,17 +1,28 @@
 import { toast } from 'sonner';
+import {
+  clientMessageSchema,
+  createClientMessage,
+  parseServerMessage,
+  type ClientMessageData,
+  type ClientMessageType,
+  type ServerMessage,
+} from '@shared/ws-protocol';
 
 // WebSocket connection management
 let ws: WebSocket | null = null;
 let reconnectAttempts = 0;
+let closedByClient = false;
 const MAX_RECONNECT_ATTEMPTS = 5;
 const RECONNECT_DELAY = 3000; // 3 seconds
-const messageListeners: ((data: any) => void)[] = [];
+let nextMessageId = 0;
 
 export function connectWebSocket() {
   if (ws?.readyState === WebSocket.OPEN) {
     return;
   }
 
+  closedByClient = false;
+
   try {
     const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
     const wsUrl = `${protocol}//${window.location.host}/ws`;
@@ -25,6 +36,7 @@ export function connectWebSocket() {
 
     ws.onclose = () => {
       console.log('WebSocket disconnected');
+      if (closedByClient) return;
       if (reconnectAttempts < MAX_RECONNECT_ATTEMPTS) {
         setTimeout(() => {
           reconnectAttempts++;
@@ -46,12 +58,31 @@ export function connectWebSocket() {
   }
 }
 
-export function sendWSMessage(type: string, data: any) {
+export function isWSConnected() {
+  return ws?.readyState === WebSocket.OPEN;
+}
+
+// The server binds a socket to the session that opened it, so close it on logout
+export function disconnectWebSocket() {
+  closedByClient = true;
+  reconnectAttempts = 0;
+  ws?.close();
+  ws = null;
+}
+
+export function sendWSMessage<T extends ClientMessageType>(type: T, data: ClientMessageData<T>) {
+  const message = createClientMessage(type, data, `${Date.now()}-${nextMessageId++}`);
+  const validation = clientMessageSchema.safeParse(message);
+  if (!validation.success) {
+    console.error(`Refusing to send invalid ${type} message:`, validation.error.issues);
+    return;
+  }
+
   if (!ws || ws.readyState !== WebSocket.OPEN) {
     connectWebSocket();
     setTimeout(() => {
       if (ws?.readyState === WebSocket.OPEN) {
-        ws.send(JSON.stringify({ type, data }));
+        ws.send(JSON.stringify(message));
       } else {
         toast.error('Failed to send message. Please try again.');
       }
@@ -60,25 +91,29 @@ export function sendWSMessage(type: string, data: any) {
   }
 
   try {
-    ws.send(JSON.stringify({ type, data }));
+    ws.send(JSON.stringify(message));
   } catch (error) {
     console.error('Failed to send WebSocket message:', error);
     toast.error('Failed to send message. Please try again.');
   }
 }
 
-export function addWSListener(callback: (data: any) => void) {
+export function addWSListener(callback: (message: ServerMessage) => void) {
   if (!ws) {
     connectWebSocket();
   }
 
   const messageHandler = (event: MessageEvent) => {
-    try {
-      const data = JSON.parse(event.data);
-      callback(data);
-    } catch (error) {
-      console.error('Failed to parse WebSocket message:', error);
+    const result = parseServerMessage(event.data);
+    if (!result.success) {
+      console.error('Ignoring invalid WebSocket message:', result.error);
+      return;
     }
+
+    if (result.message.type === 'error') {
+      console.error('WebSocket error reply:', result.message.data);
+    }
+    callback(result.message);
   };
 
   ws?.addEventListener('message', messageHandler);
@@ -87,6 +122,3 @@ export function addWSListener(callback: (data: any) => void) {
     ws?.removeEventListener('message', messageHandler);
   };
 }
-
-// Automatically try to connect when this module is imported
-connectWebSocket();
\ No newline at end of file
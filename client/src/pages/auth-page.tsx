@@ -4,7 +4,7 @@ import { Logo } from "@/components/logo";
 import { LoginForm } from "@/components/auth/login-form";
 import { RegisterForm } from "@/components/auth/register-form";
 import { Button } from "@/components/ui/button";
-import { useAuth } from "@/hooks/use-auth";
+import { useAuth, type TwoFactorChallenge } from "@/hooks/use-auth";
 import { InsertUser, LoginUser } from "@shared/schema";
 import { Redirect } from "wouter";
 
@@ -12,6 +12,7 @@ export default function AuthPage() {
   const [activeTab, setActiveTab] = useState<"login" | "register">("login");
   const [location] = useLocation();
   const { user, isLoading, loginMutation, registerMutation } = useAuth();
+  const [twoFactor, setTwoFactor] = useState<TwoFactorChallenge | null>(null);
 
   // Show loading or redirect if user is already logged in
   if (isLoading) {
@@ -28,7 +29,11 @@ export default function AuthPage() {
   }
 
   const handleLogin = (credentials: LoginUser) => {
-    loginMutation.mutate(credentials);
+    loginMutation.mutate(credentials, {
+      onSuccess: (result: { twoFactor?: TwoFactorChallenge }) => {
+        if (result.twoFactor) setTwoFactor(result.twoFactor);
+      }
+    });
   };
 
   const handleRegister = (userData: InsertUser) => {
@@ -69,7 +74,12 @@ export default function AuthPage() {
           </div>
           
           {activeTab === "login" ? (
-            <LoginForm onSubmit={handleLogin} isPending={loginMutation.isPending} />
+            <LoginForm
+              onSubmit={handleLogin}
+              isPending={loginMutation.isPending}
+              twoFactor={twoFactor}
+              onCancelTwoFactor={() => setTwoFactor(null)}
+            />
           ) : (
             <RegisterForm onSubmit={handleRegister} isPending={registerMutation.isPending} />
           )}
@@ -5,11 +5,12 @@ import { Button } from "@/components/ui/button";
 import { useEmergency } from "@/hooks/use-emergency";
 import { EmergencyModal } from "@/components/modals/emergency-modal";
 import { useQuery } from "@tanstack/react-query";
-import { MedicalInfo } from "@shared/schema";
+import { MedicalInfo, EmergencyStatus } from "@shared/schema";
 import { Heart, Activity, AlertTriangle, Clock, Bell, Plus, Calendar, MapPin, Phone, MessageSquare } from "lucide-react";
 import { useState } from "react";
 import { MedicalInfoForm } from "@/components/medical-info-form";
 import { HealthStatus } from "@/components/health-status";
+import { TrackingLinks } from "@/components/tracking-links";
 import { useLocation } from "wouter";
 import {
   Dialog,
@@ -167,25 +168,34 @@ export default function DashboardPage() {
                 </div>
               ) : (
                 <div className="space-y-3">
-                  {userEmergencyHistory.map((emergency) => (
-                    <div key={emergency.id} className="bg-white/5 p-3 rounded-lg">
-                      <div className="flex items-center justify-between mb-2">
-                        <h4 className="text-white font-medium">{emergency.emergencyType}</h4>
-                        <span className={`text-xs px-2 py-1 rounded-full ${
-                          emergency.status === 'active' 
-                            ? 'bg-red-500/20 text-red-400' 
-                            : 'bg-green-500/20 text-green-400'
-                        }`}>
-                          {emergency.status}
-                        </span>
+                  {userEmergencyHistory.map((emergency) => {
+                    const isOpen = emergency.status !== EmergencyStatus.RESOLVED && emergency.status !== EmergencyStatus.CANCELLED;
+                    return (
+                      <div key={emergency.id} className="bg-white/5 p-3 rounded-lg">
+                        <div className="flex items-center justify-between mb-2">
+                          <h4 className="text-white font-medium">{emergency.emergencyType}</h4>
+                          <span className={`text-xs px-2 py-1 rounded-full ${
+                            isOpen
+                              ? 'bg-red-500/20 text-red-400' 
+                              : 'bg-green-500/20 text-green-400'
+                          }`}>
+                            {emergency.status}
+                          </span>
+                        </div>
+                        <p className="text-white/60 text-sm">{emergency.description}</p>
+                        {emergency.etaSeconds != null && (
+                          <p className="text-accent text-sm mt-1">
+                            Ambulance arriving in about {Math.max(1, Math.round(emergency.etaSeconds / 60))} min
+                          </p>
+                        )}
+                        <div className="flex items-center text-white/40 text-xs mt-2">
+                          <Clock className="h-3 w-3 mr-1" />
+                          {new Date(emergency.createdAt || Date.now()).toLocaleString()}
+                        </div>
+                        {isOpen && <TrackingLinks emergencyId={emergency.id} />}
                       </div>
-                      <p className="text-white/60 text-sm">{emergency.description}</p>
-                      <div className="flex items-center text-white/40 text-xs mt-2">
-                        <Clock className="h-3 w-3 mr-1" />
-                        {new Date(emergency.createdAt || Date.now()).toLocaleString()}
-                      </div>
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
               )}
             </CardContent>
@@ -1,11 +1,15 @@
 import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
 import { AppHeader } from "@/components/layout/app-header";
 import { Navbar } from "@/components/layout/navbar";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { User, Mail, Edit } from "lucide-react";
+import { User, Mail, Edit, Loader2 } from "lucide-react";
 import { EditProfileForm } from "@/components/profile/edit-profile-form";
+import { PhoneVerification } from "@/components/profile/phone-verification";
 import {
   Dialog,
   DialogContent,
@@ -16,6 +20,28 @@ import {
 export default function ProfilePage() {
   const { user } = useAuth();
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
+  const [isPhoneModalOpen, setIsPhoneModalOpen] = useState(false);
+  const { toast } = useToast();
+
+  const { mutate: resendVerification, isPending: isResending } = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/verify-email/resend");
+      return await res.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      toast({
+        title: "Check your inbox",
+        description: data.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not send email",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
 
   return (
     <div className="min-h-screen bg-primary pb-20">
@@ -54,6 +80,34 @@ export default function ProfilePage() {
                   <span className="text-white font-medium">
                     {user?.isEmailVerified ? "Yes" : "No"}
                   </span>
+                  {user && !user.isEmailVerified && (
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="text-secondary ml-2 h-auto p-0"
+                      disabled={isResending}
+                      onClick={() => resendVerification()}
+                    >
+                      {isResending && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                      Resend verification email
+                    </Button>
+                  )}
+                </div>
+                <div className="flex items-center">
+                  <span className="text-white/60 mr-3">Phone Verified:</span>
+                  <span className="text-white font-medium">
+                    {user?.isPhoneVerified ? "Yes" : "No"}
+                  </span>
+                  {user?.phone && !user.isPhoneVerified && (
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="text-secondary ml-2 h-auto p-0"
+                      onClick={() => setIsPhoneModalOpen(true)}
+                    >
+                      Verify phone
+                    </Button>
+                  )}
                 </div>
               </div>
             </CardContent>
@@ -77,6 +131,17 @@ export default function ProfilePage() {
         </DialogContent>
       </Dialog>
 
+      <Dialog open={isPhoneModalOpen} onOpenChange={setIsPhoneModalOpen}>
+        <DialogContent className="bg-primary border-none text-white">
+          <DialogHeader>
+            <DialogTitle>Verify Phone Number</DialogTitle>
+          </DialogHeader>
+          {user?.phone && (
+            <PhoneVerification phone={user.phone} onVerified={() => setIsPhoneModalOpen(false)} />
+          )}
+        </DialogContent>
+      </Dialog>
+
       <Navbar />
     </div>
   );
@@ -7,8 +7,18 @@ import { EmergencyAlert, AmbulanceUnit, EmergencyResource, EmergencyResourceType
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { EmergencyModal } from "@/components/modals/emergency-modal";
+import { PatientRecordCard } from "@/components/patient-record-card";
 import { Loader2 } from "lucide-react";
 
+interface DispatchCandidate {
+  ambulance: AmbulanceUnit;
+  eligible: boolean;
+  score: number;
+  distanceKm: number | null;
+  positionAgeMinutes: number | null;
+  rationale: string[];
+}
+
 export default function ResponseTeamPage() {
   const { toast } = useToast();
   const [selectedEmergency, setSelectedEmergency] = useState<EmergencyAlert | null>(null);
@@ -44,6 +54,39 @@ export default function ResponseTeamPage() {
     queryKey: ['/api/emergency-type-resources'],
   });
 
+  // Query for ranked ambulance suggestions for the selected emergency
+  const {
+    data: dispatchSuggestions,
+    isLoading: isLoadingSuggestions
+  } = useQuery<{ candidates: DispatchCandidate[] }>({
+    queryKey: [`/api/emergencies/${selectedEmergency?.id}/dispatch-candidates`],
+    enabled: !!selectedEmergency,
+  });
+
+  // Assign ambulance mutation
+  const { mutate: assignAmbulance, isPending: isAssigningAmbulance } = useMutation({
+    mutationFn: async (data: { emergencyId: number; ambulanceId: number }) => {
+      const res = await apiRequest('POST', '/api/emergencies/assign', data);
+      return await res.json();
+    },
+    onSuccess: (updatedEmergency: EmergencyAlert) => {
+      setSelectedEmergency(updatedEmergency);
+      toast({
+        title: "Ambulance Dispatched",
+        description: "The unit has been assigned to the emergency.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/emergencies/active'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/emergencies/${selectedEmergency?.id}/dispatch-candidates`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Dispatch Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
   // Assign resources mutation
   const { mutate: assignResources } = useMutation({
     mutationFn: async (data: { emergencyId: number; resourceIds: number[] }) => {
@@ -228,6 +271,65 @@ export default function ResponseTeamPage() {
           </Card>
         </div>
 
+        {/* Patient record; remounted per emergency so break-glass access never carries over */}
+        {selectedEmergency && (
+          <PatientRecordCard key={selectedEmergency.id} emergencyId={selectedEmergency.id} />
+        )}
+
+        {/* Suggested Units */}
+        {selectedEmergency && (
+          <Card className="mt-8 mb-24">
+            <CardContent className="p-6">
+              <h2 className="text-2xl font-bold text-white mb-4">Suggested Units</h2>
+              {isLoadingSuggestions ? (
+                <div className="flex justify-center">
+                  <Loader2 className="h-8 w-8 animate-spin text-accent" />
+                </div>
+              ) : dispatchSuggestions?.candidates.length ? (
+                <div className="space-y-4">
+                  {dispatchSuggestions.candidates.map(candidate => (
+                    <div
+                      key={candidate.ambulance.id}
+                      className={`p-4 rounded-lg ${candidate.eligible ? 'bg-white/5' : 'bg-white/5 opacity-50'}`}
+                    >
+                      <div className="flex justify-between items-start">
+                        <div>
+                          <h3 className="text-white font-medium">{candidate.ambulance.name}</h3>
+                          <ul className="text-white/60 text-sm list-disc list-inside">
+                            {candidate.rationale.map(reason => (
+                              <li key={reason}>{reason}</li>
+                            ))}
+                          </ul>
+                        </div>
+                        <div className="flex flex-col items-end gap-2">
+                          <span className="bg-white/10 text-white/80 text-xs px-2 py-1 rounded-full">
+                            Score {candidate.score}
+                          </span>
+                          <Button
+                            size="sm"
+                            onClick={() => assignAmbulance({
+                              emergencyId: selectedEmergency.id,
+                              ambulanceId: candidate.ambulance.id
+                            })}
+                            disabled={!candidate.eligible || isAssigningAmbulance || selectedEmergency.ambulanceId === candidate.ambulance.id}
+                            className="bg-accent hover:bg-accent/90 text-white"
+                          >
+                            {selectedEmergency.ambulanceId === candidate.ambulance.id ? 'Assigned' : 'Dispatch'}
+                          </Button>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-white/60 text-center">
+                  No ambulance units found
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Assignment Controls */}
         {selectedEmergency && (
           <div className="fixed bottom-0 left-0 right-0 bg-primary/95 border-t border-accent/50 p-4">
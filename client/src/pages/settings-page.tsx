@@ -1,5 +1,8 @@
 import { useState } from "react";
 import { useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import { AppHeader } from "@/components/layout/app-header";
 import { Navbar } from "@/components/layout/navbar";
 import { Card, CardContent } from "@/components/ui/card";
@@ -11,6 +14,8 @@ import { User, Mail, ChevronRight, LogOut } from "lucide-react";
 import { EmergencyContacts } from "@/components/preferences/emergency-contacts";
 import { MedicalInformation } from "@/components/preferences/medical-information";
 import { PreferredHospitals } from "@/components/preferences/preferred-hospitals";
+import { ActiveSessions } from "@/components/preferences/active-sessions";
+import { TwoFactorSettings } from "@/components/preferences/two-factor-settings";
 import {
   Dialog,
   DialogContent,
@@ -18,23 +23,54 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 
+interface Preferences {
+  notifications: boolean;
+  locationTracking: boolean;
+  darkMode: boolean;
+  smsNotifications: boolean;
+}
+
+const PREFERENCES_KEY = ["/api/users/me/preferences"];
+
 export default function SettingsPage() {
   const { user, logoutMutation } = useAuth();
   const [, setLocation] = useLocation();
-  const [settings, setSettings] = useState({
-    notifications: true,
-    locationTracking: true,
-    darkMode: true,
-    smsNotifications: false
+  const { toast } = useToast();
+
+  const { data: settings } = useQuery<Preferences>({
+    queryKey: PREFERENCES_KEY,
+  });
+
+  // Flip the switch straight away and put it back if the server refuses
+  const { mutate: updatePreferences } = useMutation({
+    mutationFn: async (changes: Partial<Preferences>) => {
+      const res = await apiRequest("PATCH", "/api/users/me/preferences", changes);
+      return await res.json() as Preferences;
+    },
+    onMutate: async (changes) => {
+      await queryClient.cancelQueries({ queryKey: PREFERENCES_KEY });
+      const previous = queryClient.getQueryData<Preferences>(PREFERENCES_KEY);
+      if (previous) {
+        queryClient.setQueryData<Preferences>(PREFERENCES_KEY, { ...previous, ...changes });
+      }
+      return { previous };
+    },
+    onSuccess: (preferences) => {
+      queryClient.setQueryData(PREFERENCES_KEY, preferences);
+    },
+    onError: (error: Error, _changes, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(PREFERENCES_KEY, context.previous);
+      }
+      toast({ title: "Could not save setting", description: error.message, variant: "destructive" });
+    },
   });
 
   const [activeDialog, setActiveDialog] = useState<string | null>(null);
 
-  const handleSettingToggle = (setting: keyof typeof settings) => {
-    setSettings(prev => ({
-      ...prev,
-      [setting]: !prev[setting]
-    }));
+  const handleSettingToggle = (setting: keyof Preferences) => {
+    if (!settings) return;
+    updatePreferences({ [setting]: !settings[setting] });
   };
 
   const handleLogout = () => {
@@ -89,25 +125,29 @@ export default function SettingsPage() {
                 <SettingToggle
                   title="Notifications"
                   description="Email and push notifications"
-                  checked={settings.notifications}
+                  checked={settings?.notifications ?? false}
+                  disabled={!settings}
                   onChange={() => handleSettingToggle('notifications')}
                 />
                 <SettingToggle
                   title="Location Tracking"
-                  description="Share location during emergencies"
-                  checked={settings.locationTracking}
+                  description="Share your location when no emergency is active"
+                  checked={settings?.locationTracking ?? false}
+                  disabled={!settings}
                   onChange={() => handleSettingToggle('locationTracking')}
                 />
                 <SettingToggle
                   title="Dark Mode"
                   description="Power between light and dark themes"
-                  checked={settings.darkMode}
+                  checked={settings?.darkMode ?? false}
+                  disabled={!settings}
                   onChange={() => handleSettingToggle('darkMode')}
                 />
                 <SettingToggle
                   title="SMS Notifications"
                   description="Receive important alerts via SMS"
-                  checked={settings.smsNotifications}
+                  checked={settings?.smsNotifications ?? false}
+                  disabled={!settings}
                   onChange={() => handleSettingToggle('smsNotifications')}
                 />
               </div>
@@ -144,6 +184,22 @@ export default function SettingsPage() {
             </CardContent>
           </Card>
 
+          {/* Two-Factor Card */}
+          <Card className="bg-white/10 backdrop-blur-sm rounded-xl mb-6 border-none">
+            <CardContent className="p-4">
+              <h3 className="text-white font-semibold mb-3">Two-factor sign-in</h3>
+              <TwoFactorSettings />
+            </CardContent>
+          </Card>
+
+          {/* Sessions Card */}
+          <Card className="bg-white/10 backdrop-blur-sm rounded-xl mb-6 border-none">
+            <CardContent className="p-4">
+              <h3 className="text-white font-semibold mb-3">Where you're logged in</h3>
+              <ActiveSessions />
+            </CardContent>
+          </Card>
+
           {/* Support Card */}
           <Card className="bg-white/10 backdrop-blur-sm rounded-xl mb-6 border-none">
             <CardContent className="p-4">
@@ -231,17 +287,18 @@ interface SettingToggleProps {
   title: string;
   description: string;
   checked: boolean;
+  disabled?: boolean;
   onChange: () => void;
 }
 
-function SettingToggle({ title, description, checked, onChange }: SettingToggleProps) {
+function SettingToggle({ title, description, checked, disabled, onChange }: SettingToggleProps) {
   return (
     <div className="flex items-center justify-between">
       <div>
         <h4 className="text-white font-medium text-sm">{title}</h4>
         <p className="text-white/60 text-xs">{description}</p>
       </div>
-      <Switch checked={checked} onCheckedChange={onChange} />
+      <Switch checked={checked} disabled={disabled} onCheckedChange={onChange} />
     </div>
   );
 }
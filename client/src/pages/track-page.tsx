@@ -0,0 +1,134 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Ambulance, Clock, Loader2, MapPin } from "lucide-react";
+
+interface PublicTrackingView {
+  emergencyType: string;
+  status: string;
+  reportedAt: string | null;
+  updatedAt: string | null;
+  area: { latitude: number; longitude: number };
+  unit: {
+    name: string;
+    unitType: string;
+    latitude: number;
+    longitude: number;
+    updatedAt: string | null;
+  } | null;
+  etaSeconds: number | null;
+  etaUpdatedAt: string | null;
+  linkExpiresAt: string;
+}
+
+// How often the page asks for fresh progress while the link works
+const REFRESH_INTERVAL_MS = 15000;
+
+const mapLink = (latitude: number, longitude: number) =>
+  `https://www.google.com/maps?q=${latitude},${longitude}`;
+
+// Public page for people the reporter shared a link with; no sign-in needed
+export default function TrackPage({ params }: { params: { token: string } }) {
+  const { data: view, isLoading, error } = useQuery<PublicTrackingView>({
+    queryKey: ["/api/public/track", params.token],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/public/track/${encodeURIComponent(params.token)}`);
+      return response.json();
+    },
+    retry: false,
+    refetchInterval: (query) => (query.state.error ? false : REFRESH_INTERVAL_MS),
+  });
+
+  return (
+    <div className="flex flex-col items-center min-h-screen bg-primary p-4">
+      <div className="max-w-md w-full space-y-4 pt-8">
+        <h1 className="text-2xl font-bold text-white text-center">Emergency tracking</h1>
+
+        {isLoading && (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-secondary" />
+          </div>
+        )}
+
+        {error && (
+          <Card className="bg-white/10 backdrop-blur-sm rounded-xl border-none">
+            <CardContent className="p-6 text-center">
+              <p className="text-white/80">
+                {error instanceof Error ? error.message : "This tracking link is not available"}
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {view && (
+          <>
+            <Card className="bg-white/10 backdrop-blur-sm rounded-xl border-none">
+              <CardContent className="p-4 space-y-2">
+                <div className="flex items-center justify-between">
+                  <h2 className="text-white font-semibold capitalize">{view.emergencyType} emergency</h2>
+                  <span className="text-xs px-2 py-1 rounded-full bg-red-500/20 text-red-400 capitalize">
+                    {view.status.replace(/_/g, " ")}
+                  </span>
+                </div>
+                {view.reportedAt && (
+                  <p className="flex items-center text-white/60 text-sm">
+                    <Clock className="h-4 w-4 mr-2" />
+                    Reported {new Date(view.reportedAt).toLocaleString()}
+                  </p>
+                )}
+                <a
+                  href={mapLink(view.area.latitude, view.area.longitude)}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="flex items-center text-secondary text-sm underline"
+                >
+                  <MapPin className="h-4 w-4 mr-2" />
+                  Approximate area
+                </a>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-white/10 backdrop-blur-sm rounded-xl border-none">
+              <CardContent className="p-4 space-y-2">
+                <h3 className="flex items-center text-white font-semibold">
+                  <Ambulance className="h-5 w-5 mr-2" />
+                  Responding unit
+                </h3>
+                {view.unit ? (
+                  <>
+                    <p className="text-white/80 text-sm">{view.unit.name}</p>
+                    {view.etaSeconds != null && (
+                      <p className="text-accent text-sm">
+                        Arriving in about {Math.max(1, Math.round(view.etaSeconds / 60))} min
+                      </p>
+                    )}
+                    <a
+                      href={mapLink(view.unit.latitude, view.unit.longitude)}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="text-secondary text-sm underline"
+                    >
+                      Unit position
+                    </a>
+                    {view.unit.updatedAt && (
+                      <p className="text-white/40 text-xs">
+                        Position as of {new Date(view.unit.updatedAt).toLocaleTimeString()}
+                      </p>
+                    )}
+                  </>
+                ) : (
+                  <p className="text-white/60 text-sm">No unit has been assigned yet.</p>
+                )}
+              </CardContent>
+            </Card>
+
+            <p className="text-white/40 text-xs text-center">
+              This page updates automatically. The link stops working when the emergency is closed
+              or at {new Date(view.linkExpiresAt).toLocaleString()}.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+-- Map free-text statuses onto the emergency lifecycle
+UPDATE emergency_alerts SET status = 'reported' WHERE status IN ('pending', 'active');
+UPDATE emergency_alerts SET status = 'dispatched' WHERE status = 'in_progress';
+
+ALTER TABLE emergency_alerts
+    ALTER COLUMN status SET DEFAULT 'reported';
+
+-- Create emergency_status_history table
+CREATE TABLE emergency_status_history (
+    id SERIAL PRIMARY KEY,
+    emergency_id INTEGER NOT NULL REFERENCES emergency_alerts(id) ON DELETE CASCADE,
+    from_status TEXT,
+    to_status TEXT NOT NULL,
+    actor_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    reason TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Add index for timeline lookups
+CREATE INDEX emergency_status_history_emergency_id_idx ON emergency_status_history(emergency_id, created_at);
+
+-- Seed the timeline of existing alerts: every alert starts as reported
+INSERT INTO emergency_status_history (emergency_id, from_status, to_status, actor_id, created_at)
+SELECT id, NULL, 'reported', user_id, COALESCE(created_at, NOW())
+FROM emergency_alerts;
+
+-- Alerts that have since moved on end at their current status; the steps in between were never recorded
+INSERT INTO emergency_status_history (emergency_id, from_status, to_status, reason, created_at)
+SELECT id, 'reported', status, 'Status at the time history was introduced',
+       COALESCE(resolved_at, updated_at, created_at, NOW())
+FROM emergency_alerts
+WHERE status <> 'reported';
@@ -0,0 +1,26 @@
+-- Add unit type for per-type travel speeds
+ALTER TABLE ambulance_units
+    ADD COLUMN unit_type TEXT NOT NULL DEFAULT 'ambulance';
+
+UPDATE ambulance_units SET unit_type = 'air' WHERE name ILIKE '%helicopter%';
+
+-- Add estimated arrival of the assigned unit
+ALTER TABLE emergency_alerts
+    ADD COLUMN eta_seconds INTEGER,
+    ADD COLUMN eta_updated_at TIMESTAMP;
+
+-- Create unit_trips table
+CREATE TABLE unit_trips (
+    id SERIAL PRIMARY KEY,
+    ambulance_id INTEGER NOT NULL REFERENCES ambulance_units(id) ON DELETE CASCADE,
+    emergency_id INTEGER NOT NULL REFERENCES emergency_alerts(id) ON DELETE CASCADE,
+    unit_type TEXT NOT NULL,
+    time_band TEXT NOT NULL,
+    distance_km NUMERIC NOT NULL,
+    started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    arrived_at TIMESTAMP
+);
+
+-- Add index for speed lookups
+CREATE INDEX unit_trips_speed_idx ON unit_trips(unit_type, time_band, arrived_at);
+CREATE INDEX unit_trips_emergency_id_idx ON unit_trips(emergency_id);
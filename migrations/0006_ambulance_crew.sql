@@ -0,0 +1,10 @@
+-- Create ambulance_crew_members table
+CREATE TABLE ambulance_crew_members (
+    id SERIAL PRIMARY KEY,
+    ambulance_id INTEGER NOT NULL REFERENCES ambulance_units(id) ON DELETE CASCADE,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    CONSTRAINT ambulance_crew_members_unique UNIQUE (ambulance_id, user_id)
+);
+
+-- Add index for looking up the units a user staffs
+CREATE INDEX ambulance_crew_members_user_id_idx ON ambulance_crew_members(user_id);
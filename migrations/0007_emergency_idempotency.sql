@@ -0,0 +1,7 @@
+-- Add client-generated idempotency keys to emergency alerts
+ALTER TABLE emergency_alerts ADD COLUMN idempotency_key TEXT;
+
+-- Retried submissions from the same user must not create a second alert
+CREATE UNIQUE INDEX emergency_alerts_user_id_idempotency_key_idx
+    ON emergency_alerts(user_id, idempotency_key)
+    WHERE idempotency_key IS NOT NULL;
@@ -0,0 +1,6 @@
+-- Record which unit a crew member's position report belongs to
+ALTER TABLE location_updates ADD COLUMN ambulance_id INTEGER REFERENCES ambulance_units(id) ON DELETE SET NULL;
+
+-- Add indexes for reading back a user's or unit's trail over a time window
+CREATE INDEX location_updates_user_id_timestamp_idx ON location_updates(user_id, timestamp);
+CREATE INDEX location_updates_ambulance_id_timestamp_idx ON location_updates(ambulance_id, timestamp);
@@ -0,0 +1,55 @@
+-- Add PostGIS extension for spatial queries if not exists
+CREATE EXTENSION IF NOT EXISTS postgis;
+
+-- Keep a geography point in step with the numeric/text latitude and longitude columns
+CREATE OR REPLACE FUNCTION sync_geog_from_lat_lng() RETURNS TRIGGER AS $$
+BEGIN
+    IF NULLIF(NEW.latitude::text, '') IS NULL OR NULLIF(NEW.longitude::text, '') IS NULL THEN
+        NEW.geog := NULL;
+    ELSE
+        NEW.geog := ST_SetSRID(
+            ST_MakePoint(NEW.longitude::text::double precision, NEW.latitude::text::double precision),
+            4326
+        )::geography;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add geography columns
+ALTER TABLE ambulance_units ADD COLUMN geog geography(Point, 4326);
+ALTER TABLE medical_facilities ADD COLUMN geog geography(Point, 4326);
+ALTER TABLE emergency_alerts ADD COLUMN geog geography(Point, 4326);
+ALTER TABLE emergency_resources ADD COLUMN geog geography(Point, 4326);
+ALTER TABLE location_updates ADD COLUMN geog geography(Point, 4326);
+
+-- Add sync triggers
+CREATE TRIGGER ambulance_units_sync_geog
+    BEFORE INSERT OR UPDATE OF latitude, longitude ON ambulance_units
+    FOR EACH ROW EXECUTE FUNCTION sync_geog_from_lat_lng();
+CREATE TRIGGER medical_facilities_sync_geog
+    BEFORE INSERT OR UPDATE OF latitude, longitude ON medical_facilities
+    FOR EACH ROW EXECUTE FUNCTION sync_geog_from_lat_lng();
+CREATE TRIGGER emergency_alerts_sync_geog
+    BEFORE INSERT OR UPDATE OF latitude, longitude ON emergency_alerts
+    FOR EACH ROW EXECUTE FUNCTION sync_geog_from_lat_lng();
+CREATE TRIGGER emergency_resources_sync_geog
+    BEFORE INSERT OR UPDATE OF latitude, longitude ON emergency_resources
+    FOR EACH ROW EXECUTE FUNCTION sync_geog_from_lat_lng();
+CREATE TRIGGER location_updates_sync_geog
+    BEFORE INSERT OR UPDATE OF latitude, longitude ON location_updates
+    FOR EACH ROW EXECUTE FUNCTION sync_geog_from_lat_lng();
+
+-- Backfill existing rows (the triggers fire on the no-op update)
+UPDATE ambulance_units SET latitude = latitude;
+UPDATE medical_facilities SET latitude = latitude;
+UPDATE emergency_alerts SET latitude = latitude;
+UPDATE emergency_resources SET latitude = latitude;
+UPDATE location_updates SET latitude = latitude;
+
+-- Add spatial indexes
+CREATE INDEX ambulance_units_geog_idx ON ambulance_units USING GIST (geog);
+CREATE INDEX medical_facilities_geog_idx ON medical_facilities USING GIST (geog);
+CREATE INDEX emergency_alerts_geog_idx ON emergency_alerts USING GIST (geog);
+CREATE INDEX emergency_resources_geog_idx ON emergency_resources USING GIST (geog);
+CREATE INDEX location_updates_geog_idx ON location_updates USING GIST (geog);
@@ -0,0 +1,14 @@
+-- Add provenance columns to medical_facilities
+ALTER TABLE medical_facilities
+    ADD COLUMN source TEXT NOT NULL DEFAULT 'manual',
+    ADD COLUMN external_id TEXT;
+
+-- Backfill facilities previously synced from Google Places
+UPDATE medical_facilities
+SET source = 'google_places', external_id = google_place_id
+WHERE google_place_id IS NOT NULL;
+
+-- Create unique index so each source's records are upserted by their own id
+CREATE UNIQUE INDEX medical_facilities_source_external_id_idx
+    ON medical_facilities(source, external_id)
+    WHERE external_id IS NOT NULL;
@@ -0,0 +1,9 @@
+-- Add send time of the last verification email, used to throttle resends
+ALTER TABLE users ADD COLUMN verification_sent_at TIMESTAMP;
+
+-- Verification tokens are now stored hashed; outstanding plaintext ones can no longer be matched
+UPDATE users SET verification_token = NULL, verification_expiry = NULL
+WHERE verification_token IS NOT NULL;
+
+-- Create index for verification token lookups
+CREATE INDEX users_verification_token_idx ON users(verification_token);
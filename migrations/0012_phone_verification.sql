@@ -0,0 +1,17 @@
+-- Add phone verification flag to users
+ALTER TABLE users ADD COLUMN is_phone_verified BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Create phone_verifications table
+CREATE TABLE phone_verifications (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    phone TEXT NOT NULL,
+    code_hash TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    expires_at TIMESTAMP NOT NULL,
+    verified_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Create index for the latest code per user
+CREATE INDEX phone_verifications_user_id_idx ON phone_verifications(user_id, created_at DESC);
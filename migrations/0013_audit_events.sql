@@ -0,0 +1,21 @@
+-- Create audit_events table; rows are only ever inserted
+CREATE TABLE audit_events (
+    id SERIAL PRIMARY KEY,
+    actor_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    action TEXT NOT NULL,
+    entity_type TEXT NOT NULL,
+    entity_id TEXT,
+    before JSONB,
+    after JSONB,
+    ip TEXT,
+    user_agent TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    prev_hash TEXT,
+    hash TEXT NOT NULL
+);
+
+-- Create indexes for the admin audit filters
+CREATE INDEX audit_events_entity_idx ON audit_events(entity_type, entity_id);
+CREATE INDEX audit_events_actor_id_idx ON audit_events(actor_id);
+CREATE INDEX audit_events_action_idx ON audit_events(action);
+CREATE INDEX audit_events_created_at_idx ON audit_events(created_at);
@@ -0,0 +1,12 @@
+-- Create auth_throttles table for login and registration attempt tracking
+CREATE TABLE auth_throttles (
+    key TEXT PRIMARY KEY,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    first_attempt_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    last_attempt_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    locked_until TIMESTAMP,
+    lock_count INTEGER NOT NULL DEFAULT 0
+);
+
+-- Create index for listing active lockouts
+CREATE INDEX auth_throttles_locked_until_idx ON auth_throttles(locked_until) WHERE locked_until IS NOT NULL;
@@ -0,0 +1,20 @@
+-- Create api_tokens table for machine clients
+CREATE TABLE api_tokens (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL,
+    token_hash TEXT NOT NULL UNIQUE,
+    prefix TEXT NOT NULL,
+    scopes TEXT[] NOT NULL,
+    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+    facility_id INTEGER REFERENCES medical_facilities(id) ON DELETE CASCADE,
+    ambulance_id INTEGER REFERENCES ambulance_units(id) ON DELETE CASCADE,
+    created_by_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    expires_at TIMESTAMP NOT NULL,
+    last_used_at TIMESTAMP,
+    revoked_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    CONSTRAINT api_tokens_single_owner CHECK (num_nonnulls(user_id, facility_id, ambulance_id) = 1)
+);
+
+-- Fixes sent by a unit's own tracker have no reporting user
+ALTER TABLE location_updates ALTER COLUMN user_id DROP NOT NULL;
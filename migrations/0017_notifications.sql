@@ -0,0 +1,35 @@
+-- Outbox of notifications waiting for, or done with, delivery
+CREATE TABLE notification_outbox (
+    id SERIAL PRIMARY KEY,
+    channel TEXT NOT NULL,
+    recipient TEXT NOT NULL,
+    template TEXT NOT NULL,
+    subject TEXT,
+    body TEXT NOT NULL,
+    html TEXT,
+    user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    emergency_id INTEGER REFERENCES emergency_alerts(id) ON DELETE SET NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    last_error TEXT,
+    sent_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- The worker polls for due messages; delivery status is looked up per emergency
+CREATE INDEX notification_outbox_due_idx ON notification_outbox (next_attempt_at) WHERE status IN ('pending', 'sending');
+CREATE INDEX notification_outbox_emergency_idx ON notification_outbox (emergency_id);
+
+-- In-app notifications
+CREATE TABLE notifications (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    emergency_id INTEGER REFERENCES emergency_alerts(id) ON DELETE SET NULL,
+    title TEXT NOT NULL,
+    body TEXT NOT NULL,
+    read_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX notifications_user_idx ON notifications (user_id, created_at DESC);
@@ -0,0 +1,16 @@
+-- Let users choose which emergency contacts are texted when they raise an SOS
+ALTER TABLE emergency_contacts ADD COLUMN notify_on_emergency BOOLEAN NOT NULL DEFAULT TRUE;
+
+-- Tokenised links for following an emergency without signing in
+CREATE TABLE tracking_links (
+    id SERIAL PRIMARY KEY,
+    emergency_id INTEGER NOT NULL REFERENCES emergency_alerts(id) ON DELETE CASCADE,
+    token_hash TEXT NOT NULL UNIQUE,
+    contact_id INTEGER REFERENCES emergency_contacts(id) ON DELETE SET NULL,
+    created_by_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    expires_at TIMESTAMP NOT NULL,
+    revoked_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX tracking_links_emergency_idx ON tracking_links (emergency_id);
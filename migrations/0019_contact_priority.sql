@@ -0,0 +1,11 @@
+-- Order in which a user's emergency contacts are contacted, 1 first
+ALTER TABLE emergency_contacts ADD COLUMN priority INTEGER NOT NULL DEFAULT 0;
+
+-- Existing contacts keep the order they were added in
+UPDATE emergency_contacts c
+SET priority = ranked.position
+FROM (
+    SELECT id, ROW_NUMBER() OVER (PARTITION BY user_id ORDER BY id) AS position
+    FROM emergency_contacts
+) ranked
+WHERE c.id = ranked.id;
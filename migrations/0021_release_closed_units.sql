@@ -0,0 +1,11 @@
+-- Units were never handed back when their incident closed, so dispatch saw
+-- them as busy for good. Free any unit still held by a closed or missing alert.
+UPDATE ambulance_units u
+SET status = 'available', current_emergency_id = NULL
+WHERE u.status = 'dispatched'
+  AND NOT EXISTS (
+    SELECT 1 FROM emergency_alerts e
+    WHERE e.id = u.current_emergency_id
+      AND e.ambulance_id = u.id
+      AND e.status NOT IN ('resolved', 'cancelled')
+  );
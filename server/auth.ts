@@ -1,18 +1,46 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, type RequestHandler } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser, UserRole } from "@shared/schema";
+import { config, type VerifiedEmailFeature } from "./config";
+import { createToken, hashToken } from "./tokens";
+import { User as SelectUser, UserRole, insertUserSchema, twoFactorCodeSchema, twoFactorVerifySchema, type ApiToken } from "@shared/schema";
+import { Permission, hasPermission } from "@shared/permissions";
+import { sessionService, isSessionExpired } from "./services/sessionService";
+import { loginProtectionService, LoginThrottledError } from "./services/loginProtectionService";
+import { auditContext } from "./services/auditService";
+import { twoFactorService, TwoFactorError } from "./services/twoFactorService";
+import { apiTokenService } from "./services/apiTokenService";
+import { notificationService } from "./services/notificationService";
 
 declare global {
   namespace Express {
     interface User extends SelectUser {}
+    interface Request {
+      // Set when the request authenticated with an API token rather than a session
+      apiToken?: ApiToken;
+    }
+  }
+}
+
+// Bookkeeping kept on each logged-in session for the sessions list; times in ms
+declare module "express-session" {
+  interface SessionData {
+    createdAt: number;
+    lastSeenAt: number;
+    ip: string;
+    userAgent: string;
   }
 }
 
+// lastSeenAt is only rewritten when it is older than this, to spare the session table a write per request
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+const DEV_SESSION_SECRET = "meditrack-secret-key-development";
+
 const scryptAsync = promisify(scrypt);
 
 async function hashPassword(password: string) {
@@ -28,24 +56,127 @@ async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
-export function setupAuth(app: Express) {
+// Issue a fresh verification link, replacing any outstanding one
+async function issueEmailVerification(user: SelectUser) {
+  const { token, hash } = createToken();
+  const ttlHours = config.auth.emailVerificationTtlHours;
+  await storage.setVerificationToken(user.id, hash, new Date(Date.now() + ttlHours * 60 * 60 * 1000));
+  await notificationService.notifyUser(user, "emailVerification", { token, expiresInHours: ttlHours }, ["email"]);
+}
+
+// Allow the request only if the user's role grants every listed permission (see shared/permissions.ts).
+// A user's API token must also carry each of them as a scope; facility and ambulance tokens are refused.
+export function requirePermission(...permissions: Permission[]): RequestHandler {
+  return (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    const missing = permissions.find(permission =>
+      !hasPermission(req.user.role, permission) || (req.apiToken && !req.apiToken.scopes.includes(permission))
+    );
+    if (missing) {
+      return res.status(403).json({ message: `Forbidden: requires ${missing}` });
+    }
+    next();
+  };
+}
+
+// As requirePermission, but also open to facility and ambulance tokens with the scope.
+// The handler must still check that the token's owner is the record being touched.
+export function requirePermissionOrScope(permission: Permission): RequestHandler {
+  const forUsers = requirePermission(permission);
+  return (req, res, next) => {
+    if (req.apiToken && !req.apiToken.userId) {
+      if (!req.apiToken.scopes.includes(permission)) {
+        return res.status(403).json({ message: `Forbidden: requires ${permission}` });
+      }
+      return next();
+    }
+    forUsers(req, res, next);
+  };
+}
+
+// Authorization: Bearer <token> takes the place of the session cookie for machine clients
+const authenticateApiToken: RequestHandler = async (req, res, next) => {
+  const header = req.get("authorization");
+  if (!header?.startsWith("Bearer ")) return next();
+
+  try {
+    const result = await apiTokenService.authenticate(header.slice("Bearer ".length).trim());
+    if (!result) {
+      return res.status(401).json({ message: "Invalid or expired API token" });
+    }
+    req.apiToken = result.token;
+    req.user = result.user;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Close a feature to accounts that have not verified their email, when configured to
+export function requireVerifiedEmail(feature: VerifiedEmailFeature): RequestHandler {
+  return (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    if (!req.user.isEmailVerified && config.auth.requireVerifiedEmailFor.includes(feature)) {
+      return res.status(403).json({
+        message: "Please verify your email address first",
+        code: "email_unverified"
+      });
+    }
+    next();
+  };
+}
+
+// Log out sessions past their lifetime or idle limit, and note when and where the rest were last used
+const trackSessionActivity: RequestHandler = (req, res, next) => {
+  if (req.apiToken || !req.isAuthenticated()) return next();
+
+  const now = Date.now();
+  const { createdAt, lastSeenAt } = req.session;
+  if (isSessionExpired(req.session, now)) {
+    return req.logout((err) => next(err));
+  }
+
+  if (!createdAt) req.session.createdAt = now;
+  if (!lastSeenAt || now - lastSeenAt > LAST_SEEN_RESOLUTION_MS) {
+    req.session.lastSeenAt = now;
+    req.session.ip = req.ip;
+    req.session.userAgent = req.get("user-agent");
+  }
+  next();
+};
+
+export function setupAuth(app: Express): RequestHandler {
+  if (process.env.NODE_ENV === 'production' && config.session.secret === DEV_SESSION_SECRET) {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
   const sessionSettings: session.SessionOptions = {
-    secret: "meditrack-secret-key-development",
+    name: 'meditrack.sid',
+    secret: config.session.secret,
     resave: false,
     saveUninitialized: false,
     store: storage.sessionStore,
     cookie: {
-      maxAge: 86400000, // 24 hours
+      maxAge: config.session.lifetimeHours * 60 * 60 * 1000,
       sameSite: 'lax',
       secure: process.env.NODE_ENV === 'production',
       httpOnly: true
     }
   };
 
+  // Kept so the WebSocket upgrade can read the same session
+  const sessionParser = session(sessionSettings);
+
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  app.use(sessionParser);
   app.use(passport.initialize());
   app.use(passport.session());
+  app.use(authenticateApiToken);
+  app.use(trackSessionActivity);
 
   passport.use(
     new LocalStrategy(async (username, password, done) => {
@@ -80,13 +211,15 @@ export function setupAuth(app: Express) {
 
   app.post("/api/register", async (req, res, next) => {
     try {
-      // Validate required fields
-      const { username, password, email } = req.body;
-      if (!username || !password || !email) {
-        return res.status(400).json({ 
-          message: "Username, password, and email are required" 
-        });
+      // Only the fields a registrant may set; verification flags are never taken from the body,
+      // and roles are granted through the admin user routes alone
+      const parsed = insertUserSchema.safeParse({ ...req.body, role: UserRole.USER });
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid registration details", errors: parsed.error.errors });
       }
+      const { username, password, email } = parsed.data;
+
+      await loginProtectionService.checkRegistration(req.ip ?? "unknown");
 
       const existingUser = await storage.getUserByUsername(username);
       if (existingUser) {
@@ -99,9 +232,17 @@ export function setupAuth(app: Express) {
       }
 
       const user = await storage.createUser({
-        ...req.body,
+        ...parsed.data,
         password: await hashPassword(password),
       });
+      await loginProtectionService.recordRegistration(req.ip ?? "unknown");
+
+      // The account is usable straight away; a failed email can be resent later
+      try {
+        await issueEmailVerification(user);
+      } catch (error) {
+        console.error("Error sending verification email:", error);
+      }
 
       req.login(user, (err) => {
         if (err) {
@@ -111,20 +252,162 @@ export function setupAuth(app: Express) {
         res.status(201).json(user);
       });
     } catch (error) {
+      if (error instanceof LoginThrottledError) {
+        res.set("Retry-After", String(error.retryAfterSeconds));
+        return res.status(429).json({ message: error.message, retryAfter: error.retryAfterSeconds });
+      }
       console.error("Registration error:", error);
       res.status(500).json({ message: "Failed to register user" });
     }
   });
 
-  app.post("/api/login", (req, res, next) => {
-    passport.authenticate("local", (err, user, info) => {
+  app.get("/api/verify-email/:token", async (req, res) => {
+    try {
+      const user = await storage.getUserByVerificationToken(hashToken(req.params.token));
+      if (!user) {
+        return res.status(400).json({ message: "Invalid or already used verification link" });
+      }
+      if (!user.verificationExpiry || user.verificationExpiry < new Date()) {
+        return res.status(400).json({ message: "This verification link has expired. Please request a new one." });
+      }
+
+      await storage.verifyEmail(user.id);
+      res.json({ message: "Your email address has been verified" });
+    } catch (error) {
+      console.error("Email verification error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/verify-email/resend", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+
+    try {
+      const user = req.user;
+      if (user.isEmailVerified) {
+        return res.status(400).json({ message: "Email address is already verified" });
+      }
+
+      const cooldownMs = config.auth.verificationResendCooldownSeconds * 1000;
+      const sinceLast = user.verificationSentAt ? Date.now() - user.verificationSentAt.getTime() : Infinity;
+      if (sinceLast < cooldownMs) {
+        const retryAfter = Math.ceil((cooldownMs - sinceLast) / 1000);
+        res.set("Retry-After", String(retryAfter));
+        return res.status(429).json({ message: `Please wait ${retryAfter} seconds before requesting another email` });
+      }
+
+      await issueEmailVerification(user);
+      res.json({ message: "Verification email sent" });
+    } catch (error) {
+      console.error("Error resending verification email:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Same answer whether or not the address belongs to an account
+  app.post("/api/reset-password-request", async (req, res) => {
+    const { email } = req.body ?? {};
+    if (typeof email !== "string" || !email.trim()) {
+      return res.status(400).json({ message: "Email is required" });
+    }
+
+    try {
+      const user = await storage.getUserByEmail(email.trim());
+      if (user) {
+        const { token, hash } = createToken();
+        const ttlMinutes = config.auth.passwordResetTtlMinutes;
+        await storage.setPasswordResetToken(user.id, hash, new Date(Date.now() + ttlMinutes * 60 * 1000));
+        // Not awaited, so the response time does not give the account away either
+        notificationService.notifyUser(user, "passwordReset", { token, expiresInMinutes: ttlMinutes }, ["email"]).catch((error) => {
+          console.error("Error queueing password reset email:", error);
+        });
+      }
+      res.json({ message: "If an account exists with this email, you will receive password reset instructions" });
+    } catch (error) {
+      console.error("Password reset request error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/reset-password/:token", async (req, res) => {
+    const { password } = req.body ?? {};
+    if (typeof password !== "string" || password.length < 8) {
+      return res.status(400).json({ message: "Password must be at least 8 characters" });
+    }
+
+    try {
+      const user = await storage.getUserByResetToken(hashToken(req.params.token));
+      if (!user || !user.resetExpiry || user.resetExpiry < new Date()) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+
+      // Clear the token first so the link cannot be used twice
+      await storage.clearResetToken(user.id);
+      await storage.updatePassword(user.id, await hashPassword(password));
+      // Signs out every other device and closes their sockets
+      await sessionService.revokeOthers(user.id, req.sessionID);
+
+      res.json({ message: "Your password has been reset. Please log in with your new password." });
+    } catch (error) {
+      console.error("Password reset error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/login", async (req, res, next) => {
+    const username = typeof req.body?.username === "string" ? req.body.username : "";
+    const ip = req.ip ?? "unknown";
+    try {
+      await loginProtectionService.check(username, ip);
+    } catch (error) {
+      if (error instanceof LoginThrottledError) {
+        res.set("Retry-After", String(error.retryAfterSeconds));
+        return res.status(429).json({ message: error.message, retryAfter: error.retryAfterSeconds });
+      }
+      console.error("Login throttle check failed:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+
+    passport.authenticate("local", async (err: unknown, user: Express.User | false, info: { message?: string } | undefined) => {
       if (err) {
         console.error("Login error:", err);
         return res.status(500).json({ message: "Internal server error" });
       }
       
-      if (!user) {
-        return res.status(401).json({ message: info?.message || "Authentication failed" });
+      let recoveryCodes: string[] | undefined;
+      try {
+        if (!user) {
+          await loginProtectionService.recordFailure(username, ip, auditContext(req));
+          return res.status(401).json({ message: info?.message || "Authentication failed" });
+        }
+
+        // The password checked out; accounts with two-factor sign-in resend it with a code
+        const code = typeof req.body?.code === "string" && req.body.code.trim() ? req.body.code : undefined;
+        const step = await twoFactorService.loginStep(user, code, auditContext(req));
+        if (step.status === "code_required") {
+          return res.status(401).json({
+            message: "Enter the code from your authenticator app",
+            code: "two_factor_required"
+          });
+        }
+        if (step.status === "setup_required") {
+          return res.status(401).json({
+            message: "Your role requires two-factor sign-in. Add this account to an authenticator app to continue.",
+            code: "two_factor_setup_required",
+            setup: step.setup
+          });
+        }
+        if (step.status === "invalid_code") {
+          await loginProtectionService.recordFailure(username, ip, auditContext(req));
+          return res.status(401).json({ message: "Invalid authentication code", code: "two_factor_invalid" });
+        }
+        recoveryCodes = step.recoveryCodes;
+        await loginProtectionService.recordSuccess(username);
+      } catch (error) {
+        console.error("Error recording login attempt:", error);
+        return res.status(500).json({ message: "Internal server error" });
       }
       
       req.login(user, (loginErr) => {
@@ -134,7 +417,8 @@ export function setupAuth(app: Express) {
         }
         
         console.log("Login successful, session:", req.session);
-        return res.status(200).json(user);
+        // Recovery codes only come back when setup was completed as part of this login
+        return res.status(200).json(recoveryCodes ? { ...user, recoveryCodes } : user);
       });
     })(req, res, next);
   });
@@ -166,4 +450,121 @@ export function setupAuth(app: Express) {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     res.json(req.user);
   });
+
+  // The caller's active sessions across devices
+  app.get("/api/sessions", requirePermission(Permission.PROFILE_MANAGE_OWN), async (req, res) => {
+    try {
+      res.json(await sessionService.list(req.user!.id, req.sessionID));
+    } catch (error) {
+      console.error("Error listing sessions:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Log out every session except this one
+  app.delete("/api/sessions", requirePermission(Permission.PROFILE_MANAGE_OWN), async (req, res) => {
+    try {
+      const revoked = await sessionService.revokeOthers(req.user!.id, req.sessionID);
+      res.json({ revoked });
+    } catch (error) {
+      console.error("Error revoking sessions:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/sessions/:id", requirePermission(Permission.PROFILE_MANAGE_OWN), async (req, res) => {
+    try {
+      const sessions = await sessionService.list(req.user!.id, req.sessionID);
+      const target = sessions.find(s => s.id === req.params.id);
+      if (!target) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (target.current) {
+        return res.status(400).json({ message: "Use log out to end the current session" });
+      }
+      await sessionService.revoke(req.user!.id, req.params.id);
+      res.json({ revoked: 1 });
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/2fa", requirePermission(Permission.PROFILE_MANAGE_OWN), async (req, res) => {
+    try {
+      res.json(await twoFactorService.status(req.user!));
+    } catch (error) {
+      console.error("Error retrieving two-factor status:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // A new secret to add to an authenticator app; two-factor stays off until a code is confirmed
+  app.post("/api/2fa/setup", requirePermission(Permission.PROFILE_MANAGE_OWN), async (req, res) => {
+    try {
+      res.json(await twoFactorService.beginSetup(req.user!));
+    } catch (error) {
+      if (error instanceof TwoFactorError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error starting two-factor setup:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/2fa/enable", requirePermission(Permission.PROFILE_MANAGE_OWN), async (req, res) => {
+    const parsed = twoFactorCodeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid code", errors: parsed.error.errors });
+    }
+
+    try {
+      const recoveryCodes = await twoFactorService.enable(req.user!, parsed.data.code, auditContext(req));
+      res.json({ recoveryCodes });
+    } catch (error) {
+      if (error instanceof TwoFactorError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error enabling two-factor:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/2fa/disable", requirePermission(Permission.PROFILE_MANAGE_OWN), async (req, res) => {
+    const parsed = twoFactorVerifySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid code", errors: parsed.error.errors });
+    }
+
+    try {
+      await twoFactorService.disable(req.user!, parsed.data.code, auditContext(req));
+      res.json({ message: "Two-factor sign-in has been turned off" });
+    } catch (error) {
+      if (error instanceof TwoFactorError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error disabling two-factor:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/2fa/recovery-codes", requirePermission(Permission.PROFILE_MANAGE_OWN), async (req, res) => {
+    const parsed = twoFactorVerifySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid code", errors: parsed.error.errors });
+    }
+
+    try {
+      const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(req.user!, parsed.data.code, auditContext(req));
+      res.json({ recoveryCodes });
+    } catch (error) {
+      if (error instanceof TwoFactorError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error regenerating recovery codes:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  return sessionParser;
 }
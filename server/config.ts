@@ -1,14 +1,236 @@
+export type TimeBand = 'peak' | 'off_peak' | 'night';
+export type VerifiedEmailFeature = 'emergency_contacts' | 'medical_info';
+
 interface Config {
+  // Public address of the web app, for links in messages
+  appUrl: string;
   email: {
+    // console writes messages to the log and an outbox file instead of sending them
+    provider: 'smtp' | 'console';
+    host: string;
+    port: number;
+    secure: boolean;
     user: string;
-    appPassword: string;
+    password: string;
+    from: string;
+    outboxFile: string;
+  };
+  push: {
+    // webhook hands messages to a push relay; console logs them instead
+    provider: 'webhook' | 'console';
+    webhookUrl: string;
+    outboxFile: string;
+  };
+  notifications: {
+    pollIntervalSeconds: number;
+    batchSize: number;
+    // Attempts before a message is marked failed; the wait between them doubles
+    maxAttempts: number;
+    retryBaseSeconds: number;
+    retryMaxSeconds: number;
+  };
+  auth: {
+    emailVerificationTtlHours: number;
+    // Minimum gap between verification emails to the same account
+    verificationResendCooldownSeconds: number;
+    // Features closed to accounts whose email is not yet verified
+    requireVerifiedEmailFor: VerifiedEmailFeature[];
+    passwordResetTtlMinutes: number;
+  };
+  loginProtection: {
+    // Failures older than this no longer count
+    windowMinutes: number;
+    // Failures before each further attempt must wait, doubling from baseDelaySeconds
+    accountDelayAfter: number;
+    ipDelayAfter: number;
+    baseDelaySeconds: number;
+    maxDelaySeconds: number;
+    // Failures within the window that lock the account or IP out
+    accountLockoutThreshold: number;
+    ipLockoutThreshold: number;
+    lockoutMinutes: number;
+    registrationsPerIpPerHour: number;
+  };
+  twoFactor: {
+    // Name shown next to the account in authenticator apps
+    issuer: string;
+    // Roles that must enrol before they can finish signing in
+    requiredRoles: string[];
+    recoveryCodeCount: number;
+  };
+  session: {
+    secret: string;
+    // Absolute limit from login, whatever the activity
+    lifetimeHours: number;
+    // Sessions unused for this long are logged out
+    idleTimeoutMinutes: number;
+  };
+  sms: {
+    // console writes messages to the log and an outbox file instead of sending them
+    provider: 'console' | 'africastalking';
+    outboxFile: string;
+    apiKey: string;
+    username: string;
+    senderId: string;
+  };
+  phoneVerification: {
+    codeTtlMinutes: number;
+    maxAttempts: number;
+    resendCooldownSeconds: number;
+  };
+  dispatch: {
+    autoAssign: boolean;
+  };
+  geo: {
+    // Default and maximum search radius in metres for nearby lookups
+    defaultRadiusMeters: Record<'ambulances' | 'facilities' | 'resources', number>;
+    maxRadiusMeters: number;
+    defaultLimit: number;
+    maxLimit: number;
+  };
+  facilities: {
+    // Where facility records come from: google, file or none
+    provider: 'google' | 'file' | 'none';
+    apiKey: string;
+    // CSV or GeoJSON export read by the file provider
+    filePath: string;
+    // Areas the background job keeps fresh, in addition to areas users search
+    syncAreas: { latitude: number; longitude: number; radiusMeters: number }[];
+    syncIntervalMinutes: number;
+    // How long a synced area is considered fresh
+    cacheTtlMinutes: number;
+    maxRequestsPerMinute: number;
+  };
+  emergency: {
+    // How long a repeated submission with the same idempotency key returns the original alert
+    idempotencyWindowMinutes: number;
+    // Lifetime of the tracking links texted to a reporter's emergency contacts
+    trackingLinkTtlHours: number;
+    maxContactsPerUser: number;
+  };
+  eta: {
+    // Average speeds in km/h per unit type and time band
+    speedsKmh: Record<string, Record<TimeBand, number>>;
+    // Multiplier from great-circle distance to road distance
+    detourFactor: Record<string, number>;
+    // Completed trips needed before history outweighs the configured speed
+    historyWeight: number;
   };
   // Add other configuration sections as needed
 }
 
 export const config: Config = {
+  appUrl: process.env.APP_URL || 'http://localhost:3000',
   email: {
-    user: process.env.GMAIL_USER || '',
-    appPassword: process.env.GMAIL_APP_PASSWORD || '',
+    provider: (process.env.EMAIL_PROVIDER as Config['email']['provider'])
+      || (process.env.SMTP_HOST || process.env.SMTP_USER || process.env.GMAIL_USER ? 'smtp' : 'console'),
+    host: process.env.SMTP_HOST || 'smtp.gmail.com',
+    port: parseInt(process.env.SMTP_PORT || '587'),
+    secure: process.env.SMTP_SECURE === 'true',
+    // GMAIL_USER and GMAIL_APP_PASSWORD are still honoured from the old Gmail-only setup
+    user: process.env.SMTP_USER || process.env.GMAIL_USER || '',
+    password: process.env.SMTP_PASS || process.env.GMAIL_APP_PASSWORD || '',
+    from: process.env.SMTP_FROM || 'noreply@meditrack.com',
+    outboxFile: process.env.EMAIL_OUTBOX_FILE || 'email-outbox.log',
+  },
+  push: {
+    provider: process.env.PUSH_WEBHOOK_URL ? 'webhook' : 'console',
+    webhookUrl: process.env.PUSH_WEBHOOK_URL || '',
+    outboxFile: process.env.PUSH_OUTBOX_FILE || 'push-outbox.log',
+  },
+  notifications: {
+    pollIntervalSeconds: parseInt(process.env.NOTIFICATION_POLL_INTERVAL_SECONDS || '5'),
+    batchSize: parseInt(process.env.NOTIFICATION_BATCH_SIZE || '20'),
+    maxAttempts: parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS || '6'),
+    retryBaseSeconds: parseInt(process.env.NOTIFICATION_RETRY_BASE_SECONDS || '30'),
+    retryMaxSeconds: parseInt(process.env.NOTIFICATION_RETRY_MAX_SECONDS || '3600'),
+  },
+  auth: {
+    emailVerificationTtlHours: parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '24'),
+    verificationResendCooldownSeconds: parseInt(process.env.VERIFICATION_RESEND_COOLDOWN_SECONDS || '60'),
+    requireVerifiedEmailFor: (process.env.REQUIRE_VERIFIED_EMAIL_FOR ?? 'emergency_contacts')
+      .split(',')
+      .map(feature => feature.trim())
+      .filter(Boolean) as VerifiedEmailFeature[],
+    passwordResetTtlMinutes: parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60'),
+  },
+  loginProtection: {
+    windowMinutes: parseInt(process.env.LOGIN_WINDOW_MINUTES || '15'),
+    accountDelayAfter: parseInt(process.env.LOGIN_ACCOUNT_DELAY_AFTER || '3'),
+    ipDelayAfter: parseInt(process.env.LOGIN_IP_DELAY_AFTER || '10'),
+    baseDelaySeconds: parseInt(process.env.LOGIN_BASE_DELAY_SECONDS || '1'),
+    maxDelaySeconds: parseInt(process.env.LOGIN_MAX_DELAY_SECONDS || '60'),
+    accountLockoutThreshold: parseInt(process.env.LOGIN_ACCOUNT_LOCKOUT_THRESHOLD || '10'),
+    ipLockoutThreshold: parseInt(process.env.LOGIN_IP_LOCKOUT_THRESHOLD || '50'),
+    lockoutMinutes: parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15'),
+    registrationsPerIpPerHour: parseInt(process.env.REGISTRATIONS_PER_IP_PER_HOUR || '5'),
+  },
+  twoFactor: {
+    issuer: process.env.TWO_FACTOR_ISSUER || 'MediTrack',
+    requiredRoles: (process.env.TWO_FACTOR_REQUIRED_ROLES ?? 'admin,response_team')
+      .split(',')
+      .map(role => role.trim())
+      .filter(Boolean),
+    recoveryCodeCount: parseInt(process.env.TWO_FACTOR_RECOVERY_CODES || '10'),
+  },
+  session: {
+    secret: process.env.SESSION_SECRET || 'meditrack-secret-key-development',
+    lifetimeHours: parseInt(process.env.SESSION_LIFETIME_HOURS || '24'),
+    idleTimeoutMinutes: parseInt(process.env.SESSION_IDLE_TIMEOUT_MINUTES || '120'),
+  },
+  sms: {
+    provider: process.env.SMS_PROVIDER === 'africastalking' ? 'africastalking' : 'console',
+    outboxFile: process.env.SMS_OUTBOX_FILE || 'sms-outbox.log',
+    apiKey: process.env.AFRICASTALKING_API_KEY || '',
+    username: process.env.AFRICASTALKING_USERNAME || 'sandbox',
+    senderId: process.env.SMS_SENDER_ID || '',
+  },
+  phoneVerification: {
+    codeTtlMinutes: parseInt(process.env.PHONE_OTP_TTL_MINUTES || '10'),
+    maxAttempts: parseInt(process.env.PHONE_OTP_MAX_ATTEMPTS || '5'),
+    resendCooldownSeconds: parseInt(process.env.PHONE_OTP_RESEND_COOLDOWN_SECONDS || '60'),
+  },
+  dispatch: {
+    autoAssign: process.env.DISPATCH_AUTO_ASSIGN === 'true',
+  },
+  geo: {
+    defaultRadiusMeters: {
+      ambulances: 10000,
+      facilities: 5000,
+      resources: 10000,
+    },
+    maxRadiusMeters: parseInt(process.env.GEO_MAX_RADIUS_METERS || '100000'),
+    defaultLimit: 20,
+    maxLimit: 100,
+  },
+  facilities: {
+    provider: (process.env.FACILITY_PROVIDER as Config['facilities']['provider'])
+      || (process.env.GOOGLE_MAPS_API_KEY ? 'google' : 'none'),
+    apiKey: process.env.GOOGLE_MAPS_API_KEY || '',
+    filePath: process.env.FACILITY_FILE_PATH || '',
+    syncAreas: process.env.FACILITY_SYNC_AREAS ? JSON.parse(process.env.FACILITY_SYNC_AREAS) : [],
+    syncIntervalMinutes: parseInt(process.env.FACILITY_SYNC_INTERVAL_MINUTES || '360'),
+    cacheTtlMinutes: parseInt(process.env.FACILITY_CACHE_TTL_MINUTES || '1440'),
+    maxRequestsPerMinute: parseInt(process.env.FACILITY_MAX_REQUESTS_PER_MINUTE || '60'),
+  },
+  emergency: {
+    idempotencyWindowMinutes: parseInt(process.env.EMERGENCY_IDEMPOTENCY_WINDOW_MINUTES || '1440'),
+    trackingLinkTtlHours: parseInt(process.env.TRACKING_LINK_TTL_HOURS || '12'),
+    maxContactsPerUser: parseInt(process.env.MAX_EMERGENCY_CONTACTS || '5'),
+  },
+  eta: {
+    speedsKmh: process.env.ETA_SPEEDS_KMH
+      ? JSON.parse(process.env.ETA_SPEEDS_KMH)
+      : {
+          ambulance: { peak: 25, off_peak: 45, night: 60 },
+          rapid_response: { peak: 35, off_peak: 50, night: 60 },
+          air: { peak: 220, off_peak: 220, night: 200 },
+        },
+    detourFactor: {
+      ambulance: 1.4,
+      rapid_response: 1.3,
+      air: 1,
+    },
+    historyWeight: parseInt(process.env.ETA_HISTORY_WEIGHT || '10'),
   },
-}; 
\ No newline at end of file
+};
@@ -1,6 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { facilitySyncService } from "./services/facilitySyncService";
+import { notificationService } from "./services/notificationService";
 import * as dotenv from "dotenv";
 dotenv.config();
 
@@ -40,6 +42,8 @@ app.use((req, res, next) => {
 
 (async () => {
   const server = await registerRoutes(app);
+  facilitySyncService.start();
+  notificationService.start();
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
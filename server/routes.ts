@@ -1,11 +1,32 @@
-import type { Express } from "express";
+import express, { type Express, type Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { setupAuth } from "./auth";
-import { WebSocketServer } from "ws";
+import { setupAuth, requirePermission, requirePermissionOrScope, requireVerifiedEmail } from "./auth";
+import { Permission, hasPermission } from "@shared/permissions";
 import { WebSocket } from "ws";
 import { calculateDistance } from "../client/src/hooks/use-maps";
-import { emailService } from './services/emailService';
+import { notificationService } from './services/notificationService';
+import { contactAlertService } from './services/contactAlertService';
+import { emergencyContactService, EmergencyContactError } from './services/emergencyContactService';
+import { trackingLinkService, TrackingLinkError } from './services/trackingLinkService';
+import { dispatchService } from './services/dispatchService';
+import { etaService } from './services/etaService';
+import { realtimeService } from './services/realtimeService';
+import { facilitySyncService } from './services/facilitySyncService';
+import { parseFacilityFile } from './services/facilityProviders';
+import { phoneVerificationService, PhoneVerificationError } from './services/phoneVerificationService';
+import { trackService, DEFAULT_TOLERANCE_METERS, MAX_TOLERANCE_METERS } from './services/trackService';
+import { auditService, auditContext, requestOrigin } from './services/auditService';
+import { medicalAccessService, MedicalAccessError } from './services/medicalAccessService';
+import { sessionService } from './services/sessionService';
+import { loginProtectionService } from './services/loginProtectionService';
+import { twoFactorService } from './services/twoFactorService';
+import { apiTokenService, ApiTokenError } from './services/apiTokenService';
+import { userPreferencesService } from './services/userPreferencesService';
+import { config } from './config';
+import { UserRole, adminUpdateEmergencySchema, auditEventFiltersSchema, breakGlassAccessSchema, createApiTokenSchema, facilityCapacitySchema, insertEmergencyContactSchema, phoneVerificationConfirmSchema, phoneVerificationStartSchema, reorderEmergencyContactsSchema, updateEmergencyContactSchema, updateUserPreferencesSchema, type EmergencyAlert, type User as SelectUser } from "@shared/schema";
+import { WsErrorCode, createServerMessage, locationReportSchema, parseClientMessage, type LocationReport } from "@shared/ws-protocol";
+import { InvalidTransitionError, UnitUnavailableError, computeResponseTimes, getAllowedTransitions, isOpenStatus } from './services/emergencyLifecycle';
 
 // Type definitions
 interface User {
@@ -23,38 +44,133 @@ interface Emergency {
 // Middleware function types
 type RequestHandler = (req: any, res: any, next: any) => void;
 
-// Authentication middleware
-const isAuthenticated: RequestHandler = (req, res, next) => {
-  if (!req.isAuthenticated()) {
-    return res.status(401).json({ message: "Not authenticated" });
+// Parse latitude/longitude plus optional radius (metres) and limit for nearby lookups
+function parseNearbyQuery(query: any): { latitude: number; longitude: number; radiusMeters?: number; limit?: number } | { error: string } {
+  const latitude = parseFloat(query.latitude);
+  const longitude = parseFloat(query.longitude);
+  if (isNaN(latitude) || isNaN(longitude)) {
+    return { error: "Latitude and longitude required" };
   }
-  next();
-};
 
-// Admin middleware
-const isAdmin: RequestHandler = (req, res, next) => {
-  if (!req.isAuthenticated()) {
-    return res.status(401).json({ message: "Not authenticated" });
+  const radiusMeters = query.radius !== undefined ? parseFloat(query.radius) : undefined;
+  if (radiusMeters !== undefined && (isNaN(radiusMeters) || radiusMeters <= 0 || radiusMeters > config.geo.maxRadiusMeters)) {
+    return { error: `Radius must be between 0 and ${config.geo.maxRadiusMeters} metres` };
   }
-  if (req.user.role !== 'admin') {
-    return res.status(403).json({ message: "Unauthorized: Admin access required" });
+
+  const limit = query.limit !== undefined ? parseInt(query.limit) : undefined;
+  if (limit !== undefined && (isNaN(limit) || limit < 1 || limit > config.geo.maxLimit)) {
+    return { error: `Limit must be between 1 and ${config.geo.maxLimit}` };
+  }
+
+  return { latitude, longitude, radiusMeters, limit };
+}
+
+// Postgres error code for a unique constraint violation
+const UNIQUE_VIOLATION = '23505';
+
+// Most in-app notifications returned to a user at once
+const NOTIFICATION_LIST_LIMIT = 50;
+
+// Answer a repeated emergency submission with the alert it already created
+function replayEmergency(res: Response, emergency: EmergencyAlert) {
+  const ageMinutes = (Date.now() - new Date(emergency.createdAt ?? 0).getTime()) / 60000;
+  if (ageMinutes > config.emergency.idempotencyWindowMinutes) {
+    return res.status(409).json({ message: "Idempotency key has already been used" });
+  }
+  return res.status(200).json(emergency);
+}
+
+// Store a user's own position and share it with whoever is handling their open emergencies.
+// Outside an emergency the fix is dropped unless the user allows location tracking.
+async function recordUserLocation(user: SelectUser, report: LocationReport, except?: WebSocket): Promise<boolean> {
+  const openEmergencies = await storage.getOpenEmergenciesByUserId(user.id);
+  if (openEmergencies.length === 0 && !(await userPreferencesService.get(user.id)).locationTracking) {
+    return false;
+  }
+
+  // Replayed fixes keep the time they were taken, but never a future one
+  const takenAt = report.timestamp ? Math.min(report.timestamp, Date.now()) : Date.now();
+
+  await storage.createLocationUpdate({
+    userId: user.id,
+    latitude: report.latitude.toString(),
+    longitude: report.longitude.toString(),
+    accuracy: report.accuracy?.toString(),
+    timestamp: new Date(takenAt),
+    source: user.role
+  });
+
+  const update = createServerMessage('location_update', {
+    userId: user.id,
+    latitude: report.latitude,
+    longitude: report.longitude,
+    accuracy: report.accuracy,
+    role: user.role,
+    timestamp: takenAt
+  });
+  for (const emergency of openEmergencies) {
+    await realtimeService.publishToEmergency(emergency, update, except);
   }
-  next();
-};
+  return true;
+}
+
+// Move a unit, keep its trail and tell whoever is following it; reporterId is null for the unit's own tracker
+async function recordUnitLocation(ambulanceId: number, report: LocationReport, reporterId: number | null, except?: WebSocket) {
+  const unit = await storage.updateAmbulanceLocation(
+    ambulanceId,
+    report.latitude,
+    report.longitude,
+    report.accuracy
+  );
+
+  // Keep the unit's trail for incident playback
+  await storage.createLocationUpdate({
+    userId: reporterId,
+    ambulanceId: unit.id,
+    latitude: report.latitude.toString(),
+    longitude: report.longitude.toString(),
+    accuracy: report.accuracy?.toString(),
+    timestamp: new Date(),
+    source: 'ambulance'
+  });
+
+  const emergency = unit.currentEmergencyId
+    ? await storage.getEmergencyAlert(unit.currentEmergencyId)
+    : undefined;
+  const unitUpdate = createServerMessage('location_update', {
+    ambulanceId: unit.id,
+    latitude: report.latitude,
+    longitude: report.longitude,
+    accuracy: report.accuracy,
+    role: 'ambulance',
+    timestamp: Date.now()
+  });
+
+  if (emergency && emergency.ambulanceId === unit.id && isOpenStatus(emergency.status)) {
+    await realtimeService.publishToEmergency(emergency, unitUpdate, except);
+
+    const eta = await etaService.refresh(emergency);
+    if (eta) {
+      await realtimeService.publishToEmergency(emergency, createServerMessage('eta_update', {
+        ...eta,
+        computedAt: eta.computedAt.toISOString(),
+        userId: emergency.userId
+      }));
+    }
+  } else {
+    realtimeService.publishToStaff(unitUpdate, except);
+  }
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up authentication routes
-  setupAuth(app);
+  const sessionParser = setupAuth(app);
 
   // API routes
   // Get medical information for a user
-  app.get("/api/medical-info", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Not authenticated" });
-    }
-
+  app.get("/api/medical-info", requirePermission(Permission.MEDICAL_READ_OWN), async (req, res) => {
     try {
-      const medicalInfo = await storage.getMedicalInfoByUserId(req.user.id);
+      const medicalInfo = await storage.getMedicalInfoByUserId(req.user!.id);
       return res.json(medicalInfo);
     } catch (error) {
       console.error("Error retrieving medical info:", error);
@@ -63,15 +179,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update medical information
-  app.post("/api/medical-info", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Not authenticated" });
-    }
-
+  app.post("/api/medical-info", requirePermission(Permission.MEDICAL_WRITE_OWN), requireVerifiedEmail('medical_info'), async (req, res) => {
     try {
       const updatedInfo = await storage.updateMedicalInfo({
         ...req.body,
-        userId: req.user.id
+        userId: req.user!.id
       });
       return res.json(updatedInfo);
     } catch (error) {
@@ -81,51 +193,160 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get emergency contacts for a user
-  app.get("/api/emergency-contacts", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Not authenticated" });
+  app.get("/api/emergency-contacts", requirePermission(Permission.CONTACTS_MANAGE_OWN), async (req, res) => {
+    try {
+      const contacts = await storage.getEmergencyContactsByUserId(req.user!.id);
+      return res.json(contacts);
+    } catch (error) {
+      console.error("Error retrieving emergency contacts:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/emergency-contacts", requirePermission(Permission.CONTACTS_MANAGE_OWN), requireVerifiedEmail('emergency_contacts'), async (req, res) => {
+    try {
+      const parsed = insertEmergencyContactSchema.safeParse({ ...req.body, userId: req.user!.id });
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid emergency contact", errors: parsed.error.errors });
+      }
+      const contact = await emergencyContactService.create(parsed.data);
+      return res.status(201).json(contact);
+    } catch (error) {
+      if (error instanceof EmergencyContactError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error creating emergency contact:", error);
+      return res.status(500).json({ message: "Internal server error" });
     }
+  });
 
+  // Set the order contacts are reached in
+  app.put("/api/emergency-contacts/order", requirePermission(Permission.CONTACTS_MANAGE_OWN), requireVerifiedEmail('emergency_contacts'), async (req, res) => {
     try {
-      const contacts = await storage.getEmergencyContactsByUserId(req.user.id);
+      const parsed = reorderEmergencyContactsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid contact order", errors: parsed.error.errors });
+      }
+      const contacts = await emergencyContactService.reorder(req.user!.id, parsed.data.ids);
       return res.json(contacts);
     } catch (error) {
-      console.error("Error retrieving emergency contacts:", error);
+      if (error instanceof EmergencyContactError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error reordering emergency contacts:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Edit a contact, including whether they are texted when the user raises an SOS
+  app.patch("/api/emergency-contacts/:id", requirePermission(Permission.CONTACTS_MANAGE_OWN), requireVerifiedEmail('emergency_contacts'), async (req, res) => {
+    try {
+      const contactId = parseInt(req.params.id);
+      if (isNaN(contactId)) {
+        return res.status(400).json({ message: "Invalid contact ID" });
+      }
+      const parsed = updateEmergencyContactSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid emergency contact", errors: parsed.error.errors });
+      }
+      if (Object.keys(parsed.data).length === 0) {
+        return res.status(400).json({ message: "Nothing to update" });
+      }
+
+      const contact = await emergencyContactService.update(req.user!.id, contactId, parsed.data);
+      return res.json(contact);
+    } catch (error) {
+      if (error instanceof EmergencyContactError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error updating emergency contact:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/emergency-contacts/:id", requirePermission(Permission.CONTACTS_MANAGE_OWN), requireVerifiedEmail('emergency_contacts'), async (req, res) => {
+    try {
+      const contactId = parseInt(req.params.id);
+      if (isNaN(contactId)) {
+        return res.status(400).json({ message: "Invalid contact ID" });
+      }
+      await emergencyContactService.remove(req.user!.id, contactId);
+      return res.json({ message: "Emergency contact deleted" });
+    } catch (error) {
+      if (error instanceof EmergencyContactError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error deleting emergency contact:", error);
       return res.status(500).json({ message: "Internal server error" });
     }
   });
 
   // Create emergency alert
-  app.post("/api/emergencies", async (req, res) => {
+  app.post("/api/emergencies", requirePermission(Permission.EMERGENCY_CREATE), async (req, res) => {
     try {
       const userId = req.user?.id;
       if (!userId) {
         return res.status(401).json({ message: "Unauthorized" });
       }
 
-      const emergency = await storage.createEmergencyAlert({
-        ...req.body,
-        userId,
-        status: 'pending'
-      });
+      // A retried submission returns the alert the first attempt created
+      const { idempotencyKey } = req.body;
+      if (idempotencyKey !== undefined && (typeof idempotencyKey !== 'string' || idempotencyKey.length < 8 || idempotencyKey.length > 128)) {
+        return res.status(400).json({ message: "Invalid idempotency key" });
+      }
+      if (idempotencyKey) {
+        const existing = await storage.getEmergencyAlertByIdempotencyKey(userId, idempotencyKey);
+        if (existing) {
+          return replayEmergency(res, existing);
+        }
+      }
 
-      // Get user email for notification
-      const user = await storage.getUser(userId);
-      if (user?.email) {
-        try {
-          await emailService.sendEmergencyNotification(
-            user.email,
-            emergency.type,
-            emergency.id,
-            {
-              estimatedArrivalTime: '15-20 minutes',
-              // Add more details as needed
-            }
-          );
-        } catch (emailError) {
-          console.error('Failed to send email notification:', emailError);
-          // Don't fail the request if email fails
+      let emergency: EmergencyAlert;
+      try {
+        emergency = await storage.createEmergencyAlert({
+          ...req.body,
+          userId
+        }, requestOrigin(req));
+      } catch (createError) {
+        // A concurrent retry won the race on the unique key
+        const isUniqueViolation = createError instanceof Error && 'code' in createError && createError.code === UNIQUE_VIOLATION;
+        const existing = idempotencyKey && isUniqueViolation
+          ? await storage.getEmergencyAlertByIdempotencyKey(userId, idempotencyKey)
+          : undefined;
+        if (!existing) throw createError;
+        return replayEmergency(res, existing);
+      }
+
+      // Contacts hear about the alert before any dispatch follow-up
+      try {
+        await contactAlertService.alertContacts(emergency);
+      } catch (contactError) {
+        console.error('Failed to alert emergency contacts:', contactError);
+      }
+
+      // Dispatch the best unit straight away when auto-assign is enabled
+      try {
+        emergency = (await dispatchService.autoAssign(emergency)) ?? emergency;
+      } catch (dispatchError) {
+        console.error('Failed to auto-assign ambulance:', dispatchError);
+        // Leave the alert for a dispatcher to assign by hand
+      }
+
+      // Queued for the notification worker, so a slow mail server cannot hold up the alert
+      try {
+        const user = await storage.getUser(userId);
+        if (user) {
+          await notificationService.notifyUser(user, 'emergencyUpdate', {
+            emergencyType: emergency.emergencyType,
+            emergencyId: emergency.id,
+            estimatedArrivalTime: emergency.etaSeconds != null
+              ? etaService.formatEta(emergency.etaSeconds)
+              : undefined,
+          }, ['email', 'in_app', 'push'], emergency.id);
         }
+      } catch (notifyError) {
+        console.error('Failed to queue emergency notification:', notifyError);
+        // Don't fail the request if notifications fail
       }
 
       return res.status(201).json(emergency);
@@ -135,14 +356,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get active emergencies
-  app.get("/api/emergencies/active", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Not authenticated" });
-    }
-
+  // Get active emergencies: every open incident for staff, the caller's own otherwise
+  app.get("/api/emergencies/active", requirePermission(Permission.EMERGENCY_VIEW_OWN), async (req, res) => {
     try {
-      const emergencies = await storage.getActiveEmergencies();
+      const emergencies = hasPermission(req.user!.role, Permission.EMERGENCY_VIEW_ALL)
+        ? await storage.getActiveEmergencies()
+        : await storage.getOpenEmergenciesByUserId(req.user!.id);
       return res.json(emergencies);
     } catch (error) {
       console.error("Error retrieving active emergencies:", error);
@@ -151,13 +370,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get user's emergency history
-  app.get("/api/emergencies/user", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Not authenticated" });
-    }
-
+  app.get("/api/emergencies/user", requirePermission(Permission.EMERGENCY_VIEW_OWN), async (req, res) => {
     try {
-      const emergencies = await storage.getUserEmergencyHistory(req.user.id);
+      const emergencies = await storage.getUserEmergencyHistory(req.user!.id);
       return res.json(emergencies);
     } catch (error) {
       console.error("Error retrieving user emergency history:", error);
@@ -166,11 +381,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get recent emergencies
-  app.get("/api/emergencies/recent", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Not authenticated" });
-    }
-
+  app.get("/api/emergencies/recent", requirePermission(Permission.EMERGENCY_VIEW_ALL), async (req, res) => {
     try {
       const emergencies = await storage.getRecentEmergencies();
       return res.json(emergencies);
@@ -180,8 +391,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Record the caller's position; used when the socket is unavailable,
+  // including replays from the offline outbox
+  app.post("/api/location-updates", requirePermission(Permission.LOCATION_REPORT), async (req, res) => {
+    const parsed = locationReportSchema.omit({ ambulanceId: true }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid location data", errors: parsed.error.errors });
+    }
+
+    try {
+      const recorded = await recordUserLocation(req.user!, parsed.data);
+      return res.status(recorded ? 201 : 200).json({ recorded });
+    } catch (error) {
+      console.error("Error recording location update:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // Mark emergency as resolved
-  app.post("/api/emergencies/:id/resolve", isAdmin, async (req, res) => {
+  app.post("/api/emergencies/:id/resolve", requirePermission(Permission.EMERGENCY_MANAGE), async (req, res) => {
     try {
       const emergencyId = parseInt(req.params.id);
       if (isNaN(emergencyId)) {
@@ -195,32 +423,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Update emergency status
-      const updatedEmergency = await storage.updateEmergencyAlert(emergencyId, {
-        status: 'resolved',
-        resolvedAt: new Date()
-      });
+      const updatedEmergency = await storage.resolveEmergency(emergencyId, req.user?.id, req.body?.reason, requestOrigin(req));
+      await realtimeService.publishStatusChange(updatedEmergency, emergency.status);
+      try {
+        await contactAlertService.onStatusChange(updatedEmergency, emergency.status);
+      } catch (contactError) {
+        console.error('Failed to notify emergency contacts:', contactError);
+      }
 
-      // Send resolution notification if user has email
-      const user = await storage.getUser(emergency.userId);
-      if (user?.email) {
-        try {
-          await emailService.sendEmergencyNotification(
-            user.email,
-            emergency.type,
-            emergency.id,
-            {
-              facilityName: "Emergency has been resolved",
-              // Add any resolution details as needed
-            }
-          );
-        } catch (emailError) {
-          console.error('Failed to send resolution notification:', emailError);
-          // Don't fail the request if email fails
+      try {
+        const user = await storage.getUser(emergency.userId);
+        if (user) {
+          await notificationService.notifyUser(user, 'emergencyResolved', {
+            emergencyType: emergency.emergencyType,
+            emergencyId: emergency.id,
+          }, ['email', 'in_app', 'push'], emergency.id);
         }
+      } catch (notifyError) {
+        console.error('Failed to queue resolution notification:', notifyError);
+        // Don't fail the request if notifications fail
       }
 
       return res.json(updatedEmergency);
     } catch (error) {
+      if (error instanceof InvalidTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
       const err = error as Error;
       console.error("Error resolving emergency:", err);
       return res.status(500).json({ message: "Internal server error" });
@@ -228,27 +456,272 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Assign ambulance to emergency
-  app.post("/api/emergencies/assign", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Not authenticated" });
-    }
-
+  app.post("/api/emergencies/assign", requirePermission(Permission.EMERGENCY_DISPATCH), async (req, res) => {
     try {
       const { emergencyId, ambulanceId } = req.body;
-      const updatedEmergency = await storage.assignAmbulance(emergencyId, ambulanceId);
+      const updatedEmergency = await dispatchService.assign(emergencyId, ambulanceId, req.user!.id, requestOrigin(req));
       return res.json(updatedEmergency);
     } catch (error) {
+      if (error instanceof InvalidTransitionError || error instanceof UnitUnavailableError) {
+        return res.status(409).json({ message: error.message });
+      }
       console.error("Error assigning ambulance:", error);
       return res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Get ambulance units
-  app.get("/api/ambulances", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Not authenticated" });
+  // The reporter's medical profile and contacts, for the crew assigned to the open emergency
+  app.get("/api/emergencies/:id/patient", requirePermission(Permission.MEDICAL_READ_ANY), async (req, res) => {
+    try {
+      const emergencyId = parseInt(req.params.id);
+      if (isNaN(emergencyId)) {
+        return res.status(400).json({ message: "Invalid emergency ID" });
+      }
+      const record = await medicalAccessService.getForCrew(req.user!, emergencyId, auditContext(req));
+      return res.json(record);
+    } catch (error) {
+      if (error instanceof MedicalAccessError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      console.error("Error retrieving patient record:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Break-glass access for other staff: justified, audited and reported to the patient
+  app.post("/api/emergencies/:id/patient/break-glass", requirePermission(Permission.MEDICAL_READ_ANY), async (req, res) => {
+    try {
+      const emergencyId = parseInt(req.params.id);
+      if (isNaN(emergencyId)) {
+        return res.status(400).json({ message: "Invalid emergency ID" });
+      }
+      const parsed = breakGlassAccessSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid justification", errors: parsed.error.errors });
+      }
+
+      const record = await medicalAccessService.breakGlass(
+        req.user!,
+        emergencyId,
+        parsed.data.justification,
+        auditContext(req)
+      );
+      return res.json(record);
+    } catch (error) {
+      if (error instanceof MedicalAccessError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      console.error("Error granting break-glass access:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Get the reporter's and units' breadcrumbs for an emergency, for playback
+  app.get("/api/emergencies/:id/track", requirePermission(Permission.EMERGENCY_VIEW_ALL), async (req, res) => {
+    try {
+      const emergencyId = parseInt(req.params.id);
+      if (isNaN(emergencyId)) {
+        return res.status(400).json({ message: "Invalid emergency ID" });
+      }
+
+      const tolerance = req.query.tolerance !== undefined
+        ? parseFloat(req.query.tolerance as string)
+        : DEFAULT_TOLERANCE_METERS;
+      if (isNaN(tolerance) || tolerance < 0 || tolerance > MAX_TOLERANCE_METERS) {
+        return res.status(400).json({ message: `Tolerance must be between 0 and ${MAX_TOLERANCE_METERS} metres` });
+      }
+
+      const emergency = await storage.getEmergencyAlert(emergencyId);
+      if (!emergency) {
+        return res.status(404).json({ message: "Emergency not found" });
+      }
+
+      return res.json(await trackService.getEmergencyTrack(emergency, tolerance));
+    } catch (error) {
+      console.error("Error retrieving emergency track:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Delivery status of every notification sent about an emergency
+  app.get("/api/emergencies/:id/notifications", requirePermission(Permission.EMERGENCY_VIEW_ALL), async (req, res) => {
+    try {
+      const emergencyId = parseInt(req.params.id);
+      if (isNaN(emergencyId)) {
+        return res.status(400).json({ message: "Invalid emergency ID" });
+      }
+
+      const emergency = await storage.getEmergencyAlert(emergencyId);
+      if (!emergency) {
+        return res.status(404).json({ message: "Emergency not found" });
+      }
+
+      return res.json(await notificationService.getEmergencyDeliveryReport(emergencyId));
+    } catch (error) {
+      console.error("Error retrieving notification status:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Share links let anyone follow an emergency without signing in; the reporter and emergency managers control them
+  const canManageTrackingLinks = (user: SelectUser, emergency: EmergencyAlert) =>
+    emergency.userId === user.id || hasPermission(user.role, Permission.EMERGENCY_MANAGE);
+
+  app.get("/api/emergencies/:id/tracking-links", requirePermission(Permission.EMERGENCY_VIEW_OWN), async (req, res) => {
+    try {
+      const emergencyId = parseInt(req.params.id);
+      if (isNaN(emergencyId)) {
+        return res.status(400).json({ message: "Invalid emergency ID" });
+      }
+      const emergency = await storage.getEmergencyAlert(emergencyId);
+      if (!emergency || !canManageTrackingLinks(req.user!, emergency)) {
+        return res.status(404).json({ message: "Emergency not found" });
+      }
+      return res.json(await trackingLinkService.list(emergency));
+    } catch (error) {
+      console.error("Error retrieving tracking links:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/emergencies/:id/tracking-links", requirePermission(Permission.EMERGENCY_VIEW_OWN), async (req, res) => {
+    try {
+      const emergencyId = parseInt(req.params.id);
+      if (isNaN(emergencyId)) {
+        return res.status(400).json({ message: "Invalid emergency ID" });
+      }
+      const emergency = await storage.getEmergencyAlert(emergencyId);
+      if (!emergency || !canManageTrackingLinks(req.user!, emergency)) {
+        return res.status(404).json({ message: "Emergency not found" });
+      }
+      return res.status(201).json(await trackingLinkService.share(emergency, auditContext(req)));
+    } catch (error) {
+      if (error instanceof TrackingLinkError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error creating tracking link:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/emergencies/:id/tracking-links/:linkId", requirePermission(Permission.EMERGENCY_VIEW_OWN), async (req, res) => {
+    try {
+      const emergencyId = parseInt(req.params.id);
+      const linkId = parseInt(req.params.linkId);
+      if (isNaN(emergencyId) || isNaN(linkId)) {
+        return res.status(400).json({ message: "Invalid emergency or link ID" });
+      }
+      const emergency = await storage.getEmergencyAlert(emergencyId);
+      if (!emergency || !canManageTrackingLinks(req.user!, emergency)) {
+        return res.status(404).json({ message: "Emergency not found" });
+      }
+      await trackingLinkService.revoke(emergency, linkId, auditContext(req));
+      return res.json({ message: "Tracking link revoked" });
+    } catch (error) {
+      if (error instanceof TrackingLinkError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error revoking tracking link:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Unauthenticated: the token is the credential
+  app.get("/api/public/track/:token", async (req, res) => {
+    try {
+      res.set("Cache-Control", "no-store");
+      return res.json(await trackingLinkService.view(req.params.token));
+    } catch (error) {
+      if (error instanceof TrackingLinkError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error retrieving public tracking view:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // The caller's in-app notifications, newest first
+  app.get("/api/notifications", requirePermission(Permission.PROFILE_MANAGE_OWN), async (req, res) => {
+    try {
+      return res.json(await storage.getNotifications(req.user!.id, NOTIFICATION_LIST_LIMIT));
+    } catch (error) {
+      console.error("Error retrieving notifications:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/notifications/:id/read", requirePermission(Permission.PROFILE_MANAGE_OWN), async (req, res) => {
+    try {
+      const notificationId = parseInt(req.params.id);
+      if (isNaN(notificationId)) {
+        return res.status(400).json({ message: "Invalid notification ID" });
+      }
+
+      const notification = await storage.markNotificationRead(req.user!.id, notificationId);
+      if (!notification) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      return res.json(notification);
+    } catch (error) {
+      console.error("Error marking notification read:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Get ranked ambulance candidates for an emergency
+  app.get("/api/emergencies/:id/dispatch-candidates", requirePermission(Permission.EMERGENCY_DISPATCH), async (req, res) => {
+    try {
+      const emergencyId = parseInt(req.params.id);
+      if (isNaN(emergencyId)) {
+        return res.status(400).json({ message: "Invalid emergency ID" });
+      }
+
+      const emergency = await storage.getEmergencyAlert(emergencyId);
+      if (!emergency) {
+        return res.status(404).json({ message: "Emergency not found" });
+      }
+
+      const candidates = await dispatchService.getCandidates(emergency);
+      return res.json({
+        emergencyId,
+        priority: emergency.priority,
+        candidates
+      });
+    } catch (error) {
+      console.error("Error ranking dispatch candidates:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Get the status timeline of an emergency
+  app.get("/api/emergencies/:id/timeline", requirePermission(Permission.EMERGENCY_VIEW_ALL), async (req, res) => {
+    try {
+      const emergencyId = parseInt(req.params.id);
+      if (isNaN(emergencyId)) {
+        return res.status(400).json({ message: "Invalid emergency ID" });
+      }
+
+      const emergency = await storage.getEmergencyAlert(emergencyId);
+      if (!emergency) {
+        return res.status(404).json({ message: "Emergency not found" });
+      }
+
+      const history = await storage.getEmergencyStatusHistory(emergencyId);
+      return res.json({
+        emergencyId,
+        status: emergency.status,
+        allowedTransitions: getAllowedTransitions(emergency.status),
+        history,
+        responseTimes: computeResponseTimes(history)
+      });
+    } catch (error) {
+      console.error("Error retrieving emergency timeline:", error);
+      return res.status(500).json({ message: "Internal server error" });
     }
+  });
 
+  // Get ambulance units
+  app.get("/api/ambulances", requirePermission(Permission.AMBULANCE_VIEW), async (req, res) => {
     try {
       const ambulances = await storage.getAmbulanceUnits();
       return res.json(ambulances);
@@ -259,11 +732,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get available ambulance units
-  app.get("/api/ambulances/available", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Not authenticated" });
-    }
-
+  app.get("/api/ambulances/available", requirePermission(Permission.AMBULANCE_VIEW), async (req, res) => {
     try {
       const ambulances = await storage.getAvailableAmbulanceUnits();
       return res.json(ambulances);
@@ -274,21 +743,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get nearby ambulances
-  app.get("/api/ambulances/nearby", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Not authenticated" });
-    }
-
+  app.get("/api/ambulances/nearby", requirePermission(Permission.AMBULANCE_VIEW), async (req, res) => {
     try {
-      const { latitude, longitude } = req.query;
-      if (!latitude || !longitude) {
-        return res.status(400).json({ message: "Latitude and longitude required" });
+      const nearby = parseNearbyQuery(req.query);
+      if ('error' in nearby) {
+        return res.status(400).json({ message: nearby.error });
       }
 
-      const ambulances = await storage.getNearbyAmbulances(
-        parseFloat(latitude as string), 
-        parseFloat(longitude as string)
-      );
+      const ambulances = await storage.getNearbyAmbulances(nearby.latitude, nearby.longitude, nearby);
       return res.json(ambulances);
     } catch (error) {
       console.error("Error retrieving nearby ambulances:", error);
@@ -297,21 +759,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get nearby medical facilities
-  app.get("/api/facilities/nearby", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Not authenticated" });
-    }
-
+  app.get("/api/facilities/nearby", requirePermission(Permission.FACILITY_VIEW), async (req, res) => {
     try {
-      const { latitude, longitude } = req.query;
-      if (!latitude || !longitude) {
-        return res.status(400).json({ message: "Latitude and longitude required" });
+      const nearby = parseNearbyQuery(req.query);
+      if ('error' in nearby) {
+        return res.status(400).json({ message: nearby.error });
       }
 
-      const facilities = await storage.getNearbyFacilities(
-        parseFloat(latitude as string), 
-        parseFloat(longitude as string)
-      );
+      // Refresh the area from the provider in the background; this request reads what is stored
+      facilitySyncService.requestSync({
+        latitude: nearby.latitude,
+        longitude: nearby.longitude,
+        radiusMeters: nearby.radiusMeters ?? config.geo.defaultRadiusMeters.facilities,
+      });
+
+      const facilities = await storage.getNearbyFacilities(nearby.latitude, nearby.longitude, nearby);
       return res.json(facilities);
     } catch (error) {
       console.error("Error retrieving nearby facilities:", error);
@@ -319,12 +781,66 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get all users (admin only)
-  app.get("/api/users", async (req, res) => {
-    if (!req.isAuthenticated() || req.user.role !== 'admin') {
-      return res.status(401).json({ message: "Not authorized" });
+  // A unit's position from its crew or its own GPS tracker (an ambulance API token)
+  app.post("/api/ambulances/:id/location", requirePermissionOrScope(Permission.LOCATION_REPORT), async (req, res) => {
+    const ambulanceId = parseInt(req.params.id);
+    if (isNaN(ambulanceId)) {
+      return res.status(400).json({ message: "Invalid ambulance ID" });
+    }
+    const parsed = locationReportSchema.omit({ ambulanceId: true }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid location data", errors: parsed.error.errors });
+    }
+
+    try {
+      if (req.user) {
+        const crewUnits = await storage.getCrewAmbulanceIds(req.user.id);
+        if (!hasPermission(req.user.role, Permission.AMBULANCE_MANAGE) && !crewUnits.includes(ambulanceId)) {
+          return res.status(403).json({ message: "Not a crew member of this unit" });
+        }
+      } else if (req.apiToken?.ambulanceId !== ambulanceId) {
+        return res.status(403).json({ message: "This token belongs to another unit" });
+      }
+      if (!(await storage.getAmbulanceUnit(ambulanceId))) {
+        return res.status(404).json({ message: "Ambulance unit not found" });
+      }
+
+      await recordUnitLocation(ambulanceId, parsed.data, req.user?.id ?? null);
+      return res.status(201).json({ recorded: true });
+    } catch (error) {
+      console.error("Error recording unit location:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Bed counts from a facility's own system (a facility API token) or an admin
+  app.put("/api/facilities/:id/capacity", requirePermissionOrScope(Permission.FACILITY_CAPACITY_UPDATE), async (req, res) => {
+    const facilityId = parseInt(req.params.id);
+    if (isNaN(facilityId)) {
+      return res.status(400).json({ message: "Invalid facility ID" });
+    }
+    const parsed = facilityCapacitySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid capacity data", errors: parsed.error.errors });
+    }
+
+    try {
+      if (!req.user && req.apiToken?.facilityId !== facilityId) {
+        return res.status(403).json({ message: "This token belongs to another facility" });
+      }
+      const facility = await storage.updateFacilityCapacity(facilityId, parsed.data);
+      if (!facility) {
+        return res.status(404).json({ message: "Facility not found" });
+      }
+      return res.json(facility);
+    } catch (error) {
+      console.error("Error updating facility capacity:", error);
+      return res.status(500).json({ message: "Internal server error" });
     }
+  });
 
+  // Get all users (admin only)
+  app.get("/api/users", requirePermission(Permission.USER_VIEW_ALL), async (req, res) => {
     try {
       const users = await storage.getAllUsers();
       return res.json(users);
@@ -334,6 +850,71 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // The caller's settings page toggles, with defaults until they change one
+  app.get("/api/users/me/preferences", requirePermission(Permission.PROFILE_MANAGE_OWN), async (req, res) => {
+    try {
+      return res.json(await userPreferencesService.get(req.user!.id));
+    } catch (error) {
+      console.error("Error retrieving preferences:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/users/me/preferences", requirePermission(Permission.PROFILE_MANAGE_OWN), async (req, res) => {
+    const parsed = updateUserPreferencesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid preferences", errors: parsed.error.errors });
+    }
+    if (Object.keys(parsed.data).length === 0) {
+      return res.status(400).json({ message: "Nothing to update" });
+    }
+
+    try {
+      return res.json(await userPreferencesService.update(req.user!.id, parsed.data));
+    } catch (error) {
+      console.error("Error updating preferences:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Text a one-time code to the user's phone (or a new number they want to switch to)
+  app.post("/api/users/phone/verify/start", requirePermission(Permission.PROFILE_MANAGE_OWN), async (req, res) => {
+    const parsed = phoneVerificationStartSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid phone number", errors: parsed.error.errors });
+    }
+
+    try {
+      const { phone, expiresAt } = await phoneVerificationService.start(req.user!, parsed.data.phone);
+      return res.json({ message: `A verification code has been sent to ${phone}`, expiresAt });
+    } catch (error) {
+      if (error instanceof PhoneVerificationError) {
+        if (error.retryAfterSeconds) res.set("Retry-After", String(error.retryAfterSeconds));
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error starting phone verification:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/users/phone/verify/confirm", requirePermission(Permission.PROFILE_MANAGE_OWN), async (req, res) => {
+    const parsed = phoneVerificationConfirmSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid code", errors: parsed.error.errors });
+    }
+
+    try {
+      await phoneVerificationService.confirm(req.user!, parsed.data.code);
+      return res.json({ message: "Your phone number has been verified" });
+    } catch (error) {
+      if (error instanceof PhoneVerificationError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error confirming phone verification:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   app.post("/api/register", async (req, res, next) => {
     try {
       const existingUser = await storage.getUserByUsername(req.body.username);
@@ -398,11 +979,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Support routes
-  app.get("/api/support/agents", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Not authenticated" });
-    }
-
+  app.get("/api/support/agents", requirePermission(Permission.SUPPORT_CHAT), async (req, res) => {
     try {
       // Mock support agents data for now
       const agents = [
@@ -418,11 +995,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/support/chat", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Not authenticated" });
-    }
-
+  app.post("/api/support/chat", requirePermission(Permission.SUPPORT_CHAT), async (req, res) => {
     try {
       const { userId } = req.body;
       // Create a new chat session
@@ -440,11 +1013,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/support/chat/:sessionId/message", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Not authenticated" });
-    }
-
+  app.post("/api/support/chat/:sessionId/message", requirePermission(Permission.SUPPORT_CHAT), async (req, res) => {
     try {
       const { sessionId } = req.params;
       const { message } = req.body;
@@ -464,11 +1033,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Appointments routes
-  app.get("/api/checkups/slots", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Not authenticated" });
-    }
-
+  app.get("/api/checkups/slots", requirePermission(Permission.CHECKUP_MANAGE_OWN), async (req, res) => {
     try {
       const { hospitalId, date } = req.query;
       if (!hospitalId || !date) {
@@ -490,11 +1055,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/checkups/schedule", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Not authenticated" });
-    }
-
+  app.post("/api/checkups/schedule", requirePermission(Permission.CHECKUP_MANAGE_OWN), async (req, res) => {
     try {
       const { userId, hospitalId, date, timeSlot, reason } = req.body;
       if (!userId || !hospitalId || !date || !timeSlot || !reason) {
@@ -520,11 +1081,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/checkups/user/:userId", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Not authenticated" });
-    }
-
+  app.get("/api/checkups/user/:userId", requirePermission(Permission.CHECKUP_MANAGE_OWN), async (req, res) => {
     try {
       const { userId } = req.params;
       // Mock user's scheduled checkups
@@ -555,12 +1112,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get available resources
-  app.get("/api/resources/available", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Not authenticated" });
-    }
-
+  app.get("/api/resources/available", requirePermission(Permission.RESOURCE_VIEW), async (req, res) => {
     try {
+      // Optionally restrict to resources near a point
+      if (req.query.latitude !== undefined || req.query.longitude !== undefined) {
+        const nearby = parseNearbyQuery(req.query);
+        if ('error' in nearby) {
+          return res.status(400).json({ message: nearby.error });
+        }
+        return res.json(await storage.getNearbyAvailableResources(nearby.latitude, nearby.longitude, nearby));
+      }
+
       const resources = await storage.getAvailableResources();
       return res.json(resources);
     } catch (error) {
@@ -570,11 +1132,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get resource types
-  app.get("/api/resource-types", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Not authenticated" });
-    }
-
+  app.get("/api/resource-types", requirePermission(Permission.RESOURCE_VIEW), async (req, res) => {
     try {
       const types = await storage.getResourceTypes();
       return res.json(types);
@@ -585,11 +1143,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get emergency type resources
-  app.get("/api/emergency-type-resources", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Not authenticated" });
-    }
-
+  app.get("/api/emergency-type-resources", requirePermission(Permission.RESOURCE_VIEW), async (req, res) => {
     try {
       const mappings = await storage.getEmergencyTypeResources();
       return res.json(mappings);
@@ -600,11 +1154,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Assign resources to emergency
-  app.post("/api/emergencies/assign-resources", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Not authenticated" });
-    }
-
+  app.post("/api/emergencies/assign-resources", requirePermission(Permission.EMERGENCY_DISPATCH), async (req, res) => {
     try {
       const { emergencyId, resourceIds } = req.body;
       const assignments = await storage.assignResources(emergencyId, resourceIds);
@@ -617,7 +1167,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Admin routes
   // Admin User Management
-  app.get("/api/admin/users", isAdmin, async (req, res) => {
+  app.get("/api/admin/users", requirePermission(Permission.USER_VIEW_ALL), async (req, res) => {
     try {
       const users = await storage.getAllUsers();
       return res.json(users);
@@ -627,7 +1177,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/admin/users", isAdmin, async (req, res) => {
+  app.post("/api/admin/users", requirePermission(Permission.USER_MANAGE), async (req, res) => {
     try {
       // Validate required fields
       const { username, password, firstName, lastName, email, phone, role } = req.body;
@@ -647,6 +1197,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const user = await storage.createUser(req.body);
+      await auditService.record(auditContext(req), {
+        action: "user.created",
+        entityType: "user",
+        entityId: user.id,
+        after: user,
+      });
       return res.status(201).json(user);
     } catch (error) {
       console.error("Error creating user:", error);
@@ -654,13 +1210,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/admin/users/:id", isAdmin, async (req, res) => {
+  app.put("/api/admin/users/:id", requirePermission(Permission.USER_MANAGE), async (req, res) => {
     try {
       const userId = parseInt(req.params.id);
       if (isNaN(userId)) {
         return res.status(400).json({ message: "Invalid user ID" });
       }
+      const existing = await storage.getUser(userId);
+      if (!existing) {
+        return res.status(404).json({ message: "User not found" });
+      }
       const updatedUser = await storage.updateUser(userId, req.body);
+      await auditService.record(auditContext(req), {
+        action: "user.updated",
+        entityType: "user",
+        entityId: userId,
+        before: existing,
+        after: updatedUser,
+      });
       return res.json(updatedUser);
     } catch (error) {
       console.error("Error updating user:", error);
@@ -668,7 +1235,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/admin/users/:id", isAdmin, async (req, res) => {
+  app.delete("/api/admin/users/:id", requirePermission(Permission.USER_MANAGE), async (req, res) => {
     try {
       const userId = parseInt(req.params.id);
       if (isNaN(userId)) {
@@ -688,6 +1255,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       await storage.deleteUser(userId);
+      await auditService.record(auditContext(req), {
+        action: "user.deleted",
+        entityType: "user",
+        entityId: userId,
+        before: user,
+      });
       return res.json({ message: "User deleted successfully" });
     } catch (error) {
       console.error("Error deleting user:", error);
@@ -695,8 +1268,95 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Force-logout: end every session the user has, on every device
+  app.post("/api/admin/users/:id/logout", requirePermission(Permission.USER_MANAGE), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+      if (!(await storage.getUser(userId))) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const revoked = await sessionService.revokeAll(userId);
+      await auditService.record(auditContext(req), {
+        action: "user.sessions_revoked",
+        entityType: "user",
+        entityId: userId,
+        after: { revoked },
+      });
+      return res.json({ revoked });
+    } catch (error) {
+      console.error("Error revoking user sessions:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Accounts and addresses currently locked out after failed sign-ins
+  app.get("/api/admin/lockouts", requirePermission(Permission.USER_MANAGE), async (req, res) => {
+    try {
+      return res.json(await loginProtectionService.listLockouts());
+    } catch (error) {
+      console.error("Error retrieving lockouts:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/admin/users/:id/unlock", requirePermission(Permission.USER_MANAGE), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const unlocked = await loginProtectionService.unlock(user);
+      if (unlocked) {
+        await auditService.record(auditContext(req), {
+          action: "user.unlocked",
+          entityType: "user",
+          entityId: userId,
+        });
+      }
+      return res.json({ unlocked });
+    } catch (error) {
+      console.error("Error unlocking user:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // For a user who has lost both their authenticator and their recovery codes
+  app.post("/api/admin/users/:id/2fa/reset", requirePermission(Permission.USER_MANAGE), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+      if (!(await storage.getUser(userId))) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const reset = await twoFactorService.reset(userId);
+      if (reset) {
+        await auditService.record(auditContext(req), {
+          action: "user.two_factor_reset",
+          entityType: "user",
+          entityId: userId,
+        });
+      }
+      return res.json({ reset });
+    } catch (error) {
+      console.error("Error resetting two-factor:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // Admin Emergency Management
-  app.get("/api/admin/emergencies", isAdmin, async (req, res) => {
+  app.get("/api/admin/emergencies", requirePermission(Permission.EMERGENCY_VIEW_ALL), async (req, res) => {
     try {
       const emergencies = await storage.getAllEmergencies();
       return res.json(emergencies);
@@ -706,27 +1366,74 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/admin/emergencies/:id", isAdmin, async (req, res) => {
+  app.put("/api/admin/emergencies/:id", requirePermission(Permission.EMERGENCY_MANAGE), async (req, res) => {
     try {
       const emergencyId = parseInt(req.params.id);
       if (isNaN(emergencyId)) {
         return res.status(400).json({ message: "Invalid emergency ID" });
       }
-      const emergency = await storage.updateEmergency(emergencyId, req.body);
+      const existing = await storage.getEmergencyAlert(emergencyId);
+      if (!existing) {
+        return res.status(404).json({ message: "Emergency not found" });
+      }
+
+      if (req.body && "ambulanceId" in req.body) {
+        return res.status(400).json({ message: "Assign units through /api/emergencies/assign" });
+      }
+      const parsed = adminUpdateEmergencySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid emergency update", errors: parsed.error.errors });
+      }
+
+      // Status changes go through the lifecycle so they are validated and recorded
+      const { status, reason, ...changes } = parsed.data;
+      const emergency = status && status !== existing.status
+        ? await storage.transitionEmergencyStatus(emergencyId, status, {
+            actorId: req.user?.id,
+            reason,
+            changes,
+            origin: requestOrigin(req)
+          })
+        : await storage.updateEmergency(emergencyId, changes);
+      // Transitions audit themselves inside their transaction
+      if (emergency.status === existing.status) {
+        await auditService.record(auditContext(req), {
+          action: "emergency.updated",
+          entityType: "emergency",
+          entityId: emergencyId,
+          before: existing,
+          after: emergency,
+        });
+      }
+      await realtimeService.publishStatusChange(emergency, existing.status);
+      try {
+        await contactAlertService.onStatusChange(emergency, existing.status);
+      } catch (contactError) {
+        console.error('Failed to notify emergency contacts:', contactError);
+      }
       return res.json(emergency);
     } catch (error) {
+      if (error instanceof InvalidTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
       console.error("Error updating emergency:", error);
       return res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.post("/api/admin/emergencies/:id/assign-resources", isAdmin, async (req, res) => {
+  app.post("/api/admin/emergencies/:id/assign-resources", requirePermission(Permission.EMERGENCY_DISPATCH), async (req, res) => {
     try {
       const emergencyId = parseInt(req.params.id);
       if (isNaN(emergencyId)) {
         return res.status(400).json({ message: "Invalid emergency ID" });
       }
       const assignments = await storage.assignResources(emergencyId, req.body.resourceIds);
+      await auditService.record(auditContext(req), {
+        action: "emergency.resources_assigned",
+        entityType: "emergency",
+        entityId: emergencyId,
+        after: { resourceIds: req.body.resourceIds },
+      });
       return res.json(assignments);
     } catch (error) {
       console.error("Error assigning resources:", error);
@@ -734,8 +1441,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Set the response team members staffing an ambulance unit
+  app.put("/api/admin/ambulances/:id/crew", requirePermission(Permission.AMBULANCE_MANAGE), async (req, res) => {
+    try {
+      const ambulanceId = parseInt(req.params.id);
+      if (isNaN(ambulanceId)) {
+        return res.status(400).json({ message: "Invalid ambulance ID" });
+      }
+
+      const { userIds } = req.body;
+      if (!Array.isArray(userIds) || userIds.some((id) => typeof id !== 'number')) {
+        return res.status(400).json({ message: "userIds must be an array of user IDs" });
+      }
+
+      if (!(await storage.getAmbulanceUnit(ambulanceId))) {
+        return res.status(404).json({ message: "Ambulance unit not found" });
+      }
+
+      const previousCrew = await storage.getAmbulanceCrew(ambulanceId);
+      await storage.setAmbulanceCrew(ambulanceId, userIds);
+      await auditService.record(auditContext(req), {
+        action: "ambulance.crew_set",
+        entityType: "ambulance",
+        entityId: ambulanceId,
+        before: { userIds: previousCrew },
+        after: { userIds },
+      });
+      return res.json({ ambulanceId, userIds });
+    } catch (error) {
+      console.error("Error updating ambulance crew:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // Admin Facility Management
-  app.get("/api/admin/facilities", isAdmin, async (req, res) => {
+  app.get("/api/admin/facilities", requirePermission(Permission.FACILITY_MANAGE), async (req, res) => {
     try {
       const facilities = await storage.getAllFacilities();
       return res.json(facilities);
@@ -745,7 +1485,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/admin/facilities", isAdmin, async (req, res) => {
+  app.post("/api/admin/facilities", requirePermission(Permission.FACILITY_MANAGE), async (req, res) => {
     try {
       // Validate required fields
       const { name, address, capacity, type, latitude, longitude } = req.body;
@@ -764,6 +1504,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const facility = await storage.createFacility(req.body);
+      await auditService.record(auditContext(req), {
+        action: "facility.created",
+        entityType: "facility",
+        entityId: facility.id,
+        after: facility,
+      });
       return res.status(201).json(facility);
     } catch (error) {
       console.error("Error creating facility:", error);
@@ -771,13 +1517,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/admin/facilities/:id", isAdmin, async (req, res) => {
+  app.put("/api/admin/facilities/:id", requirePermission(Permission.FACILITY_MANAGE), async (req, res) => {
     try {
       const facilityId = parseInt(req.params.id);
       if (isNaN(facilityId)) {
         return res.status(400).json({ message: "Invalid facility ID" });
       }
+      const existing = await storage.getFacility(facilityId);
+      if (!existing) {
+        return res.status(404).json({ message: "Facility not found" });
+      }
       const updatedFacility = await storage.updateFacility(facilityId, req.body);
+      await auditService.record(auditContext(req), {
+        action: "facility.updated",
+        entityType: "facility",
+        entityId: facilityId,
+        before: existing,
+        after: updatedFacility,
+      });
       return res.json(updatedFacility);
     } catch (error) {
       console.error("Error updating facility:", error);
@@ -785,13 +1542,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/admin/facilities/:id", isAdmin, async (req, res) => {
+  app.delete("/api/admin/facilities/:id", requirePermission(Permission.FACILITY_MANAGE), async (req, res) => {
     try {
       const facilityId = parseInt(req.params.id);
       if (isNaN(facilityId)) {
         return res.status(400).json({ message: "Invalid facility ID" });
       }
+      const existing = await storage.getFacility(facilityId);
+      if (!existing) {
+        return res.status(404).json({ message: "Facility not found" });
+      }
       await storage.deleteFacility(facilityId);
+      await auditService.record(auditContext(req), {
+        action: "facility.deleted",
+        entityType: "facility",
+        entityId: facilityId,
+        before: existing,
+      });
       return res.json({ message: "Facility deleted successfully" });
     } catch (error) {
       console.error("Error deleting facility:", error);
@@ -799,8 +1566,133 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Import a facility export sent as text/csv or application/geo+json; ?dryRun=true returns the diff without writing.
+  // application/json is left to the global JSON parser and its size limit, so GeoJSON must use its own type.
+  app.post(
+    "/api/admin/facilities/import",
+    requirePermission(Permission.FACILITY_MANAGE),
+    express.text({ type: ["text/csv", "text/plain", "application/geo+json"], limit: "25mb" }),
+    async (req, res) => {
+      try {
+        if (req.is("application/json")) {
+          return res.status(415).json({ message: "Send GeoJSON files as application/geo+json" });
+        }
+        if (typeof req.body !== "string" || req.body.trim() === "") {
+          return res.status(400).json({ message: "Request body must be a CSV or GeoJSON file" });
+        }
+
+        const source = typeof req.query.source === "string" && req.query.source.trim()
+          ? req.query.source.trim()
+          : "file";
+        if (source === "manual" || source === "google_places") {
+          return res.status(400).json({ message: `Source "${source}" is reserved` });
+        }
+
+        let parsed;
+        try {
+          parsed = parseFacilityFile(req.body);
+        } catch (error) {
+          return res.status(400).json({ message: error instanceof Error ? error.message : "Unreadable facility file" });
+        }
+
+        const report = await facilitySyncService.applyRecords(parsed.records, source, {
+          dryRun: req.query.dryRun === "true",
+          reportMissing: true,
+          skipped: parsed.skipped,
+        });
+        if (!report.dryRun) {
+          await auditService.record(auditContext(req), {
+            action: "facility.imported",
+            entityType: "facility",
+            after: {
+              source,
+              created: report.created.length,
+              updated: report.updated.map(({ id }) => id),
+              skipped: report.skipped.length,
+            },
+          });
+        }
+        return res.json(report);
+      } catch (error) {
+        console.error("Error importing facilities:", error);
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+
+  // API tokens
+  app.get("/api/admin/api-tokens", requirePermission(Permission.API_TOKEN_MANAGE), async (req, res) => {
+    try {
+      return res.json(await apiTokenService.list());
+    } catch (error) {
+      console.error("Error retrieving API tokens:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // The token itself is in this response only
+  app.post("/api/admin/api-tokens", requirePermission(Permission.API_TOKEN_MANAGE), async (req, res) => {
+    const parsed = createApiTokenSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid token data", errors: parsed.error.errors });
+    }
+
+    try {
+      return res.status(201).json(await apiTokenService.create(parsed.data, auditContext(req)));
+    } catch (error) {
+      if (error instanceof ApiTokenError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error creating API token:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/admin/api-tokens/:id", requirePermission(Permission.API_TOKEN_MANAGE), async (req, res) => {
+    try {
+      const tokenId = parseInt(req.params.id);
+      if (isNaN(tokenId)) {
+        return res.status(400).json({ message: "Invalid token ID" });
+      }
+      return res.json(await apiTokenService.revoke(tokenId, auditContext(req)));
+    } catch (error) {
+      if (error instanceof ApiTokenError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error revoking API token:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Admin Audit Log
+  app.get("/api/admin/audit", requirePermission(Permission.AUDIT_VIEW), async (req, res) => {
+    try {
+      const parsed = auditEventFiltersSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid filters", errors: parsed.error.errors });
+      }
+
+      const events = await auditService.list(parsed.data);
+      const nextBeforeId = events.length === parsed.data.limit ? events[events.length - 1].id : null;
+      return res.json({ events, nextBeforeId });
+    } catch (error) {
+      console.error("Error retrieving audit events:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Recompute the hash chain to detect edited or deleted events
+  app.get("/api/admin/audit/verify", requirePermission(Permission.AUDIT_VIEW), async (req, res) => {
+    try {
+      return res.json(await auditService.verify());
+    } catch (error) {
+      console.error("Error verifying audit chain:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // Admin Analytics
-  app.get("/api/admin/analytics", isAdmin, async (req, res) => {
+  app.get("/api/admin/analytics", requirePermission(Permission.ANALYTICS_VIEW), async (req, res) => {
     try {
       const analytics = await storage.getSystemAnalytics();
       return res.json(analytics);
@@ -820,13 +1712,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Add test email endpoint
-  app.post("/api/test-email", isAdmin, async (req, res) => {
+  app.post("/api/test-email", requirePermission(Permission.SYSTEM_MANAGE), async (req, res) => {
     try {
       const { email } = req.body;
       if (!email) {
         return res.status(400).json({ message: "Email is required" });
       }
-      await emailService.sendTestEmail(email);
+      await notificationService.sendTestEmail(email);
       return res.json({ message: "Test email sent successfully" });
     } catch (error) {
       console.error("Error sending test email:", error);
@@ -837,14 +1729,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Create HTTP server
   const httpServer = createServer(app);
 
-  // Set up WebSocket server
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
-
-  // Keep track of connected clients
-  const clients = new Map();
-
-  wss.on('connection', (ws, req) => {
-    console.log('WebSocket client connected');
+  // Set up WebSocket server; identity always comes from the session
+  realtimeService.attach(httpServer, sessionParser, (ws, user) => {
+    console.log(`WebSocket client connected (user ${user.id})`);
     
     // Set up ping-pong to keep connection alive
     const pingInterval = setInterval(() => {
@@ -853,86 +1740,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
     }, 30000);
 
-    ws.on('message', async (message) => {
-      try {
-        const data = JSON.parse(message.toString());
-        
-        // Validate message structure
-        if (!data.type || !data.id) {
-          throw new Error('Invalid message format');
-        }
-
-        // Handle location updates
-        if (data.type === 'location_update') {
-          if (!data.latitude || !data.longitude) {
-            throw new Error('Invalid location data');
-          }
+    ws.on('message', async (raw) => {
+      const parsed = parseClientMessage(raw.toString());
+      if (!parsed.success) {
+        realtimeService.send(ws, createServerMessage('error', parsed.error));
+        return;
+      }
 
-          // Store location update in database
-          await storage.createLocationUpdate({
-            userId: data.id,
-            latitude: data.latitude.toString(),
-            longitude: data.longitude.toString(),
-            accuracy: data.accuracy?.toString(),
-            timestamp: new Date(),
-            source: data.role || 'user'
-          });
+      const { id: replyTo, ...message } = parsed.message;
+      const reject = (code: WsErrorCode, text: string) =>
+        realtimeService.send(ws, createServerMessage('error', { code, message: text, replyTo }));
 
-          // Broadcast to relevant clients (e.g., emergency responders)
-          wss.clients.forEach((client) => {
-            if (client !== ws && client.readyState === WebSocket.OPEN) {
-              client.send(JSON.stringify({
-                type: 'location_update',
-                data: {
-                  id: data.id,
-                  latitude: data.latitude,
-                  longitude: data.longitude,
-                  accuracy: data.accuracy,
-                  role: data.role,
-                  timestamp: Date.now()
-                }
-              }));
+      try {
+        switch (message.type) {
+          case 'location_update': {
+            const data = message.data;
+
+            // Ambulance crews report the unit position, which moves its ETA
+            if (data.ambulanceId) {
+              const crewUnits = await storage.getCrewAmbulanceIds(user.id);
+              if (!hasPermission(user.role, Permission.AMBULANCE_MANAGE) && !crewUnits.includes(data.ambulanceId)) {
+                return reject(WsErrorCode.FORBIDDEN, 'Not a crew member of this unit');
+              }
+
+              await recordUnitLocation(data.ambulanceId, data, user.id, ws);
+              break;
             }
-          });
-        }
 
-        // Handle emergency broadcasts
-        if (data.type === 'emergency_broadcast') {
-          // Validate emergency data
-          if (!data.userId || !data.location) {
-            throw new Error('Invalid emergency data');
+            await recordUserLocation(user, data, ws);
+            break;
           }
 
-          // Store emergency in database
-          const emergency = await storage.createEmergencyAlert({
-            userId: data.userId,
-            latitude: data.location.latitude.toString(),
-            longitude: data.location.longitude.toString(),
-            accuracy: data.location.accuracy?.toString(),
-            emergencyType: data.type,
-            description: data.description || '',
-            priority: data.severity || 'medium'
-          });
-
-          // Broadcast emergency to response teams
-          wss.clients.forEach((client) => {
-            if (client.readyState === WebSocket.OPEN) {
-              client.send(JSON.stringify({
-                type: 'emergency_broadcast',
-                data: emergency
-              }));
+          case 'emergency_broadcast': {
+            // Fan out the persisted alert; creation only happens over HTTP
+            const emergency = await storage.getEmergencyAlert(message.data.emergencyId);
+            if (!emergency) {
+              return reject(WsErrorCode.INVALID_MESSAGE, 'Emergency not found');
             }
-          });
+            if (emergency.userId !== user.id && !hasPermission(user.role, Permission.EMERGENCY_VIEW_ALL)) {
+              return reject(WsErrorCode.FORBIDDEN, 'Not allowed to announce this emergency');
+            }
+
+            await realtimeService.publishToEmergency(emergency, createServerMessage('emergency_broadcast', emergency));
+            break;
+          }
         }
+
+        realtimeService.send(ws, createServerMessage('ack', { replyTo }));
       } catch (error) {
         console.error('WebSocket message error:', error);
-        // Send error back to client
-        if (ws.readyState === WebSocket.OPEN) {
-          ws.send(JSON.stringify({
-            type: 'error',
-            message: error instanceof Error ? error.message : 'Unknown error occurred'
-          }));
-        }
+        reject(WsErrorCode.INTERNAL, 'Failed to process message');
       }
     });
 
@@ -948,4 +1805,4 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   return httpServer;
-}
\ No newline at end of file
+}
@@ -0,0 +1,173 @@
+import type { ApiToken, ApiTokenOwnerType, CreateApiToken, User } from '@shared/schema';
+import { Permission, UNIT_TOKEN_SCOPES, getPermissions } from '@shared/permissions';
+import { storage } from '../storage';
+import { createToken, hashToken } from '../tokens';
+import { auditService, type AuditContext } from './auditService';
+
+export class ApiTokenError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ApiTokenError';
+  }
+}
+
+export interface ApiTokenSummary {
+  id: number;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  ownerType: ApiTokenOwnerType;
+  ownerId: number;
+  ownerName: string;
+  createdById: number | null;
+  expiresAt: Date;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+// Makes leaked tokens easy to recognise in logs and secret scanners
+const TOKEN_PREFIX = 'mt_';
+const DISPLAY_PREFIX_LENGTH = 11;
+
+// lastUsedAt is only rewritten when it is older than this, as with sessions
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+const KNOWN_SCOPES: readonly string[] = Object.values(Permission);
+
+function ownerOf(token: ApiToken): { ownerType: ApiTokenOwnerType; ownerId: number } {
+  if (token.facilityId) return { ownerType: 'facility', ownerId: token.facilityId };
+  if (token.ambulanceId) return { ownerType: 'ambulance', ownerId: token.ambulanceId };
+  return { ownerType: 'user', ownerId: token.userId! };
+}
+
+async function ownerName(ownerType: ApiTokenOwnerType, ownerId: number): Promise<string | undefined> {
+  switch (ownerType) {
+    case 'user':
+      return (await storage.getUser(ownerId))?.username;
+    case 'facility':
+      return (await storage.getFacility(ownerId))?.name;
+    case 'ambulance':
+      return (await storage.getAmbulanceUnit(ownerId))?.name;
+  }
+}
+
+async function summarize(token: ApiToken): Promise<ApiTokenSummary> {
+  const { ownerType, ownerId } = ownerOf(token);
+  return {
+    id: token.id,
+    name: token.name,
+    prefix: token.prefix,
+    scopes: token.scopes,
+    ownerType,
+    ownerId,
+    ownerName: (await ownerName(ownerType, ownerId)) ?? `#${ownerId}`,
+    createdById: token.createdById,
+    expiresAt: token.expiresAt,
+    lastUsedAt: token.lastUsedAt,
+    revokedAt: token.revokedAt,
+    createdAt: token.createdAt,
+  };
+}
+
+// Scopes the owner could be granted at all: a user's own permissions, or the fixed unit list
+async function grantableScopes(ownerType: ApiTokenOwnerType, ownerId: number): Promise<readonly string[]> {
+  if (ownerType === 'user') {
+    const user = await storage.getUser(ownerId);
+    if (!user) throw new ApiTokenError(404, 'User not found');
+    return getPermissions(user.role);
+  }
+  if (!(await ownerName(ownerType, ownerId))) {
+    throw new ApiTokenError(404, ownerType === 'facility' ? 'Facility not found' : 'Ambulance unit not found');
+  }
+  return UNIT_TOKEN_SCOPES[ownerType];
+}
+
+export const apiTokenService = {
+  /**
+   * The live token behind a bearer credential, with its owning user for user
+   * tokens. Null for anything unknown, expired or revoked.
+   */
+  async authenticate(credential: string): Promise<{ token: ApiToken; user?: User } | null> {
+    if (!credential.startsWith(TOKEN_PREFIX)) return null;
+
+    const token = await storage.getApiTokenByHash(hashToken(credential));
+    if (!token || token.revokedAt || token.expiresAt <= new Date()) return null;
+
+    let user: User | undefined;
+    if (token.userId) {
+      user = await storage.getUser(token.userId);
+      if (!user) return null;
+    }
+
+    if (!token.lastUsedAt || Date.now() - token.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      await storage.touchApiToken(token.id);
+    }
+    return { token, user };
+  },
+
+  /**
+   * Mint a token. The plain value is returned this once and never stored.
+   */
+  async create(data: CreateApiToken, context: AuditContext): Promise<{ token: string; apiToken: ApiTokenSummary }> {
+    const unknown = data.scopes.find(scope => !KNOWN_SCOPES.includes(scope));
+    if (unknown) {
+      throw new ApiTokenError(400, `Unknown scope: ${unknown}`);
+    }
+    const grantable = await grantableScopes(data.ownerType, data.ownerId);
+    const denied = data.scopes.find(scope => !grantable.includes(scope));
+    if (denied) {
+      throw new ApiTokenError(400, `A ${data.ownerType} token cannot be given ${denied}`);
+    }
+
+    const token = `${TOKEN_PREFIX}${createToken().token}`;
+    const created = await storage.createApiToken({
+      name: data.name,
+      tokenHash: hashToken(token),
+      prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+      scopes: Array.from(new Set(data.scopes)),
+      userId: data.ownerType === 'user' ? data.ownerId : null,
+      facilityId: data.ownerType === 'facility' ? data.ownerId : null,
+      ambulanceId: data.ownerType === 'ambulance' ? data.ownerId : null,
+      createdById: context.actorId,
+      expiresAt: new Date(Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000),
+    });
+
+    const apiToken = await summarize(created);
+    await auditService.record(context, {
+      action: 'api_token.created',
+      entityType: 'api_token',
+      entityId: created.id,
+      after: {
+        name: apiToken.name,
+        ownerType: apiToken.ownerType,
+        ownerId: apiToken.ownerId,
+        scopes: apiToken.scopes,
+        expiresAt: apiToken.expiresAt,
+      },
+    });
+    return { token, apiToken };
+  },
+
+  async list(): Promise<ApiTokenSummary[]> {
+    const tokens = await storage.getApiTokens();
+    return await Promise.all(tokens.map(summarize));
+  },
+
+  async revoke(id: number, context: AuditContext): Promise<ApiTokenSummary> {
+    const revoked = await storage.revokeApiToken(id);
+    if (!revoked) {
+      const existing = await storage.getApiToken(id);
+      throw existing
+        ? new ApiTokenError(400, 'Token is already revoked')
+        : new ApiTokenError(404, 'Token not found');
+    }
+
+    await auditService.record(context, {
+      action: 'api_token.revoked',
+      entityType: 'api_token',
+      entityId: id,
+    });
+    return await summarize(revoked);
+  },
+};
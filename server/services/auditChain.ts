@@ -0,0 +1,110 @@
+import { createHash } from 'crypto';
+import type { AuditEvent } from '@shared/schema';
+
+// An audit event before it is chained, as recorded by the audit service or storage
+export interface AuditEntry {
+  actorId: number | null;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+}
+
+// Who did something and from where; actorId is null for system actions
+export interface AuditContext {
+  actorId: number | null;
+  ip: string | null;
+  userAgent: string | null;
+}
+
+export type RequestOrigin = Pick<AuditContext, 'ip' | 'userAgent'>;
+
+// Never copied into the log, even as a diff
+const REDACTED_FIELDS = new Set(['password', 'verificationToken', 'resetToken', 'codeHash', 'tokenHash']);
+
+// JSON round trip so values hash the same before and after a trip through jsonb
+function toJsonRecord(record: object | null | undefined): Record<string, unknown> | null {
+  return record ? JSON.parse(JSON.stringify(record)) : null;
+}
+
+// Redacted fields still show up when they change, just without their values
+function redact(record: Record<string, unknown> | null): Record<string, unknown> | null {
+  if (!record) return null;
+  return Object.fromEntries(Object.entries(record).map(([key, value]) =>
+    [key, REDACTED_FIELDS.has(key) && value != null ? '[redacted]' : value]
+  ));
+}
+
+/**
+ * Reduce a before/after pair to the fields that changed. Creations keep the
+ * whole new record and deletions the whole old one.
+ */
+export function diffRecords(before: object | null | undefined, after: object | null | undefined) {
+  const from = toJsonRecord(before);
+  const to = toJsonRecord(after);
+  if (!from || !to) return { before: redact(from), after: redact(to) };
+
+  const changedFrom: Record<string, unknown> = {};
+  const changedTo: Record<string, unknown> = {};
+  // Partial updates only describe the fields they touch, so keys come from the new side
+  for (const key of Object.keys(to)) {
+    if (JSON.stringify(from[key] ?? null) === JSON.stringify(to[key] ?? null)) continue;
+    changedFrom[key] = from[key] ?? null;
+    changedTo[key] = to[key] ?? null;
+  }
+  return { before: redact(changedFrom), after: redact(changedTo) };
+}
+
+// jsonb does not keep key order, so objects are hashed with sorted keys
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value).sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function hashAuditEntry(prevHash: string | null, entry: AuditEntry): string {
+  return createHash('sha256')
+    .update(canonicalJson({
+      prevHash,
+      actorId: entry.actorId,
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      before: entry.before,
+      after: entry.after,
+      ip: entry.ip,
+      userAgent: entry.userAgent,
+      createdAt: entry.createdAt.toISOString(),
+    }))
+    .digest('hex');
+}
+
+/**
+ * Walk stored events in id order. Returns the id of the first event whose
+ * link or hash does not match, or null when the run is intact.
+ */
+export function findBrokenLink(events: AuditEvent[], prevHash: string | null): number | null {
+  let expectedPrev = prevHash;
+  for (const event of events) {
+    const entry: AuditEntry = {
+      ...event,
+      before: event.before as Record<string, unknown> | null,
+      after: event.after as Record<string, unknown> | null,
+    };
+    if (event.prevHash !== expectedPrev || hashAuditEntry(event.prevHash, entry) !== event.hash) {
+      return event.id;
+    }
+    expectedPrev = event.hash;
+  }
+  return null;
+}
@@ -0,0 +1,84 @@
+import type { Request } from 'express';
+import type { AuditEvent, AuditEventFilters } from '@shared/schema';
+import { storage } from '../storage';
+import { diffRecords, findBrokenLink, type AuditContext, type RequestOrigin } from './auditChain';
+
+export type { AuditContext } from './auditChain';
+
+// Chain verification reads the log in pages of this size
+const VERIFY_BATCH_SIZE = 1000;
+
+export interface AuditRecord {
+  action: string;
+  entityType: string;
+  entityId?: string | number | null;
+  // Full records; only the fields that differ are stored
+  before?: object | null;
+  after?: object | null;
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  checked: number;
+  // First event whose link or hash does not match
+  brokenAt: number | null;
+}
+
+export function requestOrigin(req: Request): RequestOrigin {
+  return {
+    ip: req.ip ?? null,
+    userAgent: req.get('user-agent') ?? null,
+  };
+}
+
+export function auditContext(req: Request): AuditContext {
+  return { actorId: req.user?.id ?? null, ...requestOrigin(req) };
+}
+
+export const auditService = {
+  /**
+   * Append an event for a change that has already been made. A failed write
+   * is logged rather than thrown so it never undoes the caller's response.
+   */
+  async record(context: AuditContext, record: AuditRecord): Promise<AuditEvent | undefined> {
+    try {
+      return await storage.appendAuditEvent({
+        ...context,
+        action: record.action,
+        entityType: record.entityType,
+        entityId: record.entityId == null ? null : String(record.entityId),
+        ...diffRecords(record.before, record.after),
+        createdAt: new Date(),
+      });
+    } catch (error) {
+      console.error(`Failed to record audit event ${record.action}:`, error);
+      return undefined;
+    }
+  },
+
+  async list(filters: AuditEventFilters): Promise<AuditEvent[]> {
+    return await storage.getAuditEvents(filters);
+  },
+
+  // Recompute every hash from the first event onwards
+  async verify(): Promise<ChainVerification> {
+    let checked = 0;
+    let afterId = 0;
+    let prevHash: string | null = null;
+
+    while (true) {
+      const batch = await storage.getAuditEventsAfter(afterId, VERIFY_BATCH_SIZE);
+      if (batch.length === 0) break;
+
+      const brokenAt = findBrokenLink(batch, prevHash);
+      if (brokenAt !== null) {
+        return { valid: false, checked: checked + batch.findIndex(event => event.id === brokenAt), brokenAt };
+      }
+
+      checked += batch.length;
+      afterId = batch[batch.length - 1].id;
+      prevHash = batch[batch.length - 1].hash;
+    }
+    return { valid: true, checked, brokenAt: null };
+  },
+};
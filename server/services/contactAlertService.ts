@@ -0,0 +1,68 @@
+import { EmergencyStatus, type EmergencyAlert, type EmergencyContact, type User } from '@shared/schema';
+import { storage } from '../storage';
+import { etaService } from './etaService';
+import { notificationService } from './notificationService';
+import { coarseLocation, trackingLinkService } from './trackingLinkService';
+
+const displayName = (user: User) => [user.firstName, user.lastName].filter(Boolean).join(' ') || user.username;
+
+// The reporter and the contacts they want texted, or nothing to do
+async function loadAudience(emergency: EmergencyAlert): Promise<{ reporter: User; contacts: EmergencyContact[] } | null> {
+  const reporter = await storage.getUser(emergency.userId);
+  if (!reporter) return null;
+  const contacts = (await storage.getEmergencyContactsByUserId(reporter.id))
+    .filter(contact => contact.notifyOnEmergency);
+  return contacts.length > 0 ? { reporter, contacts } : null;
+}
+
+export const contactAlertService = {
+  /**
+   * Text each opted-in contact of the reporter about a new alert, with a
+   * tracking link of their own so any one can be revoked without the others
+   */
+  async alertContacts(emergency: EmergencyAlert): Promise<void> {
+    const audience = await loadAudience(emergency);
+    if (!audience) return;
+
+    const { latitude, longitude } = coarseLocation(emergency.latitude, emergency.longitude);
+    for (const contact of audience.contacts) {
+      const { url } = await trackingLinkService.create(emergency, { contactId: contact.id });
+      await notificationService.send('contactEmergencyAlert', {
+        reporterName: displayName(audience.reporter),
+        emergencyType: emergency.emergencyType,
+        status: emergency.status,
+        latitude,
+        longitude,
+        trackingUrl: url,
+      }, [{ channel: 'sms', recipient: contact.phone }], { emergencyId: emergency.id });
+    }
+  },
+
+  /**
+   * Follow-up texts once a unit is dispatched and when the emergency closes
+   */
+  async onStatusChange(emergency: EmergencyAlert, previousStatus: string | null): Promise<void> {
+    if (emergency.status === previousStatus) return;
+    const closed = emergency.status === EmergencyStatus.RESOLVED || emergency.status === EmergencyStatus.CANCELLED;
+    if (emergency.status !== EmergencyStatus.DISPATCHED && !closed) return;
+
+    const audience = await loadAudience(emergency);
+    if (!audience) return;
+
+    const deliveries = audience.contacts.map(contact => ({ channel: 'sms' as const, recipient: contact.phone }));
+    const reporterName = displayName(audience.reporter);
+    if (closed) {
+      await notificationService.send('contactEmergencyClosed', { reporterName, status: emergency.status }, deliveries, {
+        emergencyId: emergency.id,
+      });
+      return;
+    }
+
+    const unit = emergency.ambulanceId ? await storage.getAmbulanceUnit(emergency.ambulanceId) : undefined;
+    await notificationService.send('contactEmergencyDispatched', {
+      reporterName,
+      unitName: unit?.name,
+      estimatedArrivalTime: emergency.etaSeconds != null ? etaService.formatEta(emergency.etaSeconds) : undefined,
+    }, deliveries, { emergencyId: emergency.id });
+  },
+};
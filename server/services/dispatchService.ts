@@ -0,0 +1,162 @@
+import type { AmbulanceUnit, EmergencyAlert } from '@shared/schema';
+import type { RequestOrigin } from './auditChain';
+import { calculateDistance } from '../../client/src/hooks/use-maps';
+import { storage } from '../storage';
+import { config } from '../config';
+import { contactAlertService } from './contactAlertService';
+import { etaService } from './etaService';
+import { realtimeService } from './realtimeService';
+
+export interface DispatchCandidate {
+  ambulance: AmbulanceUnit;
+  eligible: boolean;
+  score: number;
+  distanceKm: number | null;
+  positionAgeMinutes: number | null;
+  rationale: string[];
+}
+
+// How far we are willing to look and how old a position may be, per alert priority
+const PRIORITY_PROFILES: Record<string, { maxDistanceKm: number; maxPositionAgeMinutes: number }> = {
+  high: { maxDistanceKm: 50, maxPositionAgeMinutes: 15 },
+  medium: { maxDistanceKm: 30, maxPositionAgeMinutes: 30 },
+  low: { maxDistanceKm: 20, maxPositionAgeMinutes: 60 },
+};
+
+// Score weights, summing to 100
+const DISTANCE_WEIGHT = 60;
+const FRESHNESS_WEIGHT = 25;
+const STATUS_WEIGHT = 15;
+
+// Positions younger than this count as live
+const LIVE_POSITION_MINUTES = 2;
+
+function scoreCandidate(emergency: EmergencyAlert, unit: AmbulanceUnit, now: Date): DispatchCandidate {
+  const profile = PRIORITY_PROFILES[emergency.priority] ?? PRIORITY_PROFILES.medium;
+  const rationale: string[] = [];
+  let eligible = true;
+
+  if (unit.status === 'available') {
+    rationale.push('Unit is available');
+  } else {
+    eligible = false;
+    rationale.push(`Unit is ${unit.status}`);
+  }
+
+  let distanceKm: number | null = null;
+  if (unit.latitude && unit.longitude) {
+    distanceKm = calculateDistance(
+      parseFloat(emergency.latitude),
+      parseFloat(emergency.longitude),
+      parseFloat(unit.latitude),
+      parseFloat(unit.longitude)
+    );
+    if (distanceKm > profile.maxDistanceKm) {
+      eligible = false;
+      rationale.push(`${distanceKm.toFixed(1)} km away, beyond the ${profile.maxDistanceKm} km limit for ${emergency.priority} priority`);
+    } else {
+      rationale.push(`${distanceKm.toFixed(1)} km from the incident`);
+    }
+  } else {
+    eligible = false;
+    rationale.push('No known position');
+  }
+
+  let positionAgeMinutes: number | null = null;
+  if (unit.lastLocationUpdate) {
+    positionAgeMinutes = (now.getTime() - new Date(unit.lastLocationUpdate).getTime()) / 60000;
+    if (positionAgeMinutes <= LIVE_POSITION_MINUTES) {
+      rationale.push('Position is live');
+    } else if (positionAgeMinutes <= profile.maxPositionAgeMinutes) {
+      rationale.push(`Position is ${Math.round(positionAgeMinutes)} min old`);
+    } else {
+      rationale.push(`Position is stale (${Math.round(positionAgeMinutes)} min old)`);
+    }
+  } else {
+    rationale.push('Position age unknown');
+  }
+
+  const distanceScore = distanceKm === null
+    ? 0
+    : Math.max(0, 1 - distanceKm / profile.maxDistanceKm) * DISTANCE_WEIGHT;
+  const freshnessScore = positionAgeMinutes === null
+    ? 0
+    : positionAgeMinutes <= LIVE_POSITION_MINUTES
+      ? FRESHNESS_WEIGHT
+      : Math.max(0, 1 - positionAgeMinutes / profile.maxPositionAgeMinutes) * FRESHNESS_WEIGHT;
+  const statusScore = unit.status === 'available' ? STATUS_WEIGHT : 0;
+
+  return {
+    ambulance: unit,
+    eligible,
+    score: Math.round(distanceScore + freshnessScore + statusScore),
+    distanceKm: distanceKm === null ? null : Math.round(distanceKm * 100) / 100,
+    positionAgeMinutes: positionAgeMinutes === null ? null : Math.round(positionAgeMinutes),
+    rationale,
+  };
+}
+
+export const dispatchService = {
+  /**
+   * Rank units for an alert, eligible units first and best score first
+   */
+  rankCandidates(emergency: EmergencyAlert, units: AmbulanceUnit[], now: Date = new Date()): DispatchCandidate[] {
+    return units
+      .map(unit => scoreCandidate(emergency, unit, now))
+      .sort((a, b) => Number(b.eligible) - Number(a.eligible) || b.score - a.score);
+  },
+
+  async getCandidates(emergency: EmergencyAlert): Promise<DispatchCandidate[]> {
+    const units = await storage.getAmbulanceUnits();
+    return this.rankCandidates(emergency, units);
+  },
+
+  /**
+   * Assign a unit and start tracking its ETA. Returns the updated alert.
+   */
+  async assign(
+    emergencyId: number,
+    ambulanceId: number,
+    actorId?: number,
+    origin?: RequestOrigin
+  ): Promise<EmergencyAlert> {
+    const previous = await storage.getEmergencyAlert(emergencyId);
+    const emergency = await storage.assignAmbulance(emergencyId, ambulanceId, actorId, origin);
+
+    try {
+      await etaService.onUnitAssigned(emergency);
+    } catch (etaError) {
+      console.error('Failed to compute ETA:', etaError);
+      // The assignment stands without an estimate
+    }
+
+    const updated = (await storage.getEmergencyAlert(emergencyId)) ?? emergency;
+    try {
+      await realtimeService.publishStatusChange(updated, previous?.status ?? null);
+    } catch (publishError) {
+      console.error('Failed to publish status change:', publishError);
+    }
+    try {
+      await contactAlertService.onStatusChange(updated, previous?.status ?? null);
+    } catch (contactError) {
+      console.error('Failed to notify emergency contacts:', contactError);
+    }
+    return updated;
+  },
+
+  /**
+   * Assign the best eligible unit when auto-assign is enabled. Returns the
+   * updated alert, or undefined when nothing was assigned.
+   */
+  async autoAssign(emergency: EmergencyAlert): Promise<EmergencyAlert | undefined> {
+    if (!config.dispatch.autoAssign) return undefined;
+
+    const [best] = await this.getCandidates(emergency);
+    if (!best?.eligible) {
+      console.log(`No eligible unit to auto-assign for emergency ${emergency.id}`);
+      return undefined;
+    }
+
+    return await this.assign(emergency.id, best.ambulance.id);
+  },
+};
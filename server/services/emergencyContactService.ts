@@ -0,0 +1,50 @@
+import type { EmergencyContact, InsertEmergencyContact, UpdateEmergencyContact } from '@shared/schema';
+import { storage } from '../storage';
+import { config } from '../config';
+
+export class EmergencyContactError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'EmergencyContactError';
+  }
+}
+
+export const emergencyContactService = {
+  async create(contact: InsertEmergencyContact): Promise<EmergencyContact> {
+    const existing = await storage.getEmergencyContactsByUserId(contact.userId);
+    if (existing.length >= config.emergency.maxContactsPerUser) {
+      throw new EmergencyContactError(409, `You can have at most ${config.emergency.maxContactsPerUser} emergency contacts`);
+    }
+    return await storage.createEmergencyContact(contact);
+  },
+
+  async update(userId: number, id: number, changes: UpdateEmergencyContact): Promise<EmergencyContact> {
+    const contact = await storage.updateEmergencyContact(userId, id, changes);
+    if (!contact) {
+      throw new EmergencyContactError(404, 'Emergency contact not found');
+    }
+    return contact;
+  },
+
+  async remove(userId: number, id: number): Promise<void> {
+    if (!(await storage.deleteEmergencyContact(userId, id))) {
+      throw new EmergencyContactError(404, 'Emergency contact not found');
+    }
+  },
+
+  /**
+   * Set the order contacts are reached in. The list must name each of the
+   * user's contacts exactly once, so a stale client cannot drop one silently.
+   */
+  async reorder(userId: number, ids: number[]): Promise<EmergencyContact[]> {
+    const existing = await storage.getEmergencyContactsByUserId(userId);
+    const known = new Set(existing.map(contact => contact.id));
+    const complete = ids.length === known.size
+      && new Set(ids).size === ids.length
+      && ids.every(id => known.has(id));
+    if (!complete) {
+      throw new EmergencyContactError(400, 'The new order must list each of your emergency contacts once');
+    }
+    return await storage.reorderEmergencyContacts(userId, ids);
+  },
+};
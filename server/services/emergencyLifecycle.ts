@@ -0,0 +1,124 @@
+import { EmergencyStatus, type EmergencyStatusHistory } from '@shared/schema';
+
+// Allowed moves out of each state. Resolved and cancelled are terminal.
+const TRANSITIONS: Record<EmergencyStatus, EmergencyStatus[]> = {
+  [EmergencyStatus.REPORTED]: [
+    EmergencyStatus.ACKNOWLEDGED,
+    EmergencyStatus.DISPATCHED,
+    EmergencyStatus.RESOLVED,
+    EmergencyStatus.CANCELLED,
+  ],
+  [EmergencyStatus.ACKNOWLEDGED]: [
+    EmergencyStatus.DISPATCHED,
+    EmergencyStatus.RESOLVED,
+    EmergencyStatus.CANCELLED,
+  ],
+  [EmergencyStatus.DISPATCHED]: [
+    EmergencyStatus.EN_ROUTE,
+    EmergencyStatus.ON_SCENE,
+    EmergencyStatus.RESOLVED,
+    EmergencyStatus.CANCELLED,
+  ],
+  [EmergencyStatus.EN_ROUTE]: [
+    EmergencyStatus.DISPATCHED, // unit reassigned
+    EmergencyStatus.ON_SCENE,
+    EmergencyStatus.RESOLVED,
+    EmergencyStatus.CANCELLED,
+  ],
+  [EmergencyStatus.ON_SCENE]: [
+    EmergencyStatus.TRANSPORTING,
+    EmergencyStatus.RESOLVED,
+  ],
+  [EmergencyStatus.TRANSPORTING]: [
+    EmergencyStatus.AT_FACILITY,
+  ],
+  [EmergencyStatus.AT_FACILITY]: [
+    EmergencyStatus.RESOLVED,
+  ],
+  [EmergencyStatus.RESOLVED]: [],
+  [EmergencyStatus.CANCELLED]: [],
+};
+
+// Statuses written before the lifecycle existed
+const LEGACY_STATUSES: Record<string, EmergencyStatus> = {
+  pending: EmergencyStatus.REPORTED,
+  active: EmergencyStatus.REPORTED,
+  in_progress: EmergencyStatus.DISPATCHED,
+};
+
+export const TERMINAL_STATUSES: EmergencyStatus[] = [
+  EmergencyStatus.RESOLVED,
+  EmergencyStatus.CANCELLED,
+];
+
+export const OPEN_STATUSES: EmergencyStatus[] = Object.values(EmergencyStatus)
+  .filter(status => !TERMINAL_STATUSES.includes(status));
+
+export class InvalidTransitionError extends Error {
+  constructor(public from: string, public to: string) {
+    super(`Cannot move emergency from '${from}' to '${to}'`);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+export class UnitUnavailableError extends Error {
+  constructor(public unitName: string, public unitStatus: string) {
+    super(`Unit ${unitName} is ${unitStatus} and cannot be assigned`);
+    this.name = 'UnitUnavailableError';
+  }
+}
+
+export function isEmergencyStatus(value: unknown): value is EmergencyStatus {
+  return typeof value === 'string' && (Object.values(EmergencyStatus) as string[]).includes(value);
+}
+
+export function normalizeStatus(status: string): EmergencyStatus {
+  if (isEmergencyStatus(status)) return status;
+  const legacy = LEGACY_STATUSES[status];
+  if (!legacy) {
+    throw new Error(`Unknown emergency status '${status}'`);
+  }
+  return legacy;
+}
+
+export function isOpenStatus(status: string): boolean {
+  return OPEN_STATUSES.includes(normalizeStatus(status));
+}
+
+export function getAllowedTransitions(status: string): EmergencyStatus[] {
+  return TRANSITIONS[normalizeStatus(status)];
+}
+
+export function canTransition(from: string, to: string): boolean {
+  return isEmergencyStatus(to) && getAllowedTransitions(from).includes(to);
+}
+
+/**
+ * Throws InvalidTransitionError unless the move is allowed
+ */
+export function assertTransition(from: string, to: string): EmergencyStatus {
+  if (!canTransition(from, to)) {
+    throw new InvalidTransitionError(from, to);
+  }
+  return to as EmergencyStatus;
+}
+
+/**
+ * Derive response-time metrics (in seconds) from an incident's history
+ */
+export function computeResponseTimes(history: EmergencyStatusHistory[]) {
+  const reachedAt = (status: EmergencyStatus) =>
+    history.find(entry => entry.toStatus === status)?.createdAt;
+  const secondsBetween = (start?: Date, end?: Date) =>
+    start && end ? Math.round((new Date(end).getTime() - new Date(start).getTime()) / 1000) : null;
+
+  const reported = reachedAt(EmergencyStatus.REPORTED);
+  const closed = reachedAt(EmergencyStatus.RESOLVED) ?? reachedAt(EmergencyStatus.CANCELLED);
+
+  return {
+    timeToAcknowledge: secondsBetween(reported, reachedAt(EmergencyStatus.ACKNOWLEDGED)),
+    timeToDispatch: secondsBetween(reported, reachedAt(EmergencyStatus.DISPATCHED)),
+    timeToScene: secondsBetween(reported, reachedAt(EmergencyStatus.ON_SCENE)),
+    totalDuration: secondsBetween(reported, closed),
+  };
+}
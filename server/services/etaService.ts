@@ -0,0 +1,126 @@
+import type { AmbulanceUnit, EmergencyAlert } from '@shared/schema';
+import { calculateDistance } from '../../client/src/hooks/use-maps';
+import { storage } from '../storage';
+import { config, type TimeBand } from '../config';
+
+export interface EtaEstimate {
+  emergencyId: number;
+  ambulanceId: number;
+  etaSeconds: number;
+  distanceKm: number;
+  speedKmh: number;
+  basis: 'configured' | 'historical' | 'blended';
+  sampleSize: number;
+  computedAt: Date;
+}
+
+// Number of recent completed trips considered when learning speeds
+const HISTORY_SAMPLE_LIMIT = 50;
+
+export function getTimeBand(date: Date): TimeBand {
+  const hour = date.getHours();
+  if (hour >= 22 || hour < 6) return 'night';
+  if ((hour >= 6 && hour < 10) || (hour >= 16 && hour < 20)) return 'peak';
+  return 'off_peak';
+}
+
+function roadDistanceKm(unit: AmbulanceUnit, emergency: EmergencyAlert): number | null {
+  if (!unit.latitude || !unit.longitude) return null;
+  const greatCircle = calculateDistance(
+    parseFloat(unit.latitude),
+    parseFloat(unit.longitude),
+    parseFloat(emergency.latitude),
+    parseFloat(emergency.longitude)
+  );
+  return greatCircle * (config.eta.detourFactor[unit.unitType] ?? config.eta.detourFactor.ambulance);
+}
+
+export const etaService = {
+  /**
+   * Expected speed for a unit type at a given time, refined by completed trips
+   */
+  async getSpeed(unitType: string, timeBand: TimeBand): Promise<Pick<EtaEstimate, 'speedKmh' | 'basis' | 'sampleSize'>> {
+    const speeds = config.eta.speedsKmh[unitType] ?? config.eta.speedsKmh.ambulance;
+    const configured = speeds[timeBand];
+
+    const trips = await storage.getCompletedUnitTrips(unitType, timeBand, HISTORY_SAMPLE_LIMIT);
+    let totalKm = 0;
+    let totalHours = 0;
+    for (const trip of trips) {
+      const hours = (trip.arrivedAt!.getTime() - trip.startedAt.getTime()) / 3600000;
+      if (hours <= 0) continue;
+      totalKm += parseFloat(trip.distanceKm);
+      totalHours += hours;
+    }
+
+    if (totalHours === 0) {
+      return { speedKmh: configured, basis: 'configured', sampleSize: 0 };
+    }
+
+    // Lean on history more as completed trips accumulate
+    const observed = totalKm / totalHours;
+    const weight = trips.length / (trips.length + config.eta.historyWeight);
+    return {
+      speedKmh: observed * weight + configured * (1 - weight),
+      basis: weight >= 0.5 ? 'historical' : 'blended',
+      sampleSize: trips.length,
+    };
+  },
+
+  async estimate(unit: AmbulanceUnit, emergency: EmergencyAlert, now: Date = new Date()): Promise<EtaEstimate | null> {
+    const distanceKm = roadDistanceKm(unit, emergency);
+    if (distanceKm === null) return null;
+
+    const speed = await this.getSpeed(unit.unitType, getTimeBand(now));
+    return {
+      emergencyId: emergency.id,
+      ambulanceId: unit.id,
+      etaSeconds: Math.round((distanceKm / speed.speedKmh) * 3600),
+      distanceKm: Math.round(distanceKm * 100) / 100,
+      ...speed,
+      computedAt: now,
+    };
+  },
+
+  /**
+   * Recompute and store the ETA of the unit assigned to an emergency
+   */
+  async refresh(emergency: EmergencyAlert): Promise<EtaEstimate | null> {
+    if (!emergency.ambulanceId) return null;
+
+    const unit = await storage.getAmbulanceUnit(emergency.ambulanceId);
+    if (!unit) return null;
+
+    const estimate = await this.estimate(unit, emergency);
+    if (estimate) {
+      await storage.setEmergencyEta(emergency.id, estimate.etaSeconds, estimate.computedAt);
+    }
+    return estimate;
+  },
+
+  /**
+   * Start a trip record for a freshly assigned unit and compute its first ETA
+   */
+  async onUnitAssigned(emergency: EmergencyAlert): Promise<EtaEstimate | null> {
+    if (!emergency.ambulanceId) return null;
+
+    const unit = await storage.getAmbulanceUnit(emergency.ambulanceId);
+    const distanceKm = unit && roadDistanceKm(unit, emergency);
+    if (!unit || distanceKm === null) return null;
+
+    await storage.createUnitTrip({
+      ambulanceId: unit.id,
+      emergencyId: emergency.id,
+      unitType: unit.unitType,
+      timeBand: getTimeBand(new Date()),
+      distanceKm: distanceKm.toFixed(3),
+    });
+
+    return await this.refresh(emergency);
+  },
+
+  formatEta(etaSeconds: number): string {
+    const minutes = Math.max(1, Math.round(etaSeconds / 60));
+    return minutes === 1 ? 'about 1 minute' : `about ${minutes} minutes`;
+  },
+};
@@ -0,0 +1,291 @@
+import { readFile } from 'fs/promises';
+import { Client } from '@googlemaps/google-maps-services-js';
+import { config } from '../config';
+
+export interface SyncArea {
+  latitude: number;
+  longitude: number;
+  radiusMeters: number;
+}
+
+// A facility as a provider describes it, before it is matched against the database
+export interface FacilityRecord {
+  externalId: string;
+  name: string;
+  type: string;
+  address: string;
+  latitude: number;
+  longitude: number;
+  phone?: string | null;
+  openHours?: string | null;
+  rating?: string | null;
+  capacity?: number | null;
+  googlePlaceId?: string | null;
+}
+
+export interface SkippedRecord {
+  row: number;
+  reason: string;
+}
+
+export interface FacilityProvider {
+  // Stored in medical_facilities.source; records are matched on (source, externalId)
+  source: string;
+  // Area-scoped providers are queried per area; the others return their whole dataset
+  areaScoped: boolean;
+  fetchFacilities(area?: SyncArea): Promise<FacilityRecord[]>;
+}
+
+/**
+ * Spaces calls to an upstream API so that no more than `perMinute` start in
+ * any minute. Callers await `acquire()` before each request.
+ */
+export function createRateLimiter(perMinute: number) {
+  const intervalMs = 60000 / Math.max(1, perMinute);
+  let nextSlot = 0;
+
+  return {
+    async acquire(): Promise<void> {
+      const now = Date.now();
+      const wait = Math.max(0, nextSlot - now);
+      nextSlot = Math.max(now, nextSlot) + intervalMs;
+      if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+    },
+  };
+}
+
+export function createGooglePlacesProvider(
+  apiKey: string,
+  limiter = createRateLimiter(config.facilities.maxRequestsPerMinute)
+): FacilityProvider {
+  const client = new Client({});
+
+  return {
+    source: 'google_places',
+    areaScoped: true,
+
+    async fetchFacilities(area?: SyncArea): Promise<FacilityRecord[]> {
+      if (!area) return [];
+
+      await limiter.acquire();
+      const response = await client.placesNearby({
+        params: {
+          location: { lat: area.latitude, lng: area.longitude },
+          // Places caps nearby searches at 50 km
+          radius: Math.min(area.radiusMeters, 50000),
+          type: 'hospital',
+          key: apiKey,
+        },
+      });
+
+      const records: FacilityRecord[] = [];
+      for (const place of response.data.results ?? []) {
+        if (!place.place_id || !place.geometry || !place.name) continue;
+
+        await limiter.acquire();
+        const details = await client.placeDetails({
+          params: {
+            place_id: place.place_id,
+            fields: ['name', 'formatted_address', 'formatted_phone_number', 'opening_hours', 'rating'],
+            key: apiKey,
+          },
+        });
+        const result = details.data.result ?? {};
+
+        records.push({
+          externalId: place.place_id,
+          googlePlaceId: place.place_id,
+          name: place.name,
+          type: 'Hospital',
+          address: result.formatted_address || place.vicinity || '',
+          latitude: place.geometry.location.lat,
+          longitude: place.geometry.location.lng,
+          phone: result.formatted_phone_number || null,
+          openHours: result.opening_hours?.weekday_text?.join('; ') || null,
+          rating: result.rating?.toString() || null,
+        });
+      }
+      return records;
+    },
+  };
+}
+
+// Header names seen in facility exports, e.g. the Kenya Master Health Facility List
+const COLUMN_ALIASES: Record<keyof Omit<FacilityRecord, 'googlePlaceId' | 'rating'>, string[]> = {
+  externalId: ['code', 'mfl_code', 'facility_code', 'id'],
+  name: ['officialname', 'official_name', 'facility_name', 'name'],
+  type: ['facility_type', 'type', 'keph_level'],
+  address: ['address', 'location'],
+  latitude: ['latitude', 'lat', 'y'],
+  longitude: ['longitude', 'long', 'lng', 'lon', 'x'],
+  phone: ['phone', 'phone_number', 'telephone', 'contact'],
+  openHours: ['open_hours', 'opening_hours'],
+  capacity: ['beds', 'capacity', 'bed_capacity'],
+};
+
+const normalizeKey = (key: string) => key.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+function pick(row: Record<string, unknown>, field: keyof typeof COLUMN_ALIASES): string {
+  for (const alias of COLUMN_ALIASES[field]) {
+    const value = row[alias];
+    if (value !== undefined && value !== null && String(value).trim() !== '') return String(value).trim();
+  }
+  return '';
+}
+
+function toRecord(raw: Record<string, unknown>, row: number): FacilityRecord | SkippedRecord {
+  const fields = Object.fromEntries(Object.entries(raw).map(([key, value]) => [normalizeKey(key), value]));
+
+  const externalId = pick(fields, 'externalId');
+  const name = pick(fields, 'name');
+  const latitude = parseFloat(pick(fields, 'latitude'));
+  const longitude = parseFloat(pick(fields, 'longitude'));
+
+  if (!externalId) return { row, reason: 'Missing facility code' };
+  if (!name) return { row, reason: 'Missing name' };
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)
+    || Math.abs(latitude) > 90 || Math.abs(longitude) > 180
+    || (latitude === 0 && longitude === 0)) {
+    return { row, reason: 'Missing or invalid coordinates' };
+  }
+
+  // Exports without an address column describe the location administratively
+  const address = pick(fields, 'address')
+    || ['ward', 'sub_county', 'constituency', 'county']
+      .map(key => String(fields[key] ?? '').trim())
+      .filter(Boolean)
+      .join(', ');
+  const capacity = parseInt(pick(fields, 'capacity'));
+  const openWholeDay = String(fields.open_whole_day ?? '').toLowerCase();
+
+  return {
+    externalId,
+    name,
+    type: pick(fields, 'type') || 'Health Facility',
+    address,
+    latitude,
+    longitude,
+    phone: pick(fields, 'phone') || null,
+    openHours: pick(fields, 'openHours') || (openWholeDay === 'yes' || openWholeDay === 'true' ? '24/7' : null),
+    capacity: Number.isFinite(capacity) ? capacity : null,
+  };
+}
+
+// Minimal RFC 4180 reader: quoted fields, escaped quotes and newlines inside quotes
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+/**
+ * Parse a facility export. GeoJSON FeatureCollections of Points are read from
+ * their properties and coordinates; anything else is treated as CSV with a
+ * header row.
+ */
+export function parseFacilityFile(content: string): { records: FacilityRecord[]; skipped: SkippedRecord[] } {
+  const records: FacilityRecord[] = [];
+  const skipped: SkippedRecord[] = [];
+  const collect = (result: FacilityRecord | SkippedRecord) => {
+    if ('reason' in result) skipped.push(result);
+    else records.push(result);
+  };
+
+  const text = content.replace(/^\uFEFF/, '').trim();
+  if (text.startsWith('{')) {
+    const geojson = JSON.parse(text);
+    if (geojson.type !== 'FeatureCollection' || !Array.isArray(geojson.features)) {
+      throw new Error('GeoJSON must be a FeatureCollection');
+    }
+    geojson.features.forEach((feature: any, index: number) => {
+      const coordinates = feature?.geometry?.type === 'Point' ? feature.geometry.coordinates : [];
+      collect(toRecord({
+        id: feature?.id,
+        ...feature?.properties,
+        longitude: coordinates[0],
+        latitude: coordinates[1],
+      }, index + 1));
+    });
+  } else {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) return { records, skipped };
+    // Data rows are numbered from 2, matching the line in a spreadsheet
+    rows.forEach((values, index) => {
+      collect(toRecord(Object.fromEntries(header.map((key, i) => [key, values[i]])), index + 2));
+    });
+  }
+
+  // A repeated code keeps its first row
+  const seen = new Set<string>();
+  return {
+    records: records.filter(record => !seen.has(record.externalId) && !!seen.add(record.externalId)),
+    skipped,
+  };
+}
+
+export function createFileProvider(path: string, source = 'file'): FacilityProvider {
+  return {
+    source,
+    areaScoped: false,
+
+    async fetchFacilities(): Promise<FacilityRecord[]> {
+      const { records, skipped } = parseFacilityFile(await readFile(path, 'utf8'));
+      if (skipped.length > 0) {
+        console.warn(`Skipped ${skipped.length} unusable rows in ${path}`);
+      }
+      return records;
+    },
+  };
+}
+
+export const noopProvider: FacilityProvider = {
+  source: 'none',
+  areaScoped: false,
+  async fetchFacilities() {
+    return [];
+  },
+};
+
+export function createConfiguredProvider(): FacilityProvider {
+  switch (config.facilities.provider) {
+    case 'google':
+      return config.facilities.apiKey ? createGooglePlacesProvider(config.facilities.apiKey) : noopProvider;
+    case 'file':
+      return config.facilities.filePath ? createFileProvider(config.facilities.filePath) : noopProvider;
+    default:
+      return noopProvider;
+  }
+}
@@ -0,0 +1,209 @@
+import type { FacilityUpsert, MedicalFacility } from '@shared/schema';
+import { storage } from '../storage';
+import { config } from '../config';
+import {
+  createConfiguredProvider,
+  type FacilityProvider,
+  type FacilityRecord,
+  type SkippedRecord,
+  type SyncArea,
+} from './facilityProviders';
+
+export interface FacilityChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface FacilityDiffReport {
+  source: string;
+  dryRun: boolean;
+  created: { externalId: string; name: string }[];
+  updated: { id: number; externalId: string; name: string; changes: Record<string, FacilityChange> }[];
+  unchanged: number;
+  // Facilities of this source that the dataset no longer lists; reported, never deleted
+  missing: { id: number; externalId: string | null; name: string }[];
+  skipped: SkippedRecord[];
+}
+
+// Pending area syncs beyond this are dropped; the next search will ask again
+const MAX_QUEUED_AREAS = 20;
+
+const COMPARED_FIELDS = [
+  'name', 'type', 'address', 'latitude', 'longitude', 'phone', 'openHours', 'rating', 'capacity', 'googlePlaceId',
+] as const;
+
+function toRow(record: FacilityRecord, source: string): FacilityUpsert {
+  return {
+    source,
+    externalId: record.externalId,
+    name: record.name,
+    type: record.type,
+    address: record.address,
+    latitude: record.latitude.toString(),
+    longitude: record.longitude.toString(),
+    phone: record.phone,
+    openHours: record.openHours,
+    rating: record.rating,
+    capacity: record.capacity,
+    googlePlaceId: record.googlePlaceId,
+  };
+}
+
+function sameValue(field: typeof COMPARED_FIELDS[number], current: unknown, next: unknown): boolean {
+  if (field === 'latitude' || field === 'longitude') {
+    return Math.abs(parseFloat(String(current)) - parseFloat(String(next))) < 1e-7;
+  }
+  return (current ?? null) === (next ?? null);
+}
+
+/**
+ * Match provider records against the facilities already stored for their
+ * source. Fields a provider leaves undefined are not compared, so a source
+ * that lacks e.g. phone numbers never blanks the ones staff entered.
+ */
+export function diffFacilities(
+  existing: MedicalFacility[],
+  records: FacilityRecord[],
+  source: string,
+  options: { reportMissing: boolean }
+) {
+  const byExternalId = new Map(existing.filter(f => f.externalId).map(f => [f.externalId!, f]));
+  const creates: FacilityUpsert[] = [];
+  const updates: { id: number; changes: Partial<FacilityUpsert> }[] = [];
+  const report: Omit<FacilityDiffReport, 'dryRun' | 'skipped'> = {
+    source,
+    created: [],
+    updated: [],
+    unchanged: 0,
+    missing: [],
+  };
+
+  for (const record of records) {
+    const row = toRow(record, source);
+    const current = byExternalId.get(record.externalId);
+    byExternalId.delete(record.externalId);
+
+    if (!current) {
+      creates.push({ ...row, capacity: row.capacity ?? 100, currentOccupancy: 0 });
+      report.created.push({ externalId: record.externalId, name: record.name });
+      continue;
+    }
+
+    const changes: Partial<FacilityUpsert> = {};
+    const described: Record<string, FacilityChange> = {};
+    for (const field of COMPARED_FIELDS) {
+      if (row[field] === undefined || sameValue(field, current[field], row[field])) continue;
+      (changes as Record<string, unknown>)[field] = row[field];
+      described[field] = { from: current[field], to: row[field] };
+    }
+
+    if (Object.keys(changes).length === 0) {
+      report.unchanged++;
+    } else {
+      updates.push({ id: current.id, changes });
+      report.updated.push({ id: current.id, externalId: record.externalId, name: record.name, changes: described });
+    }
+  }
+
+  if (options.reportMissing) {
+    report.missing = Array.from(byExternalId.values()).map(f => ({ id: f.id, externalId: f.externalId, name: f.name }));
+  }
+
+  return { creates, updates, report };
+}
+
+const areaKey = (area: SyncArea) =>
+  `${area.latitude.toFixed(2)},${area.longitude.toFixed(2)},${Math.round(area.radiusMeters / 1000)}`;
+
+let provider: FacilityProvider = createConfiguredProvider();
+let timer: NodeJS.Timeout | null = null;
+const syncedAt = new Map<string, number>();
+const queue: SyncArea[] = [];
+let draining: Promise<void> | null = null;
+
+async function syncFromProvider(area?: SyncArea): Promise<FacilityDiffReport> {
+  const records = await provider.fetchFacilities(area);
+  return facilitySyncService.applyRecords(records, provider.source, { dryRun: false, reportMissing: false });
+}
+
+async function drainQueue() {
+  while (queue.length > 0) {
+    const area = queue.shift()!;
+    try {
+      await syncFromProvider(area);
+      syncedAt.set(areaKey(area), Date.now());
+    } catch (error) {
+      console.error("Error syncing nearby facilities:", error);
+    }
+  }
+}
+
+export const facilitySyncService = {
+  /**
+   * Diff a batch of records against the database and, unless this is a dry
+   * run, write the result in one transaction
+   */
+  async applyRecords(
+    records: FacilityRecord[],
+    source: string,
+    options: { dryRun: boolean; reportMissing: boolean; skipped?: SkippedRecord[] }
+  ): Promise<FacilityDiffReport> {
+    const existing = await storage.getFacilitiesBySource(source);
+    const { creates, updates, report } = diffFacilities(existing, records, source, options);
+
+    if (!options.dryRun && (creates.length > 0 || updates.length > 0)) {
+      await storage.saveFacilities(creates, updates);
+    }
+    return { ...report, dryRun: options.dryRun, skipped: options.skipped ?? [] };
+  },
+
+  /**
+   * Ask for an area to be refreshed from the provider. Returns immediately;
+   * areas synced within the cache TTL, or already queued, are ignored.
+   */
+  requestSync(area: SyncArea) {
+    if (!provider.areaScoped) return;
+
+    const key = areaKey(area);
+    const last = syncedAt.get(key);
+    if (last && Date.now() - last < config.facilities.cacheTtlMinutes * 60 * 1000) return;
+    if (queue.length >= MAX_QUEUED_AREAS || queue.some(queued => areaKey(queued) === key)) return;
+
+    queue.push(area);
+    if (!draining) {
+      draining = drainQueue().finally(() => {
+        draining = null;
+      });
+    }
+  },
+
+  // Full refresh: the whole dataset for file providers, configured areas for area-scoped ones
+  async syncAll(): Promise<void> {
+    if (!provider.areaScoped) {
+      try {
+        await syncFromProvider();
+      } catch (error) {
+        console.error("Error syncing facilities:", error);
+      }
+      return;
+    }
+    for (const area of config.facilities.syncAreas) {
+      syncedAt.delete(areaKey(area));
+      facilitySyncService.requestSync(area);
+    }
+  },
+
+  start(customProvider?: FacilityProvider) {
+    if (customProvider) provider = customProvider;
+    if (timer || provider.source === 'none') return;
+
+    facilitySyncService.syncAll();
+    timer = setInterval(() => facilitySyncService.syncAll(), config.facilities.syncIntervalMinutes * 60 * 1000);
+    timer.unref();
+  },
+
+  stop() {
+    if (timer) clearInterval(timer);
+    timer = null;
+  },
+};
@@ -0,0 +1,166 @@
+import type { AuthThrottle, User } from '@shared/schema';
+import { storage } from '../storage';
+import { config } from '../config';
+import { auditService, type AuditContext } from './auditService';
+import { notificationService } from './notificationService';
+
+export class LoginThrottledError extends Error {
+  constructor(message: string, public retryAfterSeconds: number) {
+    super(message);
+    this.name = 'LoginThrottledError';
+  }
+}
+
+export interface Lockout {
+  key: string;
+  scope: 'account' | 'ip' | 'register';
+  // The username or IP address the key was made from
+  subject: string;
+  attempts: number;
+  lockedUntil: Date;
+}
+
+// Usernames are keyed whether or not the account exists, so throttling never reveals which do
+const accountKey = (username: string) => `account:${username.trim().toLowerCase()}`;
+const ipKey = (ip: string) => `ip:${ip}`;
+const registerKey = (ip: string) => `register:${ip}`;
+
+// Repeated lockouts double in length, up to 64 times the base duration
+const MAX_LOCKOUT_DOUBLINGS = 6;
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000);
+
+/**
+ * Seconds an attempt must wait after the previous failure: nothing for the
+ * first `delayAfter` failures, then doubling from the base delay up to the cap
+ */
+export function requiredDelaySeconds(attempts: number, delayAfter: number): number {
+  const { baseDelaySeconds, maxDelaySeconds } = config.loginProtection;
+  if (attempts < delayAfter) return 0;
+  return Math.min(maxDelaySeconds, baseDelaySeconds * 2 ** (attempts - delayAfter));
+}
+
+function isLocked(throttle: AuthThrottle | undefined, now = new Date()): throttle is AuthThrottle & { lockedUntil: Date } {
+  return !!throttle?.lockedUntil && throttle.lockedUntil > now;
+}
+
+// Seconds until the key may be tried again; 0 when it may be tried now
+function waitSeconds(throttle: AuthThrottle | undefined, delayAfter: number): number {
+  const now = new Date();
+  if (!throttle) return 0;
+  if (isLocked(throttle, now)) {
+    return Math.ceil((throttle.lockedUntil.getTime() - now.getTime()) / 1000);
+  }
+  if (throttle.firstAttemptAt < minutesAgo(config.loginProtection.windowMinutes)) return 0;
+
+  const readyAt = throttle.lastAttemptAt.getTime() + requiredDelaySeconds(throttle.attempts, delayAfter) * 1000;
+  return Math.max(0, Math.ceil((readyAt - now.getTime()) / 1000));
+}
+
+async function lock(throttle: AuthThrottle): Promise<AuthThrottle & { lockedUntil: Date }> {
+  const minutes = config.loginProtection.lockoutMinutes * 2 ** Math.min(throttle.lockCount, MAX_LOCKOUT_DOUBLINGS);
+  const locked = await storage.lockAuthThrottle(throttle.key, new Date(Date.now() + minutes * 60 * 1000));
+  return locked as AuthThrottle & { lockedUntil: Date };
+}
+
+async function lockAccount(throttle: AuthThrottle, username: string, context: AuditContext) {
+  const locked = await lock(throttle);
+  const user = await storage.getUserByUsername(username);
+  if (!user) return;
+
+  await auditService.record(context, {
+    action: 'user.locked_out',
+    entityType: 'user',
+    entityId: user.id,
+    after: { attempts: locked.attempts, lockedUntil: locked.lockedUntil },
+  });
+  notificationService.notifyUser(user, 'accountLocked', { lockedUntil: locked.lockedUntil }, ['email']).catch((error) => {
+    console.error('Error queueing account locked email:', error);
+  });
+}
+
+async function lockIp(throttle: AuthThrottle, ip: string, context: AuditContext) {
+  const locked = await lock(throttle);
+  await auditService.record(context, {
+    action: 'ip.locked_out',
+    entityType: 'ip',
+    entityId: ip,
+    after: { attempts: locked.attempts, lockedUntil: locked.lockedUntil },
+  });
+}
+
+export const loginProtectionService = {
+  /**
+   * Throws LoginThrottledError while the account or the IP is locked out or
+   * still inside its delay after the last failure
+   */
+  async check(username: string, ip: string): Promise<void> {
+    const throttles = await storage.getAuthThrottles([accountKey(username), ipKey(ip)]);
+    const account = throttles.find(throttle => throttle.key === accountKey(username));
+    const address = throttles.find(throttle => throttle.key === ipKey(ip));
+
+    const { accountDelayAfter, ipDelayAfter } = config.loginProtection;
+    const wait = Math.max(waitSeconds(account, accountDelayAfter), waitSeconds(address, ipDelayAfter));
+    if (wait === 0) return;
+
+    throw new LoginThrottledError(
+      isLocked(account) || isLocked(address)
+        ? `Too many failed sign-in attempts. Try again in ${Math.ceil(wait / 60)} minute${wait > 60 ? 's' : ''}.`
+        : `Too many failed sign-in attempts. Try again in ${wait} second${wait === 1 ? '' : 's'}.`,
+      wait
+    );
+  },
+
+  async recordFailure(username: string, ip: string, context: AuditContext): Promise<void> {
+    const { windowMinutes, accountLockoutThreshold, ipLockoutThreshold } = config.loginProtection;
+    const since = minutesAgo(windowMinutes);
+    const [account, address] = await Promise.all([
+      storage.recordAuthAttempt(accountKey(username), since),
+      storage.recordAuthAttempt(ipKey(ip), since),
+    ]);
+
+    if (account.attempts >= accountLockoutThreshold && !isLocked(account)) {
+      await lockAccount(account, username, context);
+    }
+    if (address.attempts >= ipLockoutThreshold && !isLocked(address)) {
+      await lockIp(address, ip, context);
+    }
+  },
+
+  // A correct password clears the account's failures; the IP's keep counting
+  async recordSuccess(username: string): Promise<void> {
+    await storage.clearAuthThrottle(accountKey(username));
+  },
+
+  async checkRegistration(ip: string): Promise<void> {
+    const [throttle] = await storage.getAuthThrottles([registerKey(ip)]);
+    if (!throttle || throttle.firstAttemptAt < minutesAgo(60)) return;
+    if (throttle.attempts < config.loginProtection.registrationsPerIpPerHour) return;
+
+    const retryAfter = Math.ceil((throttle.firstAttemptAt.getTime() + 60 * 60 * 1000 - Date.now()) / 1000);
+    throw new LoginThrottledError('Too many accounts created from this network. Please try again later.', retryAfter);
+  },
+
+  async recordRegistration(ip: string): Promise<void> {
+    await storage.recordAuthAttempt(registerKey(ip), minutesAgo(60));
+  },
+
+  // Returns false when the account had no failures on record
+  async unlock(user: User): Promise<boolean> {
+    return await storage.clearAuthThrottle(accountKey(user.username));
+  },
+
+  async listLockouts(): Promise<Lockout[]> {
+    const throttles = await storage.getActiveLockouts();
+    return throttles.map(throttle => {
+      const [scope, ...rest] = throttle.key.split(':');
+      return {
+        key: throttle.key,
+        scope: scope as Lockout['scope'],
+        subject: rest.join(':'),
+        attempts: throttle.attempts,
+        lockedUntil: throttle.lockedUntil!,
+      };
+    });
+  },
+};
@@ -0,0 +1,120 @@
+import type { EmergencyAlert, EmergencyContact, MedicalInfo, User } from '@shared/schema';
+import { storage } from '../storage';
+import { auditService, type AuditContext } from './auditService';
+import { isOpenStatus } from './emergencyLifecycle';
+import { notificationService } from './notificationService';
+
+export class MedicalAccessError extends Error {
+  constructor(public status: number, message: string, public code?: 'break_glass_required') {
+    super(message);
+    this.name = 'MedicalAccessError';
+  }
+}
+
+export interface PatientRecord {
+  emergencyId: number;
+  patient: { id: number; firstName?: string; lastName?: string; phone: string };
+  medicalInfo: MedicalInfo | null;
+  emergencyContacts: EmergencyContact[];
+  access: 'crew' | 'break_glass';
+}
+
+async function loadEmergency(emergencyId: number): Promise<EmergencyAlert> {
+  const emergency = await storage.getEmergencyAlert(emergencyId);
+  if (!emergency) {
+    throw new MedicalAccessError(404, 'Emergency not found');
+  }
+  return emergency;
+}
+
+async function loadRecord(emergency: EmergencyAlert, access: PatientRecord['access']): Promise<PatientRecord> {
+  const patient = await storage.getUser(emergency.userId);
+  if (!patient) {
+    throw new MedicalAccessError(404, 'Patient not found');
+  }
+  const [medicalInfo, emergencyContacts] = await Promise.all([
+    storage.getMedicalInfoByUserId(patient.id),
+    storage.getEmergencyContactsByUserId(patient.id),
+  ]);
+
+  return {
+    emergencyId: emergency.id,
+    patient: { id: patient.id, firstName: patient.firstName, lastName: patient.lastName, phone: patient.phone },
+    medicalInfo: medicalInfo ?? null,
+    emergencyContacts,
+    access,
+  };
+}
+
+// Crew on the unit currently assigned to the emergency, while it is open
+async function isAssignedCrew(user: User, emergency: EmergencyAlert): Promise<boolean> {
+  if (!emergency.ambulanceId || !isOpenStatus(emergency.status)) return false;
+  const ambulanceIds = await storage.getCrewAmbulanceIds(user.id);
+  return ambulanceIds.includes(emergency.ambulanceId);
+}
+
+// Queued by email, and by SMS to a verified phone; the access itself is already on the audit log
+async function notifyPatient(record: PatientRecord, staff: User, justification: string) {
+  const patient = await storage.getUser(record.patient.id);
+  if (!patient) return;
+
+  const staffName = [staff.firstName, staff.lastName].filter(Boolean).join(' ') || staff.username;
+  await notificationService.notifyUser(patient, 'medicalAccessNotice', {
+    staffName,
+    emergencyId: record.emergencyId,
+    justification,
+    accessedAt: new Date(),
+  }, ['email', 'sms'], record.emergencyId);
+}
+
+export const medicalAccessService = {
+  /**
+   * The reporter's medical profile and contacts for the crew assigned to an
+   * open emergency. Anyone else is told to use break-glass access.
+   */
+  async getForCrew(user: User, emergencyId: number, context: AuditContext): Promise<PatientRecord> {
+    const emergency = await loadEmergency(emergencyId);
+    if (emergency.userId === user.id) {
+      return await loadRecord(emergency, 'crew');
+    }
+    if (!(await isAssignedCrew(user, emergency))) {
+      throw new MedicalAccessError(
+        403,
+        isOpenStatus(emergency.status)
+          ? 'Only the assigned crew can open this record without a justification'
+          : 'This emergency is closed; access now requires a justification',
+        'break_glass_required'
+      );
+    }
+
+    const record = await loadRecord(emergency, 'crew');
+    await auditService.record(context, {
+      action: 'medical_info.read',
+      entityType: 'user',
+      entityId: record.patient.id,
+      after: { emergencyId, access: 'crew' },
+    });
+    return record;
+  },
+
+  /**
+   * Open the record outside the crew rule. The justification is recorded and
+   * the patient is told who looked and why.
+   */
+  async breakGlass(user: User, emergencyId: number, justification: string, context: AuditContext): Promise<PatientRecord> {
+    const emergency = await loadEmergency(emergencyId);
+    const record = await loadRecord(emergency, 'break_glass');
+
+    await auditService.record(context, {
+      action: 'medical_info.break_glass',
+      entityType: 'user',
+      entityId: record.patient.id,
+      after: { emergencyId, access: 'break_glass', justification },
+    });
+    // Not awaited; failing to queue the notice must not hold the record back
+    notifyPatient(record, user, justification).catch((error) => {
+      console.error('Error notifying patient of medical access:', error);
+    });
+    return record;
+  },
+};
@@ -0,0 +1,128 @@
+import { appendFile } from 'fs/promises';
+import nodemailer from 'nodemailer';
+import type { NotificationChannel, NotificationOutboxEntry } from '@shared/schema';
+import { createServerMessage } from '@shared/ws-protocol';
+import { config } from '../config';
+import { storage } from '../storage';
+import { realtimeService, userRoom } from './realtimeService';
+import { smsGateway, type SmsGateway } from './smsGateway';
+
+// The parts of an outbox entry a channel needs to send it
+export type OutboundMessage = Pick<NotificationOutboxEntry, 'recipient' | 'subject' | 'body' | 'html' | 'emergencyId'>;
+
+/**
+ * Delivers one outbox message over a channel. Throwing leaves the message
+ * to be retried, so adapters must not swallow errors.
+ */
+export interface ChannelAdapter {
+  name: string;
+  deliver(message: OutboundMessage): Promise<void>;
+}
+
+// Development stand-in shared by the console adapters: logged and appended to a file
+async function writeToOutbox(outboxFile: string, channel: string, message: OutboundMessage) {
+  const summary = message.subject ? `${message.subject}: ${message.body}` : message.body;
+  console.log(`[${channel}] to ${message.recipient}: ${summary}`);
+  await appendFile(outboxFile, `${new Date().toISOString()}\t${message.recipient}\t${summary.replace(/\n/g, ' ')}\n`);
+}
+
+export function createConsoleEmailAdapter(outboxFile = config.email.outboxFile): ChannelAdapter {
+  return {
+    name: 'console',
+    deliver: message => writeToOutbox(outboxFile, 'email', message),
+  };
+}
+
+export function createSmtpEmailAdapter(options = config.email): ChannelAdapter {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: {
+      user: options.user,
+      pass: options.password,
+    },
+  });
+
+  return {
+    name: 'smtp',
+    async deliver(message) {
+      await transporter.sendMail({
+        from: options.from,
+        to: message.recipient,
+        subject: message.subject ?? undefined,
+        text: message.body,
+        html: message.html ?? undefined,
+      });
+    },
+  };
+}
+
+export function createSmsAdapter(gateway: SmsGateway = smsGateway): ChannelAdapter {
+  return {
+    name: gateway.name,
+    deliver: message => gateway.send(message.recipient, message.body),
+  };
+}
+
+// Stored for the user's notification list and pushed to any socket they have open
+export function createInAppAdapter(): ChannelAdapter {
+  return {
+    name: 'in_app',
+    async deliver(message) {
+      const userId = Number(message.recipient);
+      const notification = await storage.createNotification({
+        userId,
+        emergencyId: message.emergencyId,
+        title: message.subject ?? 'MediTrack',
+        body: message.body,
+      });
+      realtimeService.publish([userRoom(userId)], createServerMessage('notification', {
+        id: notification.id,
+        emergencyId: notification.emergencyId,
+        title: notification.title,
+        body: notification.body,
+        createdAt: notification.createdAt.toISOString(),
+      }));
+    },
+  };
+}
+
+export function createConsolePushAdapter(outboxFile = config.push.outboxFile): ChannelAdapter {
+  return {
+    name: 'console',
+    deliver: message => writeToOutbox(outboxFile, 'push', message),
+  };
+}
+
+/**
+ * Hands web push messages to a relay that holds the browsers' subscriptions
+ * and VAPID keys. The recipient is the MediTrack user id.
+ */
+export function createWebhookPushAdapter(webhookUrl = config.push.webhookUrl): ChannelAdapter {
+  return {
+    name: 'webhook',
+    async deliver(message) {
+      const response = await fetch(webhookUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          userId: Number(message.recipient),
+          title: message.subject ?? 'MediTrack',
+          body: message.body,
+          emergencyId: message.emergencyId,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`Push relay responded ${response.status}: ${await response.text()}`);
+      }
+    },
+  };
+}
+
+export const channelAdapters: Record<NotificationChannel, ChannelAdapter> = {
+  email: config.email.provider === 'smtp' ? createSmtpEmailAdapter() : createConsoleEmailAdapter(),
+  sms: createSmsAdapter(),
+  in_app: createInAppAdapter(),
+  push: config.push.provider === 'webhook' ? createWebhookPushAdapter() : createConsolePushAdapter(),
+};
@@ -0,0 +1,236 @@
+import {
+  NotificationStatus,
+  type NewNotificationOutboxEntry,
+  type NotificationChannel,
+  type NotificationOutboxEntry,
+  type User,
+} from '@shared/schema';
+import { storage } from '../storage';
+import { config } from '../config';
+import { channelAdapters, type ChannelAdapter } from './notificationChannels';
+import { templates, type RenderedMessage, type TemplateName, type TemplateParams } from './notificationTemplates';
+import { userPreferencesService, type PreferenceSettings } from './userPreferencesService';
+
+export interface Delivery {
+  channel: NotificationChannel;
+  recipient: string;
+}
+
+export interface NotificationContext {
+  userId?: number;
+  emergencyId?: number;
+}
+
+export interface NotificationDeliveryStatus {
+  id: number;
+  channel: string;
+  recipient: string;
+  template: string;
+  status: string;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: Date | null;
+  sentAt: Date | null;
+  createdAt: Date;
+}
+
+export interface EmergencyDeliveryReport {
+  emergencyId: number;
+  counts: Record<string, number>;
+  messages: NotificationDeliveryStatus[];
+}
+
+let adapters: Record<NotificationChannel, ChannelAdapter> = channelAdapters;
+let timer: NodeJS.Timeout | null = null;
+let draining: Promise<void> | null = null;
+// Set when messages are queued while a drain is under way, so it goes round again
+let requeued = false;
+
+// Long enough for a slow SMTP handshake; a claim older than this is retried
+const CLAIM_LEASE_MS = 2 * 60 * 1000;
+
+function render<T extends TemplateName>(template: T, params: TemplateParams<T>): RenderedMessage {
+  return (templates[template] as (params: TemplateParams<T>) => RenderedMessage)(params);
+}
+
+// What each channel stores: the full email, or the one-line version elsewhere
+function contentFor(channel: NotificationChannel, message: RenderedMessage) {
+  switch (channel) {
+    case 'email':
+      return { subject: message.subject, body: message.text, html: message.html };
+    case 'sms':
+      return { subject: null, body: message.short, html: null };
+    case 'in_app':
+    case 'push':
+      return { subject: message.subject, body: message.short, html: null };
+  }
+}
+
+// Account security and record-access notices go out whatever the user has opted out of
+const ALWAYS_SENT: TemplateName[] = ['emailVerification', 'passwordReset', 'accountLocked', 'medicalAccessNotice'];
+
+// The in-app list has no toggle; it is where muted users still find their updates
+function channelEnabled(channel: NotificationChannel, preferences: PreferenceSettings): boolean {
+  switch (channel) {
+    case 'email':
+    case 'push':
+      return preferences.notifications;
+    case 'sms':
+      return preferences.smsNotifications;
+    case 'in_app':
+      return true;
+  }
+}
+
+// Doubles from retryBaseSeconds after each failed attempt, up to retryMaxSeconds
+function retryDelayMs(attempts: number): number {
+  const { retryBaseSeconds, retryMaxSeconds } = config.notifications;
+  return Math.min(retryBaseSeconds * 2 ** (attempts - 1), retryMaxSeconds) * 1000;
+}
+
+async function deliver(message: NotificationOutboxEntry) {
+  try {
+    await adapters[message.channel as NotificationChannel].deliver(message);
+    await storage.markNotificationSent(message.id);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    const retryAt = message.attempts < config.notifications.maxAttempts
+      ? new Date(Date.now() + retryDelayMs(message.attempts))
+      : null;
+    console.error(`Failed to deliver ${message.channel} notification ${message.id} (attempt ${message.attempts}):`, reason);
+    await storage.markNotificationFailed(message.id, reason, retryAt);
+  }
+}
+
+async function drainOutbox() {
+  do {
+    requeued = false;
+    let claimed: NotificationOutboxEntry[];
+    do {
+      claimed = await storage.claimDueNotifications(config.notifications.batchSize, CLAIM_LEASE_MS);
+      for (const message of claimed) {
+        await deliver(message);
+      }
+    } while (claimed.length === config.notifications.batchSize);
+  } while (requeued);
+}
+
+export const notificationService = {
+  /**
+   * Render a template and queue it for each delivery. Nothing is sent here;
+   * the worker picks the messages up straight away and retries failures.
+   */
+  async send<T extends TemplateName>(
+    template: T,
+    params: TemplateParams<T>,
+    deliveries: Delivery[],
+    context: NotificationContext = {}
+  ): Promise<NotificationOutboxEntry[]> {
+    const message = render(template, params);
+    const entries: NewNotificationOutboxEntry[] = deliveries.map(delivery => ({
+      channel: delivery.channel,
+      recipient: delivery.recipient,
+      template,
+      ...contentFor(delivery.channel, message),
+      userId: context.userId,
+      emergencyId: context.emergencyId,
+    }));
+
+    const queued = await storage.enqueueNotifications(entries);
+    if (queued.length > 0) notificationService.processOutbox();
+    return queued;
+  },
+
+  /**
+   * Queue a template to a user on each of the given channels they can be
+   * reached on and have not opted out of. SMS goes only to a verified phone number.
+   */
+  async notifyUser<T extends TemplateName>(
+    user: User,
+    template: T,
+    params: TemplateParams<T>,
+    channels: NotificationChannel[],
+    emergencyId?: number
+  ): Promise<NotificationOutboxEntry[]> {
+    if (!ALWAYS_SENT.includes(template)) {
+      const preferences = await userPreferencesService.get(user.id);
+      channels = channels.filter(channel => channelEnabled(channel, preferences));
+    }
+
+    const deliveries = channels.flatMap((channel): Delivery[] => {
+      switch (channel) {
+        case 'email':
+          return user.email ? [{ channel, recipient: user.email }] : [];
+        case 'sms':
+          return user.phone && user.isPhoneVerified ? [{ channel, recipient: user.phone }] : [];
+        case 'in_app':
+        case 'push':
+          return [{ channel, recipient: String(user.id) }];
+      }
+    });
+    return await notificationService.send(template, params, deliveries, { userId: user.id, emergencyId });
+  },
+
+  /**
+   * Send a test email immediately, bypassing the outbox, so configuration
+   * errors reach the caller
+   */
+  async sendTestEmail(to: string): Promise<void> {
+    await adapters.email.deliver({
+      recipient: to,
+      emergencyId: null,
+      ...contentFor('email', render('test', undefined)),
+    });
+  },
+
+  async getEmergencyDeliveryReport(emergencyId: number): Promise<EmergencyDeliveryReport> {
+    const messages = await storage.getEmergencyNotifications(emergencyId);
+    const counts: Record<string, number> = {};
+    messages.forEach(message => {
+      counts[message.status] = (counts[message.status] ?? 0) + 1;
+    });
+    return {
+      emergencyId,
+      counts,
+      messages: messages.map(message => ({
+        id: message.id,
+        channel: message.channel,
+        recipient: message.recipient,
+        template: message.template,
+        status: message.status,
+        attempts: message.attempts,
+        lastError: message.lastError,
+        nextAttemptAt: message.status === NotificationStatus.PENDING ? message.nextAttemptAt : null,
+        sentAt: message.sentAt,
+        createdAt: message.createdAt,
+      })),
+    };
+  },
+
+  // Deliver whatever is due now. Safe to call at any time; overlapping calls share one run.
+  processOutbox() {
+    if (draining) {
+      requeued = true;
+      return;
+    }
+    draining = drainOutbox()
+      .catch(error => console.error('Error processing notification outbox:', error))
+      .finally(() => {
+        draining = null;
+      });
+  },
+
+  start(customAdapters?: Partial<Record<NotificationChannel, ChannelAdapter>>) {
+    if (customAdapters) adapters = { ...adapters, ...customAdapters };
+    if (timer) return;
+
+    notificationService.processOutbox();
+    timer = setInterval(() => notificationService.processOutbox(), config.notifications.pollIntervalSeconds * 1000);
+    timer.unref();
+  },
+
+  stop() {
+    if (timer) clearInterval(timer);
+    timer = null;
+  },
+};
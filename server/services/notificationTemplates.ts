@@ -0,0 +1,195 @@
+import { config } from '../config';
+
+/**
+ * A message rendered for every channel: subject, html and text for email,
+ * and a single line for SMS, push and the in-app list
+ */
+export interface RenderedMessage {
+  subject: string;
+  html: string;
+  text: string;
+  short: string;
+}
+
+export const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const statusLabel = (status: string) => status.replace(/_/g, ' ');
+
+const appLink = (path: string) => `${config.appUrl}${path}`;
+
+const layout = (title: string, content: string) => `
+  <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+    <h2 style="color: #2563eb;">${title}</h2>
+    ${content}
+  </div>
+`;
+
+const panel = (content: string, background = '#f3f4f6') =>
+  `<div style="background-color: ${background}; padding: 15px; border-radius: 5px; margin: 20px 0;">${content}</div>`;
+
+export const templates = {
+  emailVerification({ token, expiresInHours }: { token: string; expiresInHours: number }): RenderedMessage {
+    const url = appLink(`/verify-email/${token}`);
+    return {
+      subject: 'Verify your MediTrack account',
+      html: layout('Welcome to MediTrack!', `
+        <p>Please click the link below to verify your email address:</p>
+        <a href="${url}">${url}</a>
+        <p>This link will expire in ${expiresInHours} hours.</p>
+        <p>If you did not create a MediTrack account, please ignore this email.</p>
+      `),
+      text: `Welcome to MediTrack! Verify your email address here: ${url}\nThis link will expire in ${expiresInHours} hours.`,
+      short: `Verify your MediTrack email address: ${url}`,
+    };
+  },
+
+  passwordReset({ token, expiresInMinutes }: { token: string; expiresInMinutes: number }): RenderedMessage {
+    const url = appLink(`/reset-password/${token}`);
+    return {
+      subject: 'Reset your MediTrack password',
+      html: layout('Password Reset Request', `
+        <p>You have requested to reset your password. Click the link below to proceed:</p>
+        <a href="${url}">${url}</a>
+        <p>This link will expire in ${expiresInMinutes} minutes and can only be used once.</p>
+        <p>If you did not request a password reset, please ignore this email.</p>
+      `),
+      text: `Reset your MediTrack password here: ${url}\nThis link will expire in ${expiresInMinutes} minutes and can only be used once.`,
+      short: `Reset your MediTrack password: ${url}`,
+    };
+  },
+
+  accountLocked({ lockedUntil }: { lockedUntil: Date }): RenderedMessage {
+    const url = appLink('/forgot-password');
+    return {
+      subject: 'Your MediTrack account has been temporarily locked',
+      html: layout('Account Temporarily Locked', `
+        <p>We locked your account after several failed sign-in attempts.</p>
+        <p>You can try again after ${lockedUntil.toUTCString()}, or ask an administrator to unlock it sooner.</p>
+        <p>If these attempts were not you, we recommend resetting your password:</p>
+        <a href="${url}">${url}</a>
+      `),
+      text: `We locked your MediTrack account after several failed sign-in attempts. You can try again after ${lockedUntil.toUTCString()}.\nIf these attempts were not you, reset your password: ${url}`,
+      short: `MediTrack: your account is locked until ${lockedUntil.toUTCString()} after failed sign-in attempts.`,
+    };
+  },
+
+  emergencyUpdate({ emergencyType, emergencyId, estimatedArrivalTime, responderContact, facilityName }: {
+    emergencyType: string;
+    emergencyId: number;
+    estimatedArrivalTime?: string;
+    responderContact?: string;
+    facilityName?: string;
+  }): RenderedMessage {
+    const details = [
+      estimatedArrivalTime && `📍 Estimated Arrival Time: ${escapeHtml(estimatedArrivalTime)}`,
+      responderContact && `📞 Responder Contact: ${escapeHtml(responderContact)}`,
+      facilityName && `🏥 Assigned Facility: ${escapeHtml(facilityName)}`,
+    ].filter(Boolean);
+    return {
+      subject: 'Emergency Response Update - Help is on the way',
+      html: layout('Emergency Response Update', `
+        <p>Help is on the way for your ${escapeHtml(emergencyType)} emergency (ID: ${emergencyId}).</p>
+        ${details.length > 0
+          ? panel(`<h3 style="color: #1f2937; margin-top: 0;">Response Details:</h3>${details.map(line => `<p>${line}</p>`).join('')}`)
+          : ''}
+        <p style="color: #374151;">Please stay calm and follow any instructions provided by emergency responders.</p>
+        ${panel(`<p style="color: #991b1b; margin: 0;"><strong>Important:</strong> If your situation worsens or changes, please contact emergency services immediately.</p>`, '#fee2e2')}
+        <p style="color: #6b7280; font-size: 0.875rem;">This is an automated message. Please do not reply to this email.</p>
+      `),
+      text: `Help is on the way for your ${emergencyType} emergency (ID: ${emergencyId}).`
+        + (estimatedArrivalTime ? `\nEstimated arrival: ${estimatedArrivalTime}` : ''),
+      short: `Help is on the way for your ${emergencyType} emergency`
+        + (estimatedArrivalTime ? `, arriving in about ${estimatedArrivalTime}.` : '.'),
+    };
+  },
+
+  emergencyResolved({ emergencyType, emergencyId }: { emergencyType: string; emergencyId: number }): RenderedMessage {
+    return {
+      subject: 'Your emergency has been resolved',
+      html: layout('Emergency Resolved', `
+        <p>Your ${escapeHtml(emergencyType)} emergency (ID: ${emergencyId}) has been marked as resolved.</p>
+        <p style="color: #374151;">If you still need help, raise a new alert or contact emergency services immediately.</p>
+      `),
+      text: `Your ${emergencyType} emergency (ID: ${emergencyId}) has been marked as resolved.`,
+      short: `Your ${emergencyType} emergency has been resolved.`,
+    };
+  },
+
+  medicalAccessNotice({ staffName, emergencyId, justification, accessedAt }: {
+    staffName: string;
+    emergencyId: number;
+    justification: string;
+    accessedAt: Date;
+  }): RenderedMessage {
+    return {
+      subject: 'Your MediTrack medical information was accessed',
+      html: layout('Medical Information Accessed', `
+        <p>${escapeHtml(staffName)} viewed your medical information and emergency contacts
+          in connection with emergency ID ${emergencyId} on ${accessedAt.toUTCString()}.</p>
+        ${panel(`<h3 style="color: #1f2937; margin-top: 0;">Reason given:</h3><p>${escapeHtml(justification)}</p>`)}
+        <p style="color: #374151;">This access has been recorded. If you believe it was not appropriate,
+          please contact MediTrack support.</p>
+      `),
+      text: `${staffName} viewed your medical information and emergency contacts in connection with emergency ID ${emergencyId} on ${accessedAt.toUTCString()}.\nReason given: ${justification}`,
+      short: `MediTrack: ${staffName} viewed your medical information for emergency ${emergencyId}. Check your email for details.`,
+    };
+  },
+
+  // The SOS text to an emergency contact; short is what they receive
+  contactEmergencyAlert({ reporterName, emergencyType, status, latitude, longitude, trackingUrl }: {
+    reporterName: string;
+    emergencyType: string;
+    status: string;
+    latitude: number;
+    longitude: number;
+    trackingUrl: string;
+  }): RenderedMessage {
+    const area = `near ${latitude.toFixed(2)}, ${longitude.toFixed(2)}`;
+    return {
+      subject: `${reporterName} has raised an emergency alert`,
+      html: layout('Emergency Alert', `
+        <p>${escapeHtml(reporterName)} raised a ${escapeHtml(emergencyType)} emergency ${area}. Status: ${statusLabel(status)}.</p>
+        <p>Follow it here: <a href="${trackingUrl}">${trackingUrl}</a></p>
+      `),
+      text: `${reporterName} raised a ${emergencyType} emergency ${area}. Status: ${statusLabel(status)}.\nFollow it here: ${trackingUrl}`,
+      short: `MediTrack: ${reporterName} raised a ${emergencyType} emergency ${area}. Status: ${statusLabel(status)}. Follow: ${trackingUrl}`,
+    };
+  },
+
+  contactEmergencyDispatched({ reporterName, unitName, estimatedArrivalTime }: {
+    reporterName: string;
+    unitName?: string;
+    estimatedArrivalTime?: string;
+  }): RenderedMessage {
+    const unit = unitName ? `Unit ${unitName}` : 'A unit';
+    const eta = estimatedArrivalTime ? `, expected in about ${estimatedArrivalTime}` : '';
+    return {
+      subject: `Help has been dispatched to ${reporterName}`,
+      html: layout('Help Dispatched', `<p>${escapeHtml(unit)} has been dispatched to ${escapeHtml(reporterName)}${escapeHtml(eta)}.</p>`),
+      text: `${unit} has been dispatched to ${reporterName}${eta}.`,
+      short: `MediTrack: ${unit} has been dispatched to ${reporterName}${eta}.`,
+    };
+  },
+
+  contactEmergencyClosed({ reporterName, status }: { reporterName: string; status: string }): RenderedMessage {
+    return {
+      subject: `${reporterName}'s emergency is ${statusLabel(status)}`,
+      html: layout('Emergency Closed', `<p>${escapeHtml(reporterName)}'s emergency has been ${statusLabel(status)}.</p>`),
+      text: `${reporterName}'s emergency has been ${statusLabel(status)}.`,
+      short: `MediTrack: ${reporterName}'s emergency has been ${statusLabel(status)}. The tracking link no longer works.`,
+    };
+  },
+
+  test(): RenderedMessage {
+    return {
+      subject: 'Test Email from MediTrack',
+      html: '<h1>Test Email</h1><p>If you receive this, email notifications are working correctly.</p>',
+      text: 'If you receive this, email notifications are working correctly.',
+      short: 'MediTrack test notification.',
+    };
+  },
+};
+
+export type TemplateName = keyof typeof templates;
+export type TemplateParams<T extends TemplateName> = Parameters<typeof templates[T]>[0];
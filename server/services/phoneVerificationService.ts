@@ -0,0 +1,81 @@
+import { randomBytes, randomInt, timingSafeEqual } from 'crypto';
+import type { User } from '@shared/schema';
+import { storage } from '../storage';
+import { config } from '../config';
+import { hashToken } from '../tokens';
+import { smsGateway } from './smsGateway';
+
+export class PhoneVerificationError extends Error {
+  constructor(public status: number, message: string, public retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'PhoneVerificationError';
+  }
+}
+
+// Stored as salt.digest, so equal codes never share a hash
+function hashCode(code: string, salt = randomBytes(16).toString('hex')) {
+  return `${salt}.${hashToken(`${salt}:${code}`)}`;
+}
+
+export const phoneVerificationService = {
+  /**
+   * Text a fresh 6-digit code to `phone` (the account's number by default).
+   * Any earlier code for the user stops working.
+   */
+  async start(user: User, phone = user.phone): Promise<{ phone: string; expiresAt: Date }> {
+    if (user.isPhoneVerified && phone === user.phone) {
+      throw new PhoneVerificationError(400, 'Phone number is already verified');
+    }
+
+    const latest = await storage.getLatestPhoneVerification(user.id);
+    if (latest && !latest.verifiedAt) {
+      const cooldownMs = config.phoneVerification.resendCooldownSeconds * 1000;
+      const sinceLast = Date.now() - latest.createdAt.getTime();
+      if (sinceLast < cooldownMs) {
+        const retryAfter = Math.ceil((cooldownMs - sinceLast) / 1000);
+        throw new PhoneVerificationError(429, `Please wait ${retryAfter} seconds before requesting another code`, retryAfter);
+      }
+    }
+
+    const code = randomInt(0, 1000000).toString().padStart(6, '0');
+    const expiresAt = new Date(Date.now() + config.phoneVerification.codeTtlMinutes * 60 * 1000);
+    await storage.createPhoneVerification({ userId: user.id, phone, codeHash: hashCode(code), expiresAt });
+
+    await smsGateway.send(
+      phone,
+      `Your MediTrack verification code is ${code}. It expires in ${config.phoneVerification.codeTtlMinutes} minutes.`
+    );
+    return { phone, expiresAt };
+  },
+
+  async confirm(user: User, code: string): Promise<void> {
+    const verification = await storage.getLatestPhoneVerification(user.id);
+    if (!verification || verification.verifiedAt) {
+      throw new PhoneVerificationError(400, 'No verification in progress. Request a new code.');
+    }
+    if (verification.expiresAt < new Date()) {
+      throw new PhoneVerificationError(400, 'This code has expired. Request a new one.');
+    }
+    if (verification.attempts >= config.phoneVerification.maxAttempts) {
+      throw new PhoneVerificationError(429, 'Too many incorrect attempts. Request a new code.');
+    }
+
+    const attempts = await storage.recordPhoneVerificationAttempt(verification.id);
+    const [salt] = verification.codeHash.split('.');
+    const expected = Buffer.from(verification.codeHash);
+    const supplied = Buffer.from(hashCode(code, salt));
+    if (attempts > config.phoneVerification.maxAttempts
+      || expected.length !== supplied.length
+      || !timingSafeEqual(expected, supplied)) {
+      const remaining = Math.max(0, config.phoneVerification.maxAttempts - attempts);
+      throw new PhoneVerificationError(
+        remaining > 0 ? 400 : 429,
+        remaining > 0
+          ? `Incorrect code. ${remaining} attempt${remaining === 1 ? '' : 's'} left.`
+          : 'Too many incorrect attempts. Request a new code.'
+      );
+    }
+
+    await storage.completePhoneVerification(verification);
+  },
+};
@@ -0,0 +1,178 @@
+import type { IncomingMessage, Server } from 'http';
+import type { Request, RequestHandler, Response } from 'express';
+import type { SessionData } from 'express-session';
+import { WebSocketServer, WebSocket } from 'ws';
+import { EmergencyStatus, UserRole, type EmergencyAlert, type User } from '@shared/schema';
+import { createServerMessage, type ServerMessage } from '@shared/ws-protocol';
+import { storage } from '../storage';
+import { isSessionExpired } from './sessionService';
+
+/*
+ * Every socket belongs to the session user that opened it and joins two
+ * rooms: `user:<id>` and `role:<role>`. Emergency traffic is addressed to
+ * the emergency's audience (reporter, assigned crew, dispatchers and admins)
+ * which is resolved from the database at send time, so assignments made
+ * after a socket connected are honoured without re-subscribing.
+ */
+
+const rooms = new Map<string, Set<WebSocket>>();
+// The session each socket was opened with, so revoking a session can close its sockets
+const socketSessions = new Map<WebSocket, string>();
+
+export const userRoom = (userId: number) => `user:${userId}`;
+export const roleRoom = (role: string) => `role:${role}`;
+
+const STATUS_MESSAGES: Record<string, string> = {
+  [EmergencyStatus.ACKNOWLEDGED]: 'Your emergency has been acknowledged by a dispatcher.',
+  [EmergencyStatus.DISPATCHED]: 'A unit has been dispatched to your location.',
+  [EmergencyStatus.EN_ROUTE]: 'The responding unit is on its way.',
+  [EmergencyStatus.ON_SCENE]: 'The responding unit has arrived.',
+  [EmergencyStatus.TRANSPORTING]: 'You are being transported to a facility.',
+  [EmergencyStatus.AT_FACILITY]: 'You have arrived at the facility.',
+  [EmergencyStatus.RESOLVED]: 'Your emergency has been resolved.',
+  [EmergencyStatus.CANCELLED]: 'Your emergency has been cancelled.',
+};
+
+// Dispatchers and admins see every emergency
+const STAFF_ROOMS = [roleRoom(UserRole.RESPONSE_TEAM), roleRoom(UserRole.ADMIN)];
+
+function join(ws: WebSocket, room: string) {
+  if (!rooms.has(room)) rooms.set(room, new Set());
+  rooms.get(room)!.add(ws);
+}
+
+function leaveAll(ws: WebSocket) {
+  rooms.forEach((members, room) => {
+    members.delete(ws);
+    if (members.size === 0) rooms.delete(room);
+  });
+}
+
+// An upgrade request once the session middleware has run over it
+type UpgradeRequest = IncomingMessage & {
+  session?: SessionData & { passport?: { user?: number } };
+  sessionID?: string;
+};
+
+async function authenticateUpgrade(
+  req: UpgradeRequest,
+  sessionParser: RequestHandler
+): Promise<{ user: User; sessionId: string } | undefined> {
+  await new Promise<void>((resolve) => sessionParser(req as Request, {} as Response, () => resolve()));
+  const session = req.session;
+  // Held to the same lifetime and idle limits as HTTP requests
+  if (!session || !req.sessionID || isSessionExpired(session)) return undefined;
+  const userId = session.passport?.user;
+  const user = userId ? await storage.getUser(userId) : undefined;
+  return user ? { user, sessionId: req.sessionID } : undefined;
+}
+
+export const realtimeService = {
+  /**
+   * Accept WebSocket upgrades on /ws for logged-in sessions only
+   */
+  attach(
+    httpServer: Server,
+    sessionParser: RequestHandler,
+    onConnection: (ws: WebSocket, user: User) => void
+  ): WebSocketServer {
+    const wss = new WebSocketServer({ noServer: true });
+
+    httpServer.on('upgrade', async (req, socket, head) => {
+      // Other upgrade listeners (such as Vite HMR) own the remaining paths
+      if (new URL(req.url || '', 'http://localhost').pathname !== '/ws') return;
+
+      try {
+        const authenticated = await authenticateUpgrade(req, sessionParser);
+        if (!authenticated) {
+          socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+          socket.destroy();
+          return;
+        }
+
+        const { user, sessionId } = authenticated;
+        wss.handleUpgrade(req, socket, head, (ws) => {
+          join(ws, userRoom(user.id));
+          join(ws, roleRoom(user.role));
+          socketSessions.set(ws, sessionId);
+          ws.on('close', () => {
+            leaveAll(ws);
+            socketSessions.delete(ws);
+          });
+          onConnection(ws, user);
+        });
+      } catch (error) {
+        console.error('WebSocket upgrade failed:', error);
+        socket.write('HTTP/1.1 500 Internal Server Error\r\n\r\n');
+        socket.destroy();
+      }
+    });
+
+    return wss;
+  },
+
+  /**
+   * Close the sockets opened by the given sessions, e.g. after they are revoked
+   */
+  disconnectSessions(sessionIds: string[]) {
+    const revoked = new Set(sessionIds);
+    socketSessions.forEach((sessionId, ws) => {
+      if (revoked.has(sessionId)) ws.close(4001, 'Session ended');
+    });
+  },
+
+  /**
+   * Send a message to every socket in the given rooms, once per socket
+   */
+  publish(roomNames: string[], message: ServerMessage, except?: WebSocket) {
+    const recipients = new Set<WebSocket>();
+    roomNames.forEach(room => rooms.get(room)?.forEach(ws => recipients.add(ws)));
+
+    const payload = JSON.stringify(message);
+    recipients.forEach((ws) => {
+      if (ws !== except && ws.readyState === WebSocket.OPEN) {
+        ws.send(payload);
+      }
+    });
+  },
+
+  /**
+   * Reply to a single socket
+   */
+  send(ws: WebSocket, message: ServerMessage) {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    }
+  },
+
+  publishToStaff(message: ServerMessage, except?: WebSocket) {
+    this.publish(STAFF_ROOMS, message, except);
+  },
+
+  async getEmergencyAudience(emergency: EmergencyAlert): Promise<string[]> {
+    const crew = emergency.ambulanceId ? await storage.getAmbulanceCrew(emergency.ambulanceId) : [];
+    return [
+      ...STAFF_ROOMS,
+      userRoom(emergency.userId),
+      ...crew.map(userRoom),
+    ];
+  },
+
+  async publishToEmergency(emergency: EmergencyAlert, message: ServerMessage, except?: WebSocket) {
+    this.publish(await this.getEmergencyAudience(emergency), message, except);
+  },
+
+  /**
+   * Tell an emergency's audience that it moved to a new status
+   */
+  async publishStatusChange(emergency: EmergencyAlert, previousStatus: string | null) {
+    if (emergency.status === previousStatus) return;
+    await this.publishToEmergency(emergency, createServerMessage('emergency_status_update', {
+      emergencyId: emergency.id,
+      userId: emergency.userId,
+      status: emergency.status,
+      previousStatus,
+      message: STATUS_MESSAGES[emergency.status] ?? `Your emergency is now ${emergency.status}.`,
+    }));
+  },
+};
@@ -0,0 +1,109 @@
+import { storage, type StoredSession } from '../storage';
+import { hashToken } from '../tokens';
+import { config } from '../config';
+import { realtimeService } from './realtimeService';
+
+export interface SessionSummary {
+  // Derived from the session id, which itself never leaves the server
+  id: string;
+  current: boolean;
+  device: string;
+  ip: string | null;
+  createdAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: string;
+}
+
+const publicId = (sid: string) => hashToken(sid).slice(0, 32);
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser/, 'Samsung Internet'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/Android/, 'Android'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+// A rough "Chrome on Android" label; good enough to recognise one's own devices
+export function describeDevice(userAgent?: string | null): string {
+  if (!userAgent) return 'Unknown device';
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser ?? platform ?? 'Unknown device';
+}
+
+/**
+ * Whether a session is past its lifetime or has sat idle too long. Such a
+ * session must not be used, whether over HTTP or to open a WebSocket.
+ */
+export function isSessionExpired(session: { createdAt?: number; lastSeenAt?: number }, now: number = Date.now()): boolean {
+  const lifetimeMs = config.session.lifetimeHours * 60 * 60 * 1000;
+  const idleMs = config.session.idleTimeoutMinutes * 60 * 1000;
+  return Boolean(
+    (session.createdAt && now - session.createdAt > lifetimeMs) ||
+    (session.lastSeenAt && now - session.lastSeenAt > idleMs)
+  );
+}
+
+const toIso = (ms: unknown) => typeof ms === 'number' ? new Date(ms).toISOString() : null;
+
+function summarize(session: StoredSession, currentSid?: string): SessionSummary {
+  return {
+    id: publicId(session.sid),
+    current: session.sid === currentSid,
+    device: describeDevice(session.sess.userAgent),
+    ip: session.sess.ip ?? null,
+    createdAt: toIso(session.sess.createdAt),
+    lastSeenAt: toIso(session.sess.lastSeenAt),
+    expiresAt: new Date(session.expire).toISOString(),
+  };
+}
+
+async function revokeSessions(sessions: StoredSession[]): Promise<number> {
+  const sids = sessions.map(session => session.sid);
+  const revoked = await storage.deleteSessions(sids);
+  realtimeService.disconnectSessions(sids);
+  return revoked;
+}
+
+export const sessionService = {
+  /**
+   * The user's live sessions, most recently used first
+   */
+  async list(userId: number, currentSid?: string): Promise<SessionSummary[]> {
+    const sessions = await storage.getUserSessions(userId);
+    return sessions
+      .map(session => summarize(session, currentSid))
+      .sort((a, b) => (b.lastSeenAt ?? '').localeCompare(a.lastSeenAt ?? ''));
+  },
+
+  // Returns false when the user has no session with this id
+  async revoke(userId: number, id: string): Promise<boolean> {
+    const sessions = await storage.getUserSessions(userId);
+    const target = sessions.find(session => publicId(session.sid) === id);
+    if (!target) return false;
+    await revokeSessions([target]);
+    return true;
+  },
+
+  async revokeOthers(userId: number, currentSid: string): Promise<number> {
+    const sessions = await storage.getUserSessions(userId);
+    return await revokeSessions(sessions.filter(session => session.sid !== currentSid));
+  },
+
+  // Admin force-logout: every session the user has, on every device
+  async revokeAll(userId: number): Promise<number> {
+    return await revokeSessions(await storage.getUserSessions(userId));
+  },
+};
@@ -0,0 +1,59 @@
+import { appendFile } from 'fs/promises';
+import { config } from '../config';
+
+export interface SmsGateway {
+  name: string;
+  send(to: string, message: string): Promise<void>;
+}
+
+/**
+ * Development stand-in: messages are printed and appended to a file instead
+ * of being sent, so codes can be read back while testing
+ */
+export function createConsoleSmsGateway(outboxFile = config.sms.outboxFile): SmsGateway {
+  return {
+    name: 'console',
+    async send(to, message) {
+      console.log(`[sms] to ${to}: ${message}`);
+      await appendFile(outboxFile, `${new Date().toISOString()}\t${to}\t${message.replace(/\n/g, ' ')}\n`);
+    },
+  };
+}
+
+// Africa's Talking bulk SMS API, which covers Kenyan networks
+export function createAfricasTalkingGateway(apiKey: string, username: string, senderId?: string): SmsGateway {
+  const endpoint = username === 'sandbox'
+    ? 'https://api.sandbox.africastalking.com/version1/messaging'
+    : 'https://api.africastalking.com/version1/messaging';
+
+  return {
+    name: 'africastalking',
+    async send(to, message) {
+      const body = new URLSearchParams({ username, to, message });
+      if (senderId) body.set('from', senderId);
+
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          apiKey,
+          Accept: 'application/json',
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body,
+      });
+      if (!response.ok) {
+        throw new Error(`SMS gateway responded ${response.status}: ${await response.text()}`);
+      }
+
+      const result = await response.json();
+      const recipient = result?.SMSMessageData?.Recipients?.[0];
+      if (!recipient || recipient.statusCode >= 400) {
+        throw new Error(`SMS to ${to} was rejected: ${recipient?.status ?? result?.SMSMessageData?.Message}`);
+      }
+    },
+  };
+}
+
+export const smsGateway: SmsGateway = config.sms.provider === 'africastalking'
+  ? createAfricasTalkingGateway(config.sms.apiKey, config.sms.username, config.sms.senderId)
+  : createConsoleSmsGateway();
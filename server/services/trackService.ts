@@ -0,0 +1,131 @@
+import type { EmergencyAlert, LocationUpdate } from '@shared/schema';
+import { storage } from '../storage';
+import { isOpenStatus } from './emergencyLifecycle';
+
+export interface TrackPoint {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  timestamp: Date;
+}
+
+export interface Track {
+  subject: 'reporter' | 'unit';
+  userId?: number;
+  ambulanceId?: number;
+  label: string;
+  points: TrackPoint[];
+  // Breadcrumbs recorded before downsampling
+  recordedPoints: number;
+}
+
+export interface EmergencyTrack {
+  emergencyId: number;
+  from: Date;
+  to: Date;
+  toleranceMeters: number;
+  tracks: Track[];
+}
+
+export const DEFAULT_TOLERANCE_METERS = 10;
+export const MAX_TOLERANCE_METERS = 1000;
+
+const EARTH_RADIUS_M = 6371000;
+
+function toPoint(update: LocationUpdate): TrackPoint {
+  return {
+    latitude: parseFloat(update.latitude),
+    longitude: parseFloat(update.longitude),
+    accuracy: update.accuracy ? parseFloat(update.accuracy) : null,
+    timestamp: update.timestamp,
+  };
+}
+
+// Distance in metres from p to the segment a-b, on a local flat projection
+// which is accurate enough over the few kilometres an incident covers
+function distanceToSegment(p: TrackPoint, a: TrackPoint, b: TrackPoint): number {
+  const cosLat = Math.cos((a.latitude * Math.PI) / 180);
+  const project = (q: TrackPoint) => ({
+    x: ((q.longitude - a.longitude) * Math.PI / 180) * EARTH_RADIUS_M * cosLat,
+    y: ((q.latitude - a.latitude) * Math.PI / 180) * EARTH_RADIUS_M,
+  });
+
+  const pp = project(p);
+  const pb = project(b);
+  const lengthSq = pb.x * pb.x + pb.y * pb.y;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, (pp.x * pb.x + pp.y * pb.y) / lengthSq));
+  return Math.hypot(pp.x - t * pb.x, pp.y - t * pb.y);
+}
+
+/**
+ * Ramer-Douglas-Peucker simplification: drops points that lie within
+ * `toleranceMeters` of the line through their neighbours. Endpoints are kept.
+ */
+export function simplifyTrack(points: TrackPoint[], toleranceMeters: number): TrackPoint[] {
+  if (toleranceMeters <= 0 || points.length <= 2) return points;
+
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = keep[points.length - 1] = true;
+
+  const stack: Array<[number, number]> = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    let farthest = -1;
+    let maxDistance = toleranceMeters;
+    for (let i = start + 1; i < end; i++) {
+      const distance = distanceToSegment(points[i], points[start], points[end]);
+      if (distance > maxDistance) {
+        farthest = i;
+        maxDistance = distance;
+      }
+    }
+    if (farthest !== -1) {
+      keep[farthest] = true;
+      stack.push([start, farthest], [farthest, end]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+}
+
+// When the incident was resolved or cancelled, from its history; now while it is open
+async function closedAt(emergency: EmergencyAlert): Promise<Date> {
+  if (isOpenStatus(emergency.status)) return new Date();
+  const history = await storage.getEmergencyStatusHistory(emergency.id);
+  const closing = history.filter(entry => !isOpenStatus(entry.toStatus)).pop();
+  return closing?.createdAt ?? emergency.resolvedAt ?? emergency.updatedAt ?? new Date();
+}
+
+export const trackService = {
+  /**
+   * Breadcrumbs of the reporter and every unit sent to an emergency, from
+   * the moment it was raised until it was closed (or now, while open)
+   */
+  async getEmergencyTrack(emergency: EmergencyAlert, toleranceMeters = DEFAULT_TOLERANCE_METERS): Promise<EmergencyTrack> {
+    const from = emergency.createdAt ?? new Date(0);
+    const to = await closedAt(emergency);
+
+    const build = (track: Omit<Track, 'points' | 'recordedPoints'>, updates: LocationUpdate[]): Track => ({
+      ...track,
+      points: simplifyTrack(updates.map(toPoint), toleranceMeters),
+      recordedPoints: updates.length,
+    });
+
+    const tracks: Track[] = [
+      build(
+        { subject: 'reporter', userId: emergency.userId, label: 'Reporter' },
+        await storage.getUserLocationTrail(emergency.userId, from, to)
+      ),
+    ];
+
+    for (const ambulanceId of await storage.getEmergencyUnitIds(emergency.id)) {
+      const unit = await storage.getAmbulanceUnit(ambulanceId);
+      tracks.push(build(
+        { subject: 'unit', ambulanceId, label: unit?.name ?? `Unit ${ambulanceId}` },
+        await storage.getAmbulanceLocationTrail(ambulanceId, from, to)
+      ));
+    }
+
+    return { emergencyId: emergency.id, from, to, toleranceMeters, tracks };
+  },
+};
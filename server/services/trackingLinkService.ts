@@ -0,0 +1,171 @@
+import type { EmergencyAlert, EmergencyContact, TrackingLink } from '@shared/schema';
+import { storage } from '../storage';
+import { config } from '../config';
+import { createToken, hashToken } from '../tokens';
+import { auditService, type AuditContext } from './auditService';
+import { isOpenStatus } from './emergencyLifecycle';
+
+export class TrackingLinkError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'TrackingLinkError';
+  }
+}
+
+export interface TrackingLinkSummary {
+  id: number;
+  contactId: number | null;
+  contactName: string | null;
+  createdById: number | null;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  createdAt: Date;
+  active: boolean;
+}
+
+/**
+ * What anyone holding a link may see: progress and the responding unit, with
+ * the patient's position coarsened and nothing from their medical record
+ */
+export interface PublicTrackingView {
+  emergencyType: string;
+  status: string;
+  reportedAt: Date | null;
+  updatedAt: Date | null;
+  area: { latitude: number; longitude: number };
+  unit: {
+    name: string;
+    unitType: string;
+    latitude: number;
+    longitude: number;
+    updatedAt: Date | null;
+  } | null;
+  etaSeconds: number | null;
+  etaUpdatedAt: Date | null;
+  linkExpiresAt: Date;
+}
+
+// 128 bits keeps the link short enough for a single SMS
+const TOKEN_BYTES = 16;
+
+/**
+ * A position rounded to two decimal places, roughly a kilometre, for people
+ * who should know the area but not the address
+ */
+export function coarseLocation(latitude: string | number, longitude: string | number) {
+  const round = (value: string | number) => Math.round(Number(value) * 100) / 100;
+  return { latitude: round(latitude), longitude: round(longitude) };
+}
+
+// Links stop working when revoked, when they expire, or once the emergency is closed
+const isActive = (link: TrackingLink, emergency: EmergencyAlert) =>
+  !link.revokedAt && link.expiresAt > new Date() && isOpenStatus(emergency.status);
+
+function summarize(link: TrackingLink, emergency: EmergencyAlert, contacts: EmergencyContact[]): TrackingLinkSummary {
+  return {
+    id: link.id,
+    contactId: link.contactId,
+    contactName: contacts.find(contact => contact.id === link.contactId)?.name ?? null,
+    createdById: link.createdById,
+    expiresAt: link.expiresAt,
+    revokedAt: link.revokedAt,
+    createdAt: link.createdAt,
+    active: isActive(link, emergency),
+  };
+}
+
+export const trackingLinkService = {
+  /**
+   * Issue a link for following an emergency without signing in. The token is
+   * only returned here; the link row keeps its hash.
+   */
+  async create(
+    emergency: EmergencyAlert,
+    options: { contactId?: number; createdById?: number } = {}
+  ): Promise<{ link: TrackingLink; token: string; url: string }> {
+    if (!isOpenStatus(emergency.status)) {
+      throw new TrackingLinkError(409, 'Tracking links can only be shared while the emergency is open');
+    }
+
+    const { token, hash } = createToken(TOKEN_BYTES);
+    const link = await storage.createTrackingLink({
+      emergencyId: emergency.id,
+      tokenHash: hash,
+      contactId: options.contactId,
+      createdById: options.createdById,
+      expiresAt: new Date(Date.now() + config.emergency.trackingLinkTtlHours * 60 * 60 * 1000),
+    });
+    return { link, token, url: `${config.appUrl}/track/${token}` };
+  },
+
+  // A link the reporter shares themselves, recorded on the audit log
+  async share(emergency: EmergencyAlert, context: AuditContext): Promise<{ url: string; link: TrackingLinkSummary }> {
+    const { link, url } = await trackingLinkService.create(emergency, { createdById: context.actorId ?? undefined });
+    await auditService.record(context, {
+      action: 'tracking_link.created',
+      entityType: 'emergency',
+      entityId: emergency.id,
+      after: { linkId: link.id, expiresAt: link.expiresAt },
+    });
+    return { url, link: summarize(link, emergency, []) };
+  },
+
+  async list(emergency: EmergencyAlert): Promise<TrackingLinkSummary[]> {
+    const [links, contacts] = await Promise.all([
+      storage.getTrackingLinks(emergency.id),
+      storage.getEmergencyContactsByUserId(emergency.userId),
+    ]);
+    return links.map(link => summarize(link, emergency, contacts));
+  },
+
+  async revoke(emergency: EmergencyAlert, linkId: number, context: AuditContext): Promise<void> {
+    const revoked = await storage.revokeTrackingLink(emergency.id, linkId);
+    if (!revoked) {
+      throw new TrackingLinkError(404, 'Tracking link not found');
+    }
+    await auditService.record(context, {
+      action: 'tracking_link.revoked',
+      entityType: 'emergency',
+      entityId: emergency.id,
+      after: { linkId },
+    });
+  },
+
+  /**
+   * The public view behind a token. Unknown tokens are 404; revoked, expired
+   * and closed-emergency links are 410 so the page can say the link has ended.
+   */
+  async view(token: string): Promise<PublicTrackingView> {
+    const link = await storage.getTrackingLinkByHash(hashToken(token));
+    const emergency = link && await storage.getEmergencyAlert(link.emergencyId);
+    if (!link || !emergency) {
+      throw new TrackingLinkError(404, 'Tracking link not found');
+    }
+    if (!isActive(link, emergency)) {
+      throw new TrackingLinkError(410, isOpenStatus(emergency.status)
+        ? 'This tracking link has expired'
+        : 'This emergency has been closed');
+    }
+
+    const unit = emergency.ambulanceId ? await storage.getAmbulanceUnit(emergency.ambulanceId) : undefined;
+    return {
+      emergencyType: emergency.emergencyType,
+      status: emergency.status,
+      reportedAt: emergency.createdAt,
+      updatedAt: emergency.updatedAt,
+      area: coarseLocation(emergency.latitude, emergency.longitude),
+      unit: unit && unit.latitude && unit.longitude
+        ? {
+            name: unit.name,
+            unitType: unit.unitType,
+            latitude: Number(unit.latitude),
+            longitude: Number(unit.longitude),
+            updatedAt: unit.lastLocationUpdate,
+          }
+        : null,
+      etaSeconds: emergency.etaSeconds,
+      etaUpdatedAt: emergency.etaUpdatedAt,
+      linkExpiresAt: link.expiresAt,
+    };
+  },
+};
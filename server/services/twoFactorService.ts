@@ -0,0 +1,189 @@
+import { randomInt } from 'crypto';
+import type { User } from '@shared/schema';
+import { storage } from '../storage';
+import { config } from '../config';
+import { hashToken } from '../tokens';
+import { auditService, type AuditContext } from './auditService';
+import { generateSecret, otpauthUrl, verifyCode } from './totp';
+
+export class TwoFactorError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'TwoFactorError';
+  }
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  // The user's role may not sign in without it
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export type LoginStep =
+  | { status: 'passed'; recoveryCodes?: string[] }
+  | { status: 'code_required' }
+  | { status: 'setup_required'; setup: TwoFactorSetup }
+  | { status: 'invalid_code' };
+
+// Lower-case base32 without the look-alike letters; 50 bits per code
+const RECOVERY_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+const RECOVERY_CODE_LENGTH = 10;
+
+// Hyphens, spaces and case are forgiven when a code is typed back in
+const normalizeRecoveryCode = (code: string) => code.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: config.twoFactor.recoveryCodeCount }, () => {
+    let code = '';
+    for (let i = 0; i < RECOVERY_CODE_LENGTH; i++) {
+      code += RECOVERY_ALPHABET[randomInt(RECOVERY_ALPHABET.length)];
+    }
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(code => hashToken(normalizeRecoveryCode(code))) };
+}
+
+// A 6-digit authenticator code, or failing that one of the user's unused recovery codes
+async function verify(user: User, code: string, context: AuditContext): Promise<boolean> {
+  const twoFactor = await storage.getTwoFactor(user.id);
+  if (!twoFactor?.enabledAt) return false;
+
+  if (/^\d{6}$/.test(code.trim())) {
+    const step = verifyCode(twoFactor.secret, code.trim());
+    return step !== null && await storage.claimTwoFactorStep(user.id, step);
+  }
+
+  const used = await storage.useRecoveryCode(user.id, hashToken(normalizeRecoveryCode(code)));
+  if (used) {
+    await auditService.record(context, {
+      action: 'user.recovery_code_used',
+      entityType: 'user',
+      entityId: user.id,
+      after: { remaining: await storage.countRecoveryCodes(user.id) },
+    });
+  }
+  return used;
+}
+
+export const twoFactorService = {
+  isRequired(user: User): boolean {
+    return config.twoFactor.requiredRoles.includes(user.role);
+  },
+
+  async status(user: User): Promise<TwoFactorStatus> {
+    const twoFactor = await storage.getTwoFactor(user.id);
+    const enabled = !!twoFactor?.enabledAt;
+    return {
+      enabled,
+      required: this.isRequired(user),
+      recoveryCodesRemaining: enabled ? await storage.countRecoveryCodes(user.id) : 0,
+    };
+  },
+
+  /**
+   * A new secret for the user's authenticator app. Nothing changes at login
+   * until a code from it has been confirmed with enable().
+   */
+  async beginSetup(user: User): Promise<TwoFactorSetup> {
+    const existing = await storage.getTwoFactor(user.id);
+    if (existing?.enabledAt) {
+      throw new TwoFactorError(400, 'Two-factor sign-in is already on');
+    }
+
+    const secret = generateSecret();
+    await storage.saveTwoFactorSecret(user.id, secret);
+    return { secret, otpauthUrl: otpauthUrl(secret, user.username, config.twoFactor.issuer) };
+  },
+
+  // Returns the recovery codes, which are only ever shown this once
+  async enable(user: User, code: string, context: AuditContext): Promise<string[]> {
+    const pending = await storage.getTwoFactor(user.id);
+    if (!pending || pending.enabledAt) {
+      throw new TwoFactorError(400, 'Start two-factor setup first');
+    }
+
+    const step = verifyCode(pending.secret, code);
+    if (step === null) {
+      throw new TwoFactorError(400, 'That code did not match. Check the time on your device and try again.');
+    }
+
+    const { codes, hashes } = generateRecoveryCodes();
+    if (!(await storage.enableTwoFactor(user.id, step, hashes))) {
+      throw new TwoFactorError(409, 'Two-factor setup changed in the meantime; start again');
+    }
+    await auditService.record(context, {
+      action: 'user.two_factor_enabled',
+      entityType: 'user',
+      entityId: user.id,
+    });
+    return codes;
+  },
+
+  async disable(user: User, code: string, context: AuditContext): Promise<void> {
+    if (this.isRequired(user)) {
+      throw new TwoFactorError(403, 'Two-factor sign-in is required for your role');
+    }
+    if (!(await verify(user, code, context))) {
+      throw new TwoFactorError(400, 'Invalid authentication code');
+    }
+
+    await storage.deleteTwoFactor(user.id);
+    await auditService.record(context, {
+      action: 'user.two_factor_disabled',
+      entityType: 'user',
+      entityId: user.id,
+    });
+  },
+
+  // Replaces every earlier recovery code, used or not
+  async regenerateRecoveryCodes(user: User, code: string, context: AuditContext): Promise<string[]> {
+    if (!(await verify(user, code, context))) {
+      throw new TwoFactorError(400, 'Invalid authentication code');
+    }
+
+    const { codes, hashes } = generateRecoveryCodes();
+    await storage.replaceRecoveryCodes(user.id, hashes);
+    await auditService.record(context, {
+      action: 'user.recovery_codes_regenerated',
+      entityType: 'user',
+      entityId: user.id,
+    });
+    return codes;
+  },
+
+  // Admin reset for a user who has lost both the authenticator and the recovery codes
+  async reset(userId: number): Promise<boolean> {
+    return await storage.deleteTwoFactor(userId);
+  },
+
+  /**
+   * The second step of signing in, once the password has checked out. Users
+   * whose role requires two-factor but who have not enrolled are walked
+   * through setup here, and pass once they confirm their first code.
+   */
+  async loginStep(user: User, code: string | undefined, context: AuditContext): Promise<LoginStep> {
+    const twoFactor = await storage.getTwoFactor(user.id);
+    if (twoFactor?.enabledAt) {
+      if (!code) return { status: 'code_required' };
+      return (await verify(user, code, context)) ? { status: 'passed' } : { status: 'invalid_code' };
+    }
+
+    if (!this.isRequired(user)) return { status: 'passed' };
+    if (!code || !twoFactor) {
+      return { status: 'setup_required', setup: await this.beginSetup(user) };
+    }
+
+    try {
+      return { status: 'passed', recoveryCodes: await this.enable(user, code, context) };
+    } catch (error) {
+      if (error instanceof TwoFactorError) return { status: 'invalid_code' };
+      throw error;
+    }
+  },
+};
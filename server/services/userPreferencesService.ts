@@ -0,0 +1,25 @@
+import type { UpdateUserPreferences, UserPreferences } from '@shared/schema';
+import { storage } from '../storage';
+
+export type PreferenceSettings = Omit<UserPreferences, 'userId' | 'updatedAt'>;
+
+// Matches the column defaults, for users who have never changed a setting
+const DEFAULT_PREFERENCES: PreferenceSettings = {
+  notifications: true,
+  smsNotifications: false,
+  locationTracking: true,
+  darkMode: true,
+};
+
+const settingsOf = ({ userId, updatedAt, ...settings }: UserPreferences): PreferenceSettings => settings;
+
+export const userPreferencesService = {
+  async get(userId: number): Promise<PreferenceSettings> {
+    const preferences = await storage.getUserPreferences(userId);
+    return preferences ? settingsOf(preferences) : { ...DEFAULT_PREFERENCES };
+  },
+
+  async update(userId: number, changes: UpdateUserPreferences): Promise<PreferenceSettings> {
+    return settingsOf(await storage.updateUserPreferences(userId, changes));
+  },
+};
@@ -11,12 +11,14 @@ import {
   type InsertMedicalInfo,
   type EmergencyContact,
   type InsertEmergencyContact,
+  type UpdateEmergencyContact,
   type EmergencyAlert,
   type InsertEmergencyAlert,
   type AmbulanceUnit,
   type InsertAmbulanceUnit,
   type MedicalFacility,
   type InsertMedicalFacility,
+  type FacilityUpsert,
   messages,
   UserRole,
   emergencyResources,
@@ -25,21 +27,169 @@ import {
   emergencyResourceAssignments,
   locationUpdates,
   userPreferences,
-  userMedicalInfo
+  userMedicalInfo,
+  emergencyStatusHistory,
+  EmergencyStatus,
+  type EmergencyStatusHistory,
+  unitTrips,
+  type UnitTrip,
+  ambulanceCrewMembers,
+  type LocationUpdate,
+  phoneVerifications,
+  type PhoneVerification,
+  auditEvents,
+  type AuditEvent,
+  authThrottles,
+  type AuthThrottle,
+  userTwoFactor,
+  type UserTwoFactor,
+  type UserPreferences,
+  type UpdateUserPreferences,
+  twoFactorRecoveryCodes,
+  apiTokens,
+  type ApiToken,
+  notificationOutbox,
+  NotificationStatus,
+  type NotificationOutboxEntry,
+  type NewNotificationOutboxEntry,
+  notifications,
+  type Notification,
+  trackingLinks,
+  type TrackingLink,
+  type AuditEventFilters
 } from "@shared/schema";
 import session from "express-session";
 import createMemoryStore from "memorystore";
-import { calculateDistance } from "../client/src/hooks/use-maps";
 import { db } from "./db";
-import { eq, desc, and, sql, asc, gte, or } from "drizzle-orm";
+import { eq, desc, and, sql, asc, gt, gte, lt, lte, or, inArray, isNull, isNotNull, type SQL } from "drizzle-orm";
 import connectPg from "connect-pg-simple";
 import { pool } from "./db";
 import { type EmergencyResource, type EmergencyResourceType, type EmergencyTypeResource, type EmergencyResourceAssignment } from "@shared/schema";
-import { Client } from "@googlemaps/google-maps-services-js";
+import { UnitUnavailableError, assertTransition, isOpenStatus, normalizeStatus, OPEN_STATUSES } from "./services/emergencyLifecycle";
+import { config } from "./config";
+import { diffRecords, hashAuditEntry, type AuditEntry, type RequestOrigin } from "./services/auditChain";
+import type { AnyPgTable } from "drizzle-orm/pg-core";
 
 const PostgresSessionStore = connectPg(session);
 const MemoryStore = createMemoryStore(session);
-const placesClient = new Client({});
+
+export interface NearbyOptions {
+  radiusMeters?: number;
+  limit?: number;
+}
+
+// The geog columns are maintained by triggers and indexed with GiST; see migrations/0009_spatial_columns.sql
+const geog = (table: AnyPgTable) => sql`${table}.geog`;
+const geoPoint = (lat: number, lng: number) => sql`ST_SetSRID(ST_MakePoint(${lng}, ${lat}), 4326)::geography`;
+
+// Key for the advisory lock that serialises appends to the audit chain
+const AUDIT_CHAIN_LOCK = 7401;
+
+type AuditWriter = Pick<typeof db, 'select' | 'insert' | 'execute'>;
+
+// Chain an event onto the latest one; run inside the transaction that made the change
+async function insertAuditEvent(tx: AuditWriter, entry: AuditEntry): Promise<AuditEvent> {
+  await tx.execute(sql`SELECT pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK})`);
+  const [last] = await tx.select({ hash: auditEvents.hash })
+    .from(auditEvents)
+    .orderBy(desc(auditEvents.id))
+    .limit(1);
+  const prevHash = last?.hash ?? null;
+
+  const [event] = await tx.insert(auditEvents)
+    .values({ ...entry, prevHash, hash: hashAuditEntry(prevHash, entry) })
+    .returning();
+  return event;
+}
+
+// Rows within the radius, nearest first; the <-> ordering is served by the index
+function nearbyClauses(table: AnyPgTable, lat: number, lng: number, radiusMeters: number) {
+  const point = geoPoint(lat, lng);
+  return {
+    within: sql`ST_DWithin(${geog(table)}, ${point}, ${radiusMeters})`,
+    nearestFirst: sql`${geog(table)} <-> ${point}`,
+  };
+}
+
+export interface StatusTransitionOptions {
+  actorId?: number;
+  reason?: string;
+  changes?: Partial<typeof emergencyAlerts.$inferInsert>;
+  // Where the change came from, for the audit log
+  origin?: RequestOrigin;
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Hand a unit back to the pool, unless it has already moved on to another incident
+async function releaseUnit(tx: Transaction, ambulanceId: number, emergencyId: number) {
+  await tx.update(ambulanceUnits)
+    .set({ status: "available", currentEmergencyId: null })
+    .where(and(eq(ambulanceUnits.id, ambulanceId), eq(ambulanceUnits.currentEmergencyId, emergencyId)));
+}
+
+// Move a locked alert to a new status, recording history and audit in the caller's transaction
+async function applyTransition(
+  tx: Transaction,
+  current: EmergencyAlert,
+  toStatus: string,
+  options: StatusTransitionOptions
+): Promise<EmergencyAlert> {
+  const nextStatus = assertTransition(current.status, toStatus);
+  const now = new Date();
+
+  const [updatedEmergency] = await tx.update(emergencyAlerts)
+    .set({
+      ...options.changes,
+      status: nextStatus,
+      updatedAt: now,
+      ...(nextStatus === EmergencyStatus.RESOLVED ? { resolvedAt: now } : {}),
+      ...(nextStatus === EmergencyStatus.ON_SCENE ? { etaSeconds: null, etaUpdatedAt: now } : {})
+    })
+    .where(eq(emergencyAlerts.id, current.id))
+    .returning();
+
+  // Arrival closes the unit's trip, which feeds future ETA estimates
+  if (nextStatus === EmergencyStatus.ON_SCENE) {
+    await tx.update(unitTrips)
+      .set({ arrivedAt: now })
+      .where(and(eq(unitTrips.emergencyId, current.id), isNull(unitTrips.arrivedAt)));
+  }
+
+  // Resolving or cancelling frees the unit for its next incident
+  if (!isOpenStatus(nextStatus) && updatedEmergency.ambulanceId) {
+    await releaseUnit(tx, updatedEmergency.ambulanceId, current.id);
+  }
+
+  await tx.insert(emergencyStatusHistory).values({
+    emergencyId: current.id,
+    fromStatus: normalizeStatus(current.status),
+    toStatus: nextStatus,
+    actorId: options.actorId ?? null,
+    reason: options.reason ?? null,
+    createdAt: now
+  });
+
+  await insertAuditEvent(tx, {
+    actorId: options.actorId ?? null,
+    action: 'emergency.status_changed',
+    entityType: 'emergency',
+    entityId: String(current.id),
+    ...diffRecords(current, updatedEmergency),
+    ip: options.origin?.ip ?? null,
+    userAgent: options.origin?.userAgent ?? null,
+    createdAt: now
+  });
+
+  return updatedEmergency;
+}
+
+// A row of the connect-pg-simple "session" table
+export interface StoredSession {
+  sid: string;
+  sess: Record<string, any>;
+  expire: Date;
+}
 
 export interface IStorage {
   // User operations
@@ -55,39 +205,111 @@ export interface IStorage {
   // Emergency contact operations
   getEmergencyContactsByUserId(userId: number): Promise<EmergencyContact[]>;
   createEmergencyContact(contact: InsertEmergencyContact): Promise<EmergencyContact>;
+  updateEmergencyContact(userId: number, id: number, changes: UpdateEmergencyContact): Promise<EmergencyContact | undefined>;
+  deleteEmergencyContact(userId: number, id: number): Promise<boolean>;
+  reorderEmergencyContacts(userId: number, ids: number[]): Promise<EmergencyContact[]>;
+
+  // Tracking links
+  createTrackingLink(data: typeof trackingLinks.$inferInsert): Promise<TrackingLink>;
+  getTrackingLinkByHash(tokenHash: string): Promise<TrackingLink | undefined>;
+  getTrackingLinks(emergencyId: number): Promise<TrackingLink[]>;
+  revokeTrackingLink(emergencyId: number, id: number): Promise<TrackingLink | undefined>;
   
   // Emergency alert operations
   createEmergencyAlert(alert: InsertEmergencyAlert): Promise<EmergencyAlert>;
   getActiveEmergencies(): Promise<EmergencyAlert[]>;
   getUserEmergencyHistory(userId: number): Promise<EmergencyAlert[]>;
   getRecentEmergencies(): Promise<EmergencyAlert[]>;
-  resolveEmergency(id: number): Promise<EmergencyAlert>;
-  assignAmbulance(emergencyId: number, ambulanceId: number): Promise<EmergencyAlert>;
+  resolveEmergency(id: number, actorId?: number, reason?: string, origin?: RequestOrigin): Promise<EmergencyAlert>;
+  assignAmbulance(emergencyId: number, ambulanceId: number, actorId?: number, origin?: RequestOrigin): Promise<EmergencyAlert>;
+  getEmergencyAlert(id: number): Promise<EmergencyAlert | undefined>;
+  transitionEmergencyStatus(id: number, toStatus: string, options?: StatusTransitionOptions): Promise<EmergencyAlert>;
+  getEmergencyStatusHistory(emergencyId: number): Promise<EmergencyStatusHistory[]>;
   
   // Ambulance operations
   getAmbulanceUnits(): Promise<AmbulanceUnit[]>;
   getAvailableAmbulanceUnits(): Promise<AmbulanceUnit[]>;
-  getNearbyAmbulances(lat: number, lng: number): Promise<AmbulanceUnit[]>;
+  getNearbyAmbulances(lat: number, lng: number, options?: NearbyOptions): Promise<AmbulanceUnit[]>;
   updateAmbulanceStatus(id: number, status: string): Promise<AmbulanceUnit>;
-  updateAmbulanceLocation(id: number, lat: number, lng: number): Promise<AmbulanceUnit>;
+  updateAmbulanceLocation(id: number, lat: number, lng: number, accuracy?: number): Promise<AmbulanceUnit>;
+  getAmbulanceUnit(id: number): Promise<AmbulanceUnit | undefined>;
+
+  // Crew operations
+  getAmbulanceCrew(ambulanceId: number): Promise<number[]>;
+  getCrewAmbulanceIds(userId: number): Promise<number[]>;
+  setAmbulanceCrew(ambulanceId: number, userIds: number[]): Promise<void>;
+  getOpenEmergenciesByUserId(userId: number): Promise<EmergencyAlert[]>;
+
+  // Trip and ETA operations
+  createUnitTrip(trip: typeof unitTrips.$inferInsert): Promise<UnitTrip>;
+  getCompletedUnitTrips(unitType: string, timeBand: string, limit: number): Promise<UnitTrip[]>;
+  setEmergencyEta(id: number, etaSeconds: number | null, computedAt: Date): Promise<void>;
   
   // Medical facility operations
   getMedicalFacilities(): Promise<MedicalFacility[]>;
-  getNearbyFacilities(lat: number, lng: number): Promise<MedicalFacility[]>;
+  getNearbyFacilities(lat: number, lng: number, options?: NearbyOptions): Promise<MedicalFacility[]>;
   
   // Session storage
   sessionStore: any; // Express session store instance
 
   // New methods for email verification and password reset
-  getUserByVerificationToken(token: string): Promise<User | undefined>;
-  getUserByResetToken(token: string): Promise<User | undefined>;
+  getUserByVerificationToken(tokenHash: string): Promise<User | undefined>;
+  setVerificationToken(userId: number, tokenHash: string, expiry: Date): Promise<void>;
+  getUserByResetToken(tokenHash: string): Promise<User | undefined>;
   verifyEmail(userId: number): Promise<void>;
-  setPasswordResetToken(userId: number, token: string, expiry: Date): Promise<void>;
+  setPasswordResetToken(userId: number, tokenHash: string, expiry: Date): Promise<void>;
   clearResetToken(userId: number): Promise<void>;
   updatePassword(userId: number, hashedPassword: string): Promise<void>;
+  getUserSessions(userId: number): Promise<StoredSession[]>;
+  deleteSessions(sessionIds: string[]): Promise<number>;
+
+  // Login throttling
+  getAuthThrottles(keys: string[]): Promise<AuthThrottle[]>;
+  recordAuthAttempt(key: string, windowStart: Date): Promise<AuthThrottle>;
+  lockAuthThrottle(key: string, until: Date): Promise<AuthThrottle>;
+  clearAuthThrottle(key: string): Promise<boolean>;
+  getActiveLockouts(): Promise<AuthThrottle[]>;
+
+  // Two-factor authentication
+  getTwoFactor(userId: number): Promise<UserTwoFactor | undefined>;
+  saveTwoFactorSecret(userId: number, secret: string): Promise<void>;
+  enableTwoFactor(userId: number, step: number, recoveryCodeHashes: string[]): Promise<boolean>;
+  claimTwoFactorStep(userId: number, step: number): Promise<boolean>;
+  replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void>;
+  useRecoveryCode(userId: number, codeHash: string): Promise<boolean>;
+  countRecoveryCodes(userId: number): Promise<number>;
+  deleteTwoFactor(userId: number): Promise<boolean>;
+
+  // Preferences
+  getUserPreferences(userId: number): Promise<UserPreferences | undefined>;
+  updateUserPreferences(userId: number, changes: UpdateUserPreferences): Promise<UserPreferences>;
+
+  // API tokens
+  createApiToken(data: typeof apiTokens.$inferInsert): Promise<ApiToken>;
+  getApiToken(id: number): Promise<ApiToken | undefined>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  getApiTokens(): Promise<ApiToken[]>;
+  revokeApiToken(id: number): Promise<ApiToken | undefined>;
+  touchApiToken(id: number): Promise<void>;
+
+  // Notifications
+  enqueueNotifications(entries: NewNotificationOutboxEntry[]): Promise<NotificationOutboxEntry[]>;
+  claimDueNotifications(limit: number, leaseMs: number): Promise<NotificationOutboxEntry[]>;
+  markNotificationSent(id: number): Promise<void>;
+  markNotificationFailed(id: number, error: string, retryAt: Date | null): Promise<void>;
+  getEmergencyNotifications(emergencyId: number): Promise<NotificationOutboxEntry[]>;
+  createNotification(data: typeof notifications.$inferInsert): Promise<Notification>;
+  getNotifications(userId: number, limit: number): Promise<Notification[]>;
+  markNotificationRead(userId: number, id: number): Promise<Notification | undefined>;
   updateLastLogin(userId: number): Promise<void>;
   getUserByEmail(email: string): Promise<User | undefined>;
 
+  // Phone verification
+  createPhoneVerification(data: { userId: number; phone: string; codeHash: string; expiresAt: Date }): Promise<PhoneVerification>;
+  getLatestPhoneVerification(userId: number): Promise<PhoneVerification | undefined>;
+  recordPhoneVerificationAttempt(id: number): Promise<number>;
+  completePhoneVerification(verification: PhoneVerification): Promise<void>;
+
   // User count
   getUserCount(): Promise<number>;
 
@@ -103,6 +325,7 @@ export interface IStorage {
 
   // Resource operations
   getAvailableResources(): Promise<EmergencyResource[]>;
+  getNearbyAvailableResources(lat: number, lng: number, options?: NearbyOptions): Promise<EmergencyResource[]>;
   getResourceTypes(): Promise<EmergencyResourceType[]>;
   getEmergencyTypeResources(): Promise<EmergencyTypeResource[]>;
   assignResources(emergencyId: number, resourceIds: number[]): Promise<EmergencyResourceAssignment[]>;
@@ -117,6 +340,8 @@ export interface IStorage {
   
   // Admin Facility Management
   getAllFacilities(): Promise<MedicalFacility[]>;
+  getFacility(id: number): Promise<MedicalFacility | undefined>;
+  updateFacilityCapacity(id: number, data: { capacity?: number; currentOccupancy: number }): Promise<MedicalFacility | undefined>;
   createFacility(facilityData: InsertMedicalFacility): Promise<MedicalFacility>;
   updateFacility(id: number, facilityData: Partial<InsertMedicalFacility>): Promise<MedicalFacility>;
   deleteFacility(id: number): Promise<void>;
@@ -141,21 +366,37 @@ export interface IStorage {
     emergencyType: string;
     description: string;
     priority: string;
-  }): Promise<EmergencyAlert>;
+    requiredResources?: string;
+    idempotencyKey?: string;
+  }, origin?: RequestOrigin): Promise<EmergencyAlert>;
+  getEmergencyAlertByIdempotencyKey(userId: number, idempotencyKey: string): Promise<EmergencyAlert | undefined>;
   createLocationUpdate(data: {
-    userId: number;
+    userId: number | null;
     latitude: string;
     longitude: string;
     accuracy?: string;
     timestamp: Date;
     source: string;
+    ambulanceId?: number;
   }): Promise<typeof locationUpdates.$inferInsert>;
+  getUserLocationTrail(userId: number, from: Date, to: Date): Promise<LocationUpdate[]>;
+  getAmbulanceLocationTrail(ambulanceId: number, from: Date, to: Date): Promise<LocationUpdate[]>;
+  getEmergencyUnitIds(emergencyId: number): Promise<number[]>;
 
-  syncNearbyFacilities(latitude: number, longitude: number, radius?: number): Promise<void>;
+  getFacilitiesBySource(source: string): Promise<MedicalFacility[]>;
+  saveFacilities(created: FacilityUpsert[], updated: { id: number; changes: Partial<FacilityUpsert> }[]): Promise<void>;
+
+  appendAuditEvent(entry: AuditEntry): Promise<AuditEvent>;
+  getAuditEvents(filters: AuditEventFilters): Promise<AuditEvent[]>;
+  getAuditEventsAfter(afterId: number, limit: number): Promise<AuditEvent[]>;
 }
 
 export const storage = {
-  sessionStore: null as any, // Express session store instance
+  sessionStore: new PostgresSessionStore({
+    pool,
+    createTableIfMissing: true,
+    tableName: 'session'
+  }) as any, // Express session store instance
 
   async getUserByUsername(username: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.username, username));
@@ -165,6 +406,7 @@ export const storage = {
       isEmailVerified: user.isEmailVerified || false,
       verificationToken: user.verificationToken || undefined,
       verificationExpiry: user.verificationExpiry || undefined,
+      verificationSentAt: user.verificationSentAt || undefined,
       resetToken: user.resetToken || undefined,
       resetExpiry: user.resetExpiry || undefined,
       lastLoginAt: user.lastLoginAt || undefined
@@ -179,6 +421,7 @@ export const storage = {
       isEmailVerified: user.isEmailVerified || false,
       verificationToken: user.verificationToken || undefined,
       verificationExpiry: user.verificationExpiry || undefined,
+      verificationSentAt: user.verificationSentAt || undefined,
       resetToken: user.resetToken || undefined,
       resetExpiry: user.resetExpiry || undefined,
       lastLoginAt: user.lastLoginAt || undefined
@@ -188,9 +431,12 @@ export const storage = {
   async createUser(userData: InsertUser): Promise<User> {
     const [user] = await db.insert(users).values({
       ...userData,
+      // Both contact points are unconfirmed until their own verification flow says otherwise
       isEmailVerified: false,
+      isPhoneVerified: false,
       verificationToken: null,
       verificationExpiry: null,
+      verificationSentAt: null,
       resetToken: null,
       resetExpiry: null,
       lastLoginAt: null,
@@ -202,21 +448,32 @@ export const storage = {
       isEmailVerified: user.isEmailVerified || false,
       verificationToken: user.verificationToken || undefined,
       verificationExpiry: user.verificationExpiry || undefined,
+      verificationSentAt: user.verificationSentAt || undefined,
       resetToken: user.resetToken || undefined,
       resetExpiry: user.resetExpiry || undefined,
       lastLoginAt: user.lastLoginAt || undefined
     };
   },
 
-  async getUserByVerificationToken(token: string): Promise<User | undefined> {
+  async getUserByVerificationToken(tokenHash: string): Promise<User | undefined> {
     return await db.query.users.findFirst({
-      where: eq(users.verificationToken, token)
+      where: eq(users.verificationToken, tokenHash)
     });
   },
 
-  async getUserByResetToken(token: string): Promise<User | undefined> {
+  async setVerificationToken(userId: number, tokenHash: string, expiry: Date): Promise<void> {
+    await db.update(users)
+      .set({
+        verificationToken: tokenHash,
+        verificationExpiry: expiry,
+        verificationSentAt: new Date()
+      })
+      .where(eq(users.id, userId));
+  },
+
+  async getUserByResetToken(tokenHash: string): Promise<User | undefined> {
     return await db.query.users.findFirst({
-      where: eq(users.resetToken, token)
+      where: eq(users.resetToken, tokenHash)
     });
   },
 
@@ -230,10 +487,10 @@ export const storage = {
       .where(eq(users.id, userId));
   },
 
-  async setPasswordResetToken(userId: number, token: string, expiry: Date): Promise<void> {
+  async setPasswordResetToken(userId: number, tokenHash: string, expiry: Date): Promise<void> {
     await db.update(users)
       .set({ 
-        resetToken: token,
+        resetToken: tokenHash,
         resetExpiry: expiry
       })
       .where(eq(users.id, userId));
@@ -254,6 +511,266 @@ export const storage = {
       .where(eq(users.id, userId));
   },
 
+  // Sessions live in the connect-pg-simple "session" table, keyed by the id passport serialized
+  async getUserSessions(userId: number): Promise<StoredSession[]> {
+    const result = await pool.query(
+      `SELECT sid, sess, expire FROM "session" WHERE sess->'passport'->>'user' = $1 AND expire > NOW()`,
+      [String(userId)]
+    );
+    return result.rows;
+  },
+
+  async deleteSessions(sessionIds: string[]): Promise<number> {
+    if (sessionIds.length === 0) return 0;
+    const result = await pool.query(`DELETE FROM "session" WHERE sid = ANY($1)`, [sessionIds]);
+    return result.rowCount ?? 0;
+  },
+
+  async getAuthThrottles(keys: string[]): Promise<AuthThrottle[]> {
+    if (keys.length === 0) return [];
+    return await db.select().from(authThrottles).where(inArray(authThrottles.key, keys));
+  },
+
+  // Counts restart once the first counted attempt falls out of the window
+  async recordAuthAttempt(key: string, windowStart: Date): Promise<AuthThrottle> {
+    const now = new Date();
+    // Bound as UTC strings, the way drizzle writes timestamp columns
+    const since = windowStart.toISOString();
+    const [throttle] = await db.insert(authThrottles)
+      .values({ key, attempts: 1, firstAttemptAt: now, lastAttemptAt: now })
+      .onConflictDoUpdate({
+        target: authThrottles.key,
+        set: {
+          attempts: sql`CASE WHEN ${authThrottles.firstAttemptAt} < ${since} THEN 1 ELSE ${authThrottles.attempts} + 1 END`,
+          firstAttemptAt: sql`CASE WHEN ${authThrottles.firstAttemptAt} < ${since} THEN ${now.toISOString()}::timestamp ELSE ${authThrottles.firstAttemptAt} END`,
+          lastAttemptAt: now,
+        },
+      })
+      .returning();
+    return throttle;
+  },
+
+  async lockAuthThrottle(key: string, until: Date): Promise<AuthThrottle> {
+    const [throttle] = await db.update(authThrottles)
+      .set({ lockedUntil: until, lockCount: sql`${authThrottles.lockCount} + 1` })
+      .where(eq(authThrottles.key, key))
+      .returning();
+    return throttle;
+  },
+
+  async clearAuthThrottle(key: string): Promise<boolean> {
+    const deleted = await db.delete(authThrottles)
+      .where(eq(authThrottles.key, key))
+      .returning({ key: authThrottles.key });
+    return deleted.length > 0;
+  },
+
+  async getActiveLockouts(): Promise<AuthThrottle[]> {
+    return await db.select()
+      .from(authThrottles)
+      .where(gt(authThrottles.lockedUntil, new Date()))
+      .orderBy(desc(authThrottles.lockedUntil));
+  },
+
+  async getTwoFactor(userId: number): Promise<UserTwoFactor | undefined> {
+    const [twoFactor] = await db.select().from(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+    return twoFactor;
+  },
+
+  // Starts enrollment over: a new secret that is not enabled until a code from it is confirmed
+  async saveTwoFactorSecret(userId: number, secret: string): Promise<void> {
+    await db.insert(userTwoFactor)
+      .values({ userId, secret })
+      .onConflictDoUpdate({
+        target: userTwoFactor.userId,
+        set: { secret, enabledAt: null, lastUsedStep: null, createdAt: new Date() },
+      });
+  },
+
+  // Returns false when there is no pending enrollment to confirm
+  async enableTwoFactor(userId: number, step: number, recoveryCodeHashes: string[]): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const enabled = await tx.update(userTwoFactor)
+        .set({ enabledAt: new Date(), lastUsedStep: step })
+        .where(and(eq(userTwoFactor.userId, userId), isNull(userTwoFactor.enabledAt)))
+        .returning({ userId: userTwoFactor.userId });
+      if (enabled.length === 0) return false;
+
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      await tx.insert(twoFactorRecoveryCodes)
+        .values(recoveryCodeHashes.map(codeHash => ({ userId, codeHash })));
+      return true;
+    });
+  },
+
+  // Accepts each time step once, in SQL so two requests cannot both use the same code
+  async claimTwoFactorStep(userId: number, step: number): Promise<boolean> {
+    const claimed = await db.update(userTwoFactor)
+      .set({ lastUsedStep: step })
+      .where(and(
+        eq(userTwoFactor.userId, userId),
+        isNotNull(userTwoFactor.enabledAt),
+        or(isNull(userTwoFactor.lastUsedStep), lt(userTwoFactor.lastUsedStep, step))
+      ))
+      .returning({ userId: userTwoFactor.userId });
+    return claimed.length > 0;
+  },
+
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      await tx.insert(twoFactorRecoveryCodes).values(codeHashes.map(codeHash => ({ userId, codeHash })));
+    });
+  },
+
+  async useRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const used = await db.update(twoFactorRecoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(twoFactorRecoveryCodes.userId, userId),
+        eq(twoFactorRecoveryCodes.codeHash, codeHash),
+        isNull(twoFactorRecoveryCodes.usedAt)
+      ))
+      .returning({ id: twoFactorRecoveryCodes.id });
+    return used.length > 0;
+  },
+
+  async countRecoveryCodes(userId: number): Promise<number> {
+    const [result] = await db.select({ count: sql<number>`cast(count(*) as integer)` })
+      .from(twoFactorRecoveryCodes)
+      .where(and(eq(twoFactorRecoveryCodes.userId, userId), isNull(twoFactorRecoveryCodes.usedAt)));
+    return result?.count ?? 0;
+  },
+
+  async deleteTwoFactor(userId: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      const deleted = await tx.delete(userTwoFactor)
+        .where(eq(userTwoFactor.userId, userId))
+        .returning({ userId: userTwoFactor.userId });
+      return deleted.length > 0;
+    });
+  },
+
+  async getUserPreferences(userId: number): Promise<UserPreferences | undefined> {
+    const [preferences] = await db.select().from(userPreferences).where(eq(userPreferences.userId, userId));
+    return preferences;
+  },
+
+  // Creates the row on first change; settings not named keep their current or default value
+  async updateUserPreferences(userId: number, changes: UpdateUserPreferences): Promise<UserPreferences> {
+    const [preferences] = await db.insert(userPreferences)
+      .values({ userId, ...changes })
+      .onConflictDoUpdate({
+        target: userPreferences.userId,
+        set: { ...changes, updatedAt: new Date() },
+      })
+      .returning();
+    return preferences;
+  },
+
+  async createApiToken(data: typeof apiTokens.$inferInsert): Promise<ApiToken> {
+    const [token] = await db.insert(apiTokens).values(data).returning();
+    return token;
+  },
+
+  async getApiToken(id: number): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.id, id));
+    return token;
+  },
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token;
+  },
+
+  async getApiTokens(): Promise<ApiToken[]> {
+    return await db.select().from(apiTokens).orderBy(desc(apiTokens.createdAt));
+  },
+
+  // Returns undefined when the token does not exist or was already revoked
+  async revokeApiToken(id: number): Promise<ApiToken | undefined> {
+    const [token] = await db.update(apiTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiTokens.id, id), isNull(apiTokens.revokedAt)))
+      .returning();
+    return token;
+  },
+
+  async touchApiToken(id: number): Promise<void> {
+    await db.update(apiTokens).set({ lastUsedAt: new Date() }).where(eq(apiTokens.id, id));
+  },
+
+  async enqueueNotifications(entries: NewNotificationOutboxEntry[]): Promise<NotificationOutboxEntry[]> {
+    if (entries.length === 0) return [];
+    return await db.insert(notificationOutbox).values(entries).returning();
+  },
+
+  /**
+   * Take up to `limit` due messages for delivery. Each is leased for `leaseMs`
+   * so a worker that dies mid-send leaves it to be picked up again, and
+   * concurrent workers skip rows another has locked.
+   */
+  async claimDueNotifications(limit: number, leaseMs: number): Promise<NotificationOutboxEntry[]> {
+    return await db.update(notificationOutbox)
+      .set({
+        status: NotificationStatus.SENDING,
+        attempts: sql`${notificationOutbox.attempts} + 1`,
+        nextAttemptAt: new Date(Date.now() + leaseMs),
+      })
+      .where(sql`${notificationOutbox.id} in (
+        select id from notification_outbox
+        where status in (${NotificationStatus.PENDING}, ${NotificationStatus.SENDING})
+          and next_attempt_at <= now()
+        order by next_attempt_at
+        limit ${limit}
+        for update skip locked
+      )`)
+      .returning();
+  },
+
+  async markNotificationSent(id: number): Promise<void> {
+    await db.update(notificationOutbox)
+      .set({ status: NotificationStatus.SENT, sentAt: new Date(), lastError: null })
+      .where(eq(notificationOutbox.id, id));
+  },
+
+  // A null retryAt gives up on the message for good
+  async markNotificationFailed(id: number, error: string, retryAt: Date | null): Promise<void> {
+    await db.update(notificationOutbox)
+      .set(retryAt
+        ? { status: NotificationStatus.PENDING, lastError: error, nextAttemptAt: retryAt }
+        : { status: NotificationStatus.FAILED, lastError: error })
+      .where(eq(notificationOutbox.id, id));
+  },
+
+  async getEmergencyNotifications(emergencyId: number): Promise<NotificationOutboxEntry[]> {
+    return await db.select().from(notificationOutbox)
+      .where(eq(notificationOutbox.emergencyId, emergencyId))
+      .orderBy(asc(notificationOutbox.createdAt), asc(notificationOutbox.id));
+  },
+
+  async createNotification(data: typeof notifications.$inferInsert): Promise<Notification> {
+    const [notification] = await db.insert(notifications).values(data).returning();
+    return notification;
+  },
+
+  async getNotifications(userId: number, limit: number): Promise<Notification[]> {
+    return await db.select().from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit);
+  },
+
+  // Undefined when the notification is not the user's
+  async markNotificationRead(userId: number, id: number): Promise<Notification | undefined> {
+    const [notification] = await db.update(notifications)
+      .set({ readAt: sql`coalesce(${notifications.readAt}, now())` })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return notification;
+  },
+
   async updateLastLogin(userId: number): Promise<void> {
     await db.update(users)
       .set({ lastLoginAt: new Date() })
@@ -268,12 +785,48 @@ export const storage = {
       isEmailVerified: user.isEmailVerified || false,
       verificationToken: user.verificationToken || undefined,
       verificationExpiry: user.verificationExpiry || undefined,
+      verificationSentAt: user.verificationSentAt || undefined,
       resetToken: user.resetToken || undefined,
       resetExpiry: user.resetExpiry || undefined,
       lastLoginAt: user.lastLoginAt || undefined
     } : undefined;
   },
 
+  // Phone verification
+  async createPhoneVerification(data: { userId: number; phone: string; codeHash: string; expiresAt: Date }): Promise<PhoneVerification> {
+    const [verification] = await db.insert(phoneVerifications).values(data).returning();
+    return verification;
+  },
+
+  async getLatestPhoneVerification(userId: number): Promise<PhoneVerification | undefined> {
+    const [verification] = await db.select()
+      .from(phoneVerifications)
+      .where(eq(phoneVerifications.userId, userId))
+      .orderBy(desc(phoneVerifications.createdAt))
+      .limit(1);
+    return verification;
+  },
+
+  // Counted in SQL so concurrent guesses cannot share one attempt
+  async recordPhoneVerificationAttempt(id: number): Promise<number> {
+    const [verification] = await db.update(phoneVerifications)
+      .set({ attempts: sql`${phoneVerifications.attempts} + 1` })
+      .where(eq(phoneVerifications.id, id))
+      .returning({ attempts: phoneVerifications.attempts });
+    return verification?.attempts ?? 0;
+  },
+
+  async completePhoneVerification(verification: PhoneVerification): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.update(phoneVerifications)
+        .set({ verifiedAt: new Date() })
+        .where(eq(phoneVerifications.id, verification.id));
+      await tx.update(users)
+        .set({ phone: verification.phone, isPhoneVerified: true })
+        .where(eq(users.id, verification.userId));
+    });
+  },
+
   // Medical info operations
   async getMedicalInfoByUserId(userId: number): Promise<MedicalInfo | undefined> {
     const [info] = await db.select()
@@ -294,10 +847,27 @@ export const storage = {
   async getActiveEmergencies(): Promise<EmergencyAlert[]> {
     return await db.select()
       .from(emergencyAlerts)
-      .where(sql`${emergencyAlerts.status} IN ('active', 'pending')`)
+      .where(inArray(emergencyAlerts.status, OPEN_STATUSES))
       .orderBy(desc(emergencyAlerts.createdAt));
   },
 
+  async getEmergencyAlert(id: number): Promise<EmergencyAlert | undefined> {
+    const [emergency] = await db.select()
+      .from(emergencyAlerts)
+      .where(eq(emergencyAlerts.id, id));
+    return emergency;
+  },
+
+  async getEmergencyAlertByIdempotencyKey(userId: number, idempotencyKey: string): Promise<EmergencyAlert | undefined> {
+    const [emergency] = await db.select()
+      .from(emergencyAlerts)
+      .where(and(
+        eq(emergencyAlerts.userId, userId),
+        eq(emergencyAlerts.idempotencyKey, idempotencyKey)
+      ));
+    return emergency;
+  },
+
   async getUserEmergencyHistory(userId: number): Promise<EmergencyAlert[]> {
     return await db.select()
       .from(emergencyAlerts)
@@ -312,20 +882,102 @@ export const storage = {
       .limit(5);
   },
 
-  async resolveEmergency(id: number): Promise<EmergencyAlert> {
-    const [updatedEmergency] = await db.update(emergencyAlerts)
-      .set({ status: 'resolved' })
-      .where(eq(emergencyAlerts.id, id))
-      .returning();
-    return updatedEmergency;
+  async resolveEmergency(id: number, actorId?: number, reason?: string, origin?: RequestOrigin): Promise<EmergencyAlert> {
+    return await this.transitionEmergencyStatus(id, EmergencyStatus.RESOLVED, { actorId, reason, origin });
   },
 
-  async assignAmbulance(emergencyId: number, ambulanceId: number): Promise<EmergencyAlert> {
-    const [updatedEmergency] = await db.update(emergencyAlerts)
-      .set({ ambulanceId })
-      .where(eq(emergencyAlerts.id, emergencyId))
-      .returning();
-    return updatedEmergency;
+  /**
+   * Dispatch an available unit. The alert and unit are locked together, so a
+   * refused transition leaves the unit untouched and two alerts cannot take it at once.
+   */
+  async assignAmbulance(
+    emergencyId: number,
+    ambulanceId: number,
+    actorId?: number,
+    origin?: RequestOrigin
+  ): Promise<EmergencyAlert> {
+    return await db.transaction(async (tx) => {
+      const [emergency] = await tx.select()
+        .from(emergencyAlerts)
+        .where(eq(emergencyAlerts.id, emergencyId))
+        .for('update');
+      if (!emergency) {
+        throw new Error("Emergency not found");
+      }
+
+      const [unit] = await tx.select()
+        .from(ambulanceUnits)
+        .where(eq(ambulanceUnits.id, ambulanceId))
+        .for('update');
+      if (!unit) {
+        throw new Error("Ambulance unit not found");
+      }
+      if (unit.status !== "available") {
+        throw new UnitUnavailableError(unit.name, unit.status);
+      }
+
+      let updatedEmergency: EmergencyAlert;
+      // Swapping units on an already dispatched incident keeps its status
+      if (normalizeStatus(emergency.status) === EmergencyStatus.DISPATCHED) {
+        [updatedEmergency] = await tx.update(emergencyAlerts)
+          .set({ ambulanceId, assignedAt: new Date(), updatedAt: new Date() })
+          .where(eq(emergencyAlerts.id, emergencyId))
+          .returning();
+        await insertAuditEvent(tx, {
+          actorId: actorId ?? null,
+          action: 'emergency.unit_reassigned',
+          entityType: 'emergency',
+          entityId: String(emergencyId),
+          ...diffRecords(emergency, updatedEmergency),
+          ip: origin?.ip ?? null,
+          userAgent: origin?.userAgent ?? null,
+          createdAt: new Date()
+        });
+      } else {
+        updatedEmergency = await applyTransition(tx, emergency, EmergencyStatus.DISPATCHED, {
+          actorId,
+          reason: `Assigned ${unit.name}`,
+          changes: { ambulanceId, assignedAt: new Date() },
+          origin
+        });
+      }
+
+      // The unit being replaced, whether still dispatched or already en route, goes back to the pool
+      if (emergency.ambulanceId && emergency.ambulanceId !== ambulanceId) {
+        await releaseUnit(tx, emergency.ambulanceId, emergencyId);
+      }
+      await tx.update(ambulanceUnits)
+        .set({ status: "dispatched", currentEmergencyId: emergencyId })
+        .where(eq(ambulanceUnits.id, ambulanceId));
+
+      return updatedEmergency;
+    });
+  },
+
+  async transitionEmergencyStatus(
+    id: number,
+    toStatus: string,
+    options: StatusTransitionOptions = {}
+  ): Promise<EmergencyAlert> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select()
+        .from(emergencyAlerts)
+        .where(eq(emergencyAlerts.id, id))
+        .for('update');
+
+      if (!current) {
+        throw new Error("Emergency not found");
+      }
+
+      return await applyTransition(tx, current, toStatus, options);
+    });
+  },
+
+  async getEmergencyStatusHistory(emergencyId: number): Promise<EmergencyStatusHistory[]> {
+    return await db.select()
+      .from(emergencyStatusHistory)
+      .where(eq(emergencyStatusHistory.emergencyId, emergencyId))
+      .orderBy(asc(emergencyStatusHistory.createdAt), asc(emergencyStatusHistory.id));
   },
 
   // Ambulance operations
@@ -339,40 +991,18 @@ export const storage = {
       .where(eq(ambulanceUnits.status, "available"));
   },
   
-  async getNearbyAmbulances(lat: number, lng: number): Promise<AmbulanceUnit[]> {
-    // First get all ambulances
-    const allAmbulances = await db.select().from(ambulanceUnits);
-    
-    // Filter and sort by distance
-    return allAmbulances
-      .filter(unit => {
-        if (!unit.latitude || !unit.longitude) return false;
-        
-        const distance = calculateDistance(
-          lat, 
-          lng, 
-          parseFloat(unit.latitude), 
-          parseFloat(unit.longitude)
-        );
-        
-        return distance <= 10; // Within 10km
-      })
-      .sort((a, b) => {
-        // Sort by distance
-        const distA = calculateDistance(
-          lat, 
-          lng, 
-          parseFloat(a.latitude || "0"), 
-          parseFloat(a.longitude || "0")
-        );
-        const distB = calculateDistance(
-          lat, 
-          lng, 
-          parseFloat(b.latitude || "0"), 
-          parseFloat(b.longitude || "0")
-        );
-        return distA - distB;
-      });
+  async getNearbyAmbulances(lat: number, lng: number, options: NearbyOptions = {}): Promise<AmbulanceUnit[]> {
+    const { within, nearestFirst } = nearbyClauses(
+      ambulanceUnits,
+      lat,
+      lng,
+      options.radiusMeters ?? config.geo.defaultRadiusMeters.ambulances
+    );
+    return await db.select()
+      .from(ambulanceUnits)
+      .where(within)
+      .orderBy(nearestFirst)
+      .limit(options.limit ?? config.geo.defaultLimit);
   },
   
   async updateAmbulanceStatus(id: number, status: string): Promise<AmbulanceUnit> {
@@ -388,11 +1018,13 @@ export const storage = {
     return updatedAmbulance;
   },
   
-  async updateAmbulanceLocation(id: number, lat: number, lng: number): Promise<AmbulanceUnit> {
+  async updateAmbulanceLocation(id: number, lat: number, lng: number, accuracy?: number): Promise<AmbulanceUnit> {
     const [updatedAmbulance] = await db.update(ambulanceUnits)
       .set({ 
         latitude: lat.toString(), 
-        longitude: lng.toString() 
+        longitude: lng.toString(),
+        accuracy: accuracy?.toString(),
+        lastLocationUpdate: new Date()
       })
       .where(eq(ambulanceUnits.id, id))
       .returning();
@@ -403,32 +1035,100 @@ export const storage = {
     
     return updatedAmbulance;
   },
+
+  async getAmbulanceUnit(id: number): Promise<AmbulanceUnit | undefined> {
+    const [unit] = await db.select()
+      .from(ambulanceUnits)
+      .where(eq(ambulanceUnits.id, id));
+    return unit;
+  },
+
+  // Crew operations
+  async getAmbulanceCrew(ambulanceId: number): Promise<number[]> {
+    const crew = await db.select({ userId: ambulanceCrewMembers.userId })
+      .from(ambulanceCrewMembers)
+      .where(eq(ambulanceCrewMembers.ambulanceId, ambulanceId));
+    return crew.map(member => member.userId);
+  },
+
+  async getCrewAmbulanceIds(userId: number): Promise<number[]> {
+    const units = await db.select({ ambulanceId: ambulanceCrewMembers.ambulanceId })
+      .from(ambulanceCrewMembers)
+      .where(eq(ambulanceCrewMembers.userId, userId));
+    return units.map(unit => unit.ambulanceId);
+  },
+
+  async setAmbulanceCrew(ambulanceId: number, userIds: number[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(ambulanceCrewMembers)
+        .where(eq(ambulanceCrewMembers.ambulanceId, ambulanceId));
+      if (userIds.length > 0) {
+        await tx.insert(ambulanceCrewMembers)
+          .values(userIds.map(userId => ({ ambulanceId, userId })));
+      }
+    });
+  },
+
+  async getOpenEmergenciesByUserId(userId: number): Promise<EmergencyAlert[]> {
+    return await db.select()
+      .from(emergencyAlerts)
+      .where(and(
+        eq(emergencyAlerts.userId, userId),
+        inArray(emergencyAlerts.status, OPEN_STATUSES)
+      ))
+      .orderBy(desc(emergencyAlerts.createdAt));
+  },
+
+  // Trip and ETA operations
+  async createUnitTrip(trip: typeof unitTrips.$inferInsert): Promise<UnitTrip> {
+    return await db.transaction(async (tx) => {
+      // A new assignment supersedes any trip still open for the emergency
+      await tx.delete(unitTrips)
+        .where(and(eq(unitTrips.emergencyId, trip.emergencyId), isNull(unitTrips.arrivedAt)));
+
+      const [created] = await tx.insert(unitTrips)
+        .values(trip)
+        .returning();
+      return created;
+    });
+  },
+
+  async getCompletedUnitTrips(unitType: string, timeBand: string, limit: number): Promise<UnitTrip[]> {
+    return await db.select()
+      .from(unitTrips)
+      .where(and(
+        eq(unitTrips.unitType, unitType),
+        eq(unitTrips.timeBand, timeBand),
+        isNotNull(unitTrips.arrivedAt)
+      ))
+      .orderBy(desc(unitTrips.arrivedAt))
+      .limit(limit);
+  },
+
+  async setEmergencyEta(id: number, etaSeconds: number | null, computedAt: Date): Promise<void> {
+    await db.update(emergencyAlerts)
+      .set({ etaSeconds, etaUpdatedAt: computedAt })
+      .where(eq(emergencyAlerts.id, id));
+  },
   
   // Medical facility operations
   async getMedicalFacilities(): Promise<MedicalFacility[]> {
     return await db.select().from(medicalFacilities);
   },
   
-  async getNearbyFacilities(lat: number, lng: number): Promise<MedicalFacility[]> {
-    // First sync with Google Places API
-    await this.syncNearbyFacilities(lat, lng);
-    
-    // Then get facilities from our database
-    const facilities = await db.select()
+  async getNearbyFacilities(lat: number, lng: number, options: NearbyOptions = {}): Promise<MedicalFacility[]> {
+    // Reads the database only; providers fill it in the background (see facilitySyncService)
+    const { within, nearestFirst } = nearbyClauses(
+      medicalFacilities,
+      lat,
+      lng,
+      options.radiusMeters ?? config.geo.defaultRadiusMeters.facilities
+    );
+    return await db.select()
       .from(medicalFacilities)
-      .where(
-        sql`ST_DWithin(
-          ST_MakePoint(${lng}, ${lat})::geography,
-          ST_MakePoint(${medicalFacilities.longitude}, ${medicalFacilities.latitude})::geography,
-          ${5000}
-        )`
-      );
-    
-    return facilities.sort((a, b) => {
-      const distA = calculateDistance(lat, lng, parseFloat(a.latitude), parseFloat(a.longitude));
-      const distB = calculateDistance(lat, lng, parseFloat(b.latitude), parseFloat(b.longitude));
-      return distA - distB;
-    });
+      .where(within)
+      .orderBy(nearestFirst)
+      .limit(options.limit ?? config.geo.defaultLimit);
   },
 
   async getUserCount(): Promise<number> {
@@ -517,6 +1217,20 @@ export const storage = {
       .orderBy(desc(emergencyResources.lastMaintenance));
   },
 
+  async getNearbyAvailableResources(lat: number, lng: number, options: NearbyOptions = {}): Promise<EmergencyResource[]> {
+    const { within, nearestFirst } = nearbyClauses(
+      emergencyResources,
+      lat,
+      lng,
+      options.radiusMeters ?? config.geo.defaultRadiusMeters.resources
+    );
+    return await db.select()
+      .from(emergencyResources)
+      .where(and(eq(emergencyResources.status, 'available'), within))
+      .orderBy(nearestFirst)
+      .limit(options.limit ?? config.geo.defaultLimit);
+  },
+
   async getResourceTypes(): Promise<EmergencyResourceType[]> {
     return await db.select()
       .from(emergencyResourceTypes)
@@ -576,9 +1290,17 @@ export const storage = {
 
   // Admin User Management
   async updateUser(id: number, userData: Partial<InsertUser>): Promise<User> {
+    const { phone } = userData as Partial<User>;
     const [user] = await db
       .update(users)
-      .set({ ...userData, updatedAt: new Date() })
+      .set({
+        ...userData,
+        // A changed number has to be verified again
+        ...(phone !== undefined && {
+          isPhoneVerified: sql`${users.isPhoneVerified} AND ${users.phone} = ${phone}`
+        }),
+        updatedAt: new Date()
+      })
       .where(eq(users.id, id))
       .returning();
     return user;
@@ -627,6 +1349,11 @@ export const storage = {
     return await db.select().from(medicalFacilities).orderBy(asc(medicalFacilities.name));
   },
 
+  async getFacility(id: number): Promise<MedicalFacility | undefined> {
+    const [facility] = await db.select().from(medicalFacilities).where(eq(medicalFacilities.id, id));
+    return facility;
+  },
+
   async createFacility(facilityData: InsertMedicalFacility): Promise<MedicalFacility> {
     const [facility] = await db
       .insert(medicalFacilities)
@@ -644,10 +1371,76 @@ export const storage = {
     return facility;
   },
 
+  // Bed counts reported by the facility itself; lastUpdate records when they were last reported
+  async updateFacilityCapacity(id: number, data: { capacity?: number; currentOccupancy: number }): Promise<MedicalFacility | undefined> {
+    const now = new Date();
+    const [facility] = await db.update(medicalFacilities)
+      .set({ ...data, lastUpdate: now, updatedAt: now })
+      .where(eq(medicalFacilities.id, id))
+      .returning();
+    return facility;
+  },
+
   async deleteFacility(id: number): Promise<void> {
     await db.delete(medicalFacilities).where(eq(medicalFacilities.id, id));
   },
-  
+
+  async getFacilitiesBySource(source: string): Promise<MedicalFacility[]> {
+    return await db
+      .select()
+      .from(medicalFacilities)
+      .where(eq(medicalFacilities.source, source));
+  },
+
+  // Apply a provider sync or import in one transaction so a failed batch leaves nothing half-written
+  async saveFacilities(
+    created: FacilityUpsert[],
+    updated: { id: number; changes: Partial<FacilityUpsert> }[]
+  ): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (let i = 0; i < created.length; i += 500) {
+        await tx.insert(medicalFacilities).values(created.slice(i, i + 500));
+      }
+      for (const { id, changes } of updated) {
+        await tx
+          .update(medicalFacilities)
+          .set({ ...changes, updatedAt: new Date() })
+          .where(eq(medicalFacilities.id, id));
+      }
+    });
+  },
+
+  // Audit log operations
+  async appendAuditEvent(entry: AuditEntry): Promise<AuditEvent> {
+    return await db.transaction((tx) => insertAuditEvent(tx, entry));
+  },
+
+  async getAuditEvents(filters: AuditEventFilters): Promise<AuditEvent[]> {
+    const conditions = [
+      filters.actorId !== undefined ? eq(auditEvents.actorId, filters.actorId) : undefined,
+      filters.action ? eq(auditEvents.action, filters.action) : undefined,
+      filters.entityType ? eq(auditEvents.entityType, filters.entityType) : undefined,
+      filters.entityId ? eq(auditEvents.entityId, filters.entityId) : undefined,
+      filters.from ? gte(auditEvents.createdAt, filters.from) : undefined,
+      filters.to ? lte(auditEvents.createdAt, filters.to) : undefined,
+      filters.beforeId !== undefined ? lt(auditEvents.id, filters.beforeId) : undefined,
+    ].filter((condition): condition is SQL => condition !== undefined);
+
+    return await db.select()
+      .from(auditEvents)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditEvents.id))
+      .limit(filters.limit);
+  },
+
+  async getAuditEventsAfter(afterId: number, limit: number): Promise<AuditEvent[]> {
+    return await db.select()
+      .from(auditEvents)
+      .where(gt(auditEvents.id, afterId))
+      .orderBy(asc(auditEvents.id))
+      .limit(limit);
+  },
+
   // Admin Analytics
   async getSystemAnalytics(): Promise<{
     totalUsers: number;
@@ -668,15 +1461,12 @@ export const storage = {
           count: sql<number>`cast(count(*) as integer)`
         }).from(users),
         
-        // Get active emergencies (both pending and active)
+        // Get active emergencies (any non-terminal status)
         db.select({
           count: sql<number>`cast(count(*) as integer)`
         })
         .from(emergencyAlerts)
-        .where(or(
-          eq(emergencyAlerts.status, 'active'),
-          eq(emergencyAlerts.status, 'pending')
-        )),
+        .where(inArray(emergencyAlerts.status, OPEN_STATUSES)),
         
         // Get total facilities
         db.select({
@@ -747,12 +1537,78 @@ export const storage = {
     }
   },
 
+  // In priority order, first to be contacted first
   async getEmergencyContactsByUserId(userId: number): Promise<EmergencyContact[]> {
     return await db.query.emergencyContacts.findMany({
-      where: eq(emergencyContacts.userId, userId)
+      where: eq(emergencyContacts.userId, userId),
+      orderBy: [asc(emergencyContacts.priority), asc(emergencyContacts.id)]
     });
   },
 
+  // New contacts go to the end of the user's list
+  async createEmergencyContact(contact: InsertEmergencyContact): Promise<EmergencyContact> {
+    const [created] = await db.insert(emergencyContacts)
+      .values({
+        ...contact,
+        priority: sql`(select coalesce(max(priority), 0) + 1 from emergency_contacts where user_id = ${contact.userId})`,
+      })
+      .returning();
+    return created;
+  },
+
+  // Undefined when the contact is not the user's
+  async updateEmergencyContact(userId: number, id: number, changes: UpdateEmergencyContact): Promise<EmergencyContact | undefined> {
+    const [contact] = await db.update(emergencyContacts)
+      .set(changes)
+      .where(and(eq(emergencyContacts.id, id), eq(emergencyContacts.userId, userId)))
+      .returning();
+    return contact;
+  },
+
+  async deleteEmergencyContact(userId: number, id: number): Promise<boolean> {
+    const deleted = await db.delete(emergencyContacts)
+      .where(and(eq(emergencyContacts.id, id), eq(emergencyContacts.userId, userId)))
+      .returning({ id: emergencyContacts.id });
+    return deleted.length > 0;
+  },
+
+  // ids must be exactly the user's contacts; their priorities become 1..n in that order
+  async reorderEmergencyContacts(userId: number, ids: number[]): Promise<EmergencyContact[]> {
+    await db.transaction(async (tx) => {
+      for (let i = 0; i < ids.length; i++) {
+        await tx.update(emergencyContacts)
+          .set({ priority: i + 1 })
+          .where(and(eq(emergencyContacts.id, ids[i]), eq(emergencyContacts.userId, userId)));
+      }
+    });
+    return await this.getEmergencyContactsByUserId(userId);
+  },
+
+  async createTrackingLink(data: typeof trackingLinks.$inferInsert): Promise<TrackingLink> {
+    const [link] = await db.insert(trackingLinks).values(data).returning();
+    return link;
+  },
+
+  async getTrackingLinkByHash(tokenHash: string): Promise<TrackingLink | undefined> {
+    const [link] = await db.select().from(trackingLinks).where(eq(trackingLinks.tokenHash, tokenHash));
+    return link;
+  },
+
+  async getTrackingLinks(emergencyId: number): Promise<TrackingLink[]> {
+    return await db.select().from(trackingLinks)
+      .where(eq(trackingLinks.emergencyId, emergencyId))
+      .orderBy(desc(trackingLinks.createdAt));
+  },
+
+  // Undefined when the link is not the emergency's or was already revoked
+  async revokeTrackingLink(emergencyId: number, id: number): Promise<TrackingLink | undefined> {
+    const [link] = await db.update(trackingLinks)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(trackingLinks.id, id), eq(trackingLinks.emergencyId, emergencyId), isNull(trackingLinks.revokedAt)))
+      .returning();
+    return link;
+  },
+
   async createEmergencyAlert(data: {
     userId: number;
     latitude: string;
@@ -761,25 +1617,50 @@ export const storage = {
     emergencyType: string;
     description: string;
     priority: string;
-  }): Promise<EmergencyAlert> {
-    const [alert] = await db.insert(emergencyAlerts)
-      .values({
-        ...data,
-        status: 'active',
-        createdAt: new Date(),
-        updatedAt: new Date()
-      })
-      .returning();
-    return alert;
+    requiredResources?: string;
+    idempotencyKey?: string;
+  }, origin?: RequestOrigin): Promise<EmergencyAlert> {
+    return await db.transaction(async (tx) => {
+      const [alert] = await tx.insert(emergencyAlerts)
+        .values({
+          ...data,
+          status: EmergencyStatus.REPORTED,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        })
+        .returning();
+
+      await tx.insert(emergencyStatusHistory).values({
+        emergencyId: alert.id,
+        fromStatus: null,
+        toStatus: EmergencyStatus.REPORTED,
+        actorId: data.userId,
+        createdAt: alert.createdAt ?? new Date()
+      });
+
+      await insertAuditEvent(tx, {
+        actorId: data.userId,
+        action: 'emergency.reported',
+        entityType: 'emergency',
+        entityId: String(alert.id),
+        ...diffRecords(null, alert),
+        ip: origin?.ip ?? null,
+        userAgent: origin?.userAgent ?? null,
+        createdAt: alert.createdAt ?? new Date()
+      });
+
+      return alert;
+    });
   },
 
   async createLocationUpdate(data: {
-    userId: number;
+    userId: number | null;
     latitude: string;
     longitude: string;
     accuracy?: string;
     timestamp: Date;
     source: string;
+    ambulanceId?: number;
   }): Promise<typeof locationUpdates.$inferInsert> {
     const [update] = await db.insert(locationUpdates)
       .values(data)
@@ -787,16 +1668,43 @@ export const storage = {
     return update;
   },
 
-  async getAllUsers(): Promise<User[]> {
-    return await db.query.users.findMany();
+  async getUserLocationTrail(userId: number, from: Date, to: Date): Promise<LocationUpdate[]> {
+    return await db.select()
+      .from(locationUpdates)
+      .where(and(
+        eq(locationUpdates.userId, userId),
+        isNull(locationUpdates.ambulanceId),
+        gte(locationUpdates.timestamp, from),
+        lte(locationUpdates.timestamp, to)
+      ))
+      .orderBy(asc(locationUpdates.timestamp));
   },
 
-  async updateUser(id: number, data: Partial<typeof users.$inferInsert>) {
-    const [user] = await db.update(users)
-      .set({ ...data, updatedAt: new Date() })
-      .where(eq(users.id, id))
-      .returning();
-    return user;
+  async getAmbulanceLocationTrail(ambulanceId: number, from: Date, to: Date): Promise<LocationUpdate[]> {
+    return await db.select()
+      .from(locationUpdates)
+      .where(and(
+        eq(locationUpdates.ambulanceId, ambulanceId),
+        gte(locationUpdates.timestamp, from),
+        lte(locationUpdates.timestamp, to)
+      ))
+      .orderBy(asc(locationUpdates.timestamp));
+  },
+
+  // Units that have driven for an emergency, including the one assigned now
+  async getEmergencyUnitIds(emergencyId: number): Promise<number[]> {
+    const emergency = await this.getEmergencyAlert(emergencyId);
+    const trips = await db.select({ ambulanceId: unitTrips.ambulanceId })
+      .from(unitTrips)
+      .where(eq(unitTrips.emergencyId, emergencyId));
+
+    const ids = new Set(trips.map(trip => trip.ambulanceId));
+    if (emergency?.ambulanceId) ids.add(emergency.ambulanceId);
+    return Array.from(ids);
+  },
+
+  async getAllUsers(): Promise<User[]> {
+    return await db.query.users.findMany();
   },
 
   async deleteUser(id: number) {
@@ -828,68 +1736,6 @@ export const storage = {
     await db.delete(medicalFacilities).where(eq(medicalFacilities.id, id));
   },
 
-  async syncNearbyFacilities(latitude: number, longitude: number, radius: number = 5000): Promise<void> {
-    try {
-      // Search for hospitals and medical facilities
-      const response = await placesClient.placesNearby({
-        params: {
-          location: { lat: latitude, lng: longitude },
-          radius, // 5km radius by default
-          type: "hospital",
-          key: process.env.GOOGLE_MAPS_API_KEY || ""
-        }
-      });
-
-      if (response.data.results) {
-        for (const place of response.data.results) {
-          // Check if facility already exists
-          const [existingFacility] = await db.select()
-            .from(medicalFacilities)
-            .where(eq(medicalFacilities.googlePlaceId, place.place_id));
-
-          if (!existingFacility) {
-            // Get place details for more information
-            const details = await placesClient.placeDetails({
-              params: {
-                place_id: place.place_id,
-                fields: ["name", "formatted_address", "formatted_phone_number", "opening_hours", "rating"],
-                key: process.env.GOOGLE_MAPS_API_KEY || ""
-              }
-            });
-
-            // Insert new facility
-            await db.insert(medicalFacilities).values({
-              name: place.name,
-              type: "Hospital",
-              address: details.data.result.formatted_address || place.vicinity || "",
-              latitude: place.geometry.location.lat.toString(),
-              longitude: place.geometry.location.lng.toString(),
-              phone: details.data.result.formatted_phone_number || "",
-              openHours: details.data.result.opening_hours?.weekday_text?.join("; ") || "24/7",
-              rating: details.data.result.rating?.toString() || "",
-              googlePlaceId: place.place_id,
-              capacity: 100, // Default capacity
-              currentOccupancy: 0 // Default occupancy
-            });
-          } else {
-            // Update existing facility
-            await db.update(medicalFacilities)
-              .set({
-                name: place.name,
-                address: place.vicinity || existingFacility.address,
-                latitude: place.geometry.location.lat.toString(),
-                longitude: place.geometry.location.lng.toString(),
-                updatedAt: new Date()
-              })
-              .where(eq(medicalFacilities.googlePlaceId, place.place_id));
-          }
-        }
-      }
-    } catch (error) {
-      console.error("Error syncing nearby facilities:", error);
-      throw new Error("Failed to sync nearby facilities");
-    }
-  }
 };
 
 export class DatabaseStorage implements IStorage {
@@ -915,6 +1761,7 @@ export class DatabaseStorage implements IStorage {
       isEmailVerified: user.isEmailVerified || false,
       verificationToken: user.verificationToken || undefined,
       verificationExpiry: user.verificationExpiry || undefined,
+      verificationSentAt: user.verificationSentAt || undefined,
       resetToken: user.resetToken || undefined,
       resetExpiry: user.resetExpiry || undefined,
       lastLoginAt: user.lastLoginAt || undefined
@@ -929,6 +1776,7 @@ export class DatabaseStorage implements IStorage {
       isEmailVerified: user.isEmailVerified || false,
       verificationToken: user.verificationToken || undefined,
       verificationExpiry: user.verificationExpiry || undefined,
+      verificationSentAt: user.verificationSentAt || undefined,
       resetToken: user.resetToken || undefined,
       resetExpiry: user.resetExpiry || undefined,
       lastLoginAt: user.lastLoginAt || undefined
@@ -941,6 +1789,7 @@ export class DatabaseStorage implements IStorage {
       isEmailVerified: false,
       verificationToken: null,
       verificationExpiry: null,
+      verificationSentAt: null,
       resetToken: null,
       resetExpiry: null,
       lastLoginAt: null,
@@ -952,6 +1801,7 @@ export class DatabaseStorage implements IStorage {
       isEmailVerified: user.isEmailVerified || false,
       verificationToken: user.verificationToken || undefined,
       verificationExpiry: user.verificationExpiry || undefined,
+      verificationSentAt: user.verificationSentAt || undefined,
       resetToken: user.resetToken || undefined,
       resetExpiry: user.resetExpiry || undefined,
       lastLoginAt: user.lastLoginAt || undefined
@@ -997,7 +1847,7 @@ export class DatabaseStorage implements IStorage {
     const [alert] = await db.insert(emergencyAlerts)
       .values({
         ...alertData,
-        status: "active"
+        status: EmergencyStatus.REPORTED
         // createdAt will be set by the default in the schema
       })
       .returning();
@@ -1007,7 +1857,7 @@ export class DatabaseStorage implements IStorage {
   async getActiveEmergencies(): Promise<EmergencyAlert[]> {
     return await db.select()
       .from(emergencyAlerts)
-      .where(sql`${emergencyAlerts.status} IN ('active', 'pending')`)
+      .where(inArray(emergencyAlerts.status, OPEN_STATUSES))
       .orderBy(desc(emergencyAlerts.createdAt));
   }
   
@@ -1027,7 +1877,7 @@ export class DatabaseStorage implements IStorage {
   
   async resolveEmergency(id: number): Promise<EmergencyAlert> {
     const [updatedEmergency] = await db.update(emergencyAlerts)
-      .set({ status: "resolved" })
+      .set({ status: EmergencyStatus.RESOLVED })
       .where(eq(emergencyAlerts.id, id))
       .returning();
     
@@ -1052,7 +1902,7 @@ export class DatabaseStorage implements IStorage {
     // Update emergency with ambulance assignment
     const [updatedEmergency] = await db.update(emergencyAlerts)
       .set({ 
-        status: "in_progress",
+        status: EmergencyStatus.DISPATCHED,
         ambulanceId: ambulanceId
       })
       .where(eq(emergencyAlerts.id, emergencyId))
@@ -1076,40 +1926,18 @@ export class DatabaseStorage implements IStorage {
       .where(eq(ambulanceUnits.status, "available"));
   }
   
-  async getNearbyAmbulances(lat: number, lng: number): Promise<AmbulanceUnit[]> {
-    // First get all ambulances
-    const allAmbulances = await db.select().from(ambulanceUnits);
-    
-    // Filter and sort by distance
-    return allAmbulances
-      .filter(unit => {
-        if (!unit.latitude || !unit.longitude) return false;
-        
-        const distance = calculateDistance(
-          lat, 
-          lng, 
-          parseFloat(unit.latitude), 
-          parseFloat(unit.longitude)
-        );
-        
-        return distance <= 10; // Within 10km
-      })
-      .sort((a, b) => {
-        // Sort by distance
-        const distA = calculateDistance(
-          lat, 
-          lng, 
-          parseFloat(a.latitude || "0"), 
-          parseFloat(a.longitude || "0")
-        );
-        const distB = calculateDistance(
-          lat, 
-          lng, 
-          parseFloat(b.latitude || "0"), 
-          parseFloat(b.longitude || "0")
-        );
-        return distA - distB;
-      });
+  async getNearbyAmbulances(lat: number, lng: number, options: NearbyOptions = {}): Promise<AmbulanceUnit[]> {
+    const { within, nearestFirst } = nearbyClauses(
+      ambulanceUnits,
+      lat,
+      lng,
+      options.radiusMeters ?? config.geo.defaultRadiusMeters.ambulances
+    );
+    return await db.select()
+      .from(ambulanceUnits)
+      .where(within)
+      .orderBy(nearestFirst)
+      .limit(options.limit ?? config.geo.defaultLimit);
   }
   
   async updateAmbulanceStatus(id: number, status: string): Promise<AmbulanceUnit> {
@@ -1146,26 +1974,19 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(medicalFacilities);
   }
   
-  async getNearbyFacilities(lat: number, lng: number): Promise<MedicalFacility[]> {
-    // First sync with Google Places API
-    await this.syncNearbyFacilities(lat, lng);
-    
-    // Then get facilities from our database
-    const facilities = await db.select()
+  async getNearbyFacilities(lat: number, lng: number, options: NearbyOptions = {}): Promise<MedicalFacility[]> {
+    // Reads the database only; providers fill it in the background (see facilitySyncService)
+    const { within, nearestFirst } = nearbyClauses(
+      medicalFacilities,
+      lat,
+      lng,
+      options.radiusMeters ?? config.geo.defaultRadiusMeters.facilities
+    );
+    return await db.select()
       .from(medicalFacilities)
-      .where(
-        sql`ST_DWithin(
-          ST_MakePoint(${lng}, ${lat})::geography,
-          ST_MakePoint(${medicalFacilities.longitude}, ${medicalFacilities.latitude})::geography,
-          ${5000}
-        )`
-      );
-    
-    return facilities.sort((a, b) => {
-      const distA = calculateDistance(lat, lng, parseFloat(a.latitude), parseFloat(a.longitude));
-      const distB = calculateDistance(lat, lng, parseFloat(b.latitude), parseFloat(b.longitude));
-      return distA - distB;
-    });
+      .where(within)
+      .orderBy(nearestFirst)
+      .limit(options.limit ?? config.geo.defaultLimit);
   }
   
   // Seed the database with sample data if needed
@@ -1193,6 +2014,7 @@ export class DatabaseStorage implements IStorage {
           },
           {
             name: "MedEvac Helicopter",
+            unitType: "air",
             latitude: "37.8044",
             longitude: "-122.2711",
             status: "available",
@@ -1240,66 +2062,4 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async syncNearbyFacilities(latitude: number, longitude: number, radius: number = 5000): Promise<void> {
-    try {
-      // Search for hospitals and medical facilities
-      const response = await placesClient.placesNearby({
-        params: {
-          location: { lat: latitude, lng: longitude },
-          radius, // 5km radius by default
-          type: "hospital",
-          key: process.env.GOOGLE_MAPS_API_KEY || ""
-        }
-      });
-
-      if (response.data.results) {
-        for (const place of response.data.results) {
-          // Check if facility already exists
-          const [existingFacility] = await db.select()
-            .from(medicalFacilities)
-            .where(eq(medicalFacilities.googlePlaceId, place.place_id));
-
-          if (!existingFacility) {
-            // Get place details for more information
-            const details = await placesClient.placeDetails({
-              params: {
-                place_id: place.place_id,
-                fields: ["name", "formatted_address", "formatted_phone_number", "opening_hours", "rating"],
-                key: process.env.GOOGLE_MAPS_API_KEY || ""
-              }
-            });
-
-            // Insert new facility
-            await db.insert(medicalFacilities).values({
-              name: place.name,
-              type: "Hospital",
-              address: details.data.result.formatted_address || place.vicinity || "",
-              latitude: place.geometry.location.lat.toString(),
-              longitude: place.geometry.location.lng.toString(),
-              phone: details.data.result.formatted_phone_number || "",
-              openHours: details.data.result.opening_hours?.weekday_text?.join("; ") || "24/7",
-              rating: details.data.result.rating?.toString() || "",
-              googlePlaceId: place.place_id,
-              capacity: 100, // Default capacity
-              currentOccupancy: 0 // Default occupancy
-            });
-          } else {
-            // Update existing facility
-            await db.update(medicalFacilities)
-              .set({
-                name: place.name,
-                address: place.vicinity || existingFacility.address,
-                latitude: place.geometry.location.lat.toString(),
-                longitude: place.geometry.location.lng.toString(),
-                updatedAt: new Date()
-              })
-              .where(eq(medicalFacilities.googlePlaceId, place.place_id));
-          }
-        }
-      }
-    } catch (error) {
-      console.error("Error syncing nearby facilities:", error);
-      throw new Error("Failed to sync nearby facilities");
-    }
-  }
 }
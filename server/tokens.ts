@@ -0,0 +1,12 @@
+import { createHash, randomBytes } from "crypto";
+
+// Single-use secrets sent to users (email links, codes) are stored only as a
+// SHA-256 digest, so a leaked table row cannot be replayed
+export function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function createToken(bytes = 32) {
+  const token = randomBytes(bytes).toString("base64url");
+  return { token, hash: hashToken(token) };
+}
@@ -0,0 +1,80 @@
+import { UserRole, type ApiTokenOwnerType } from "./schema";
+
+// Capabilities checked by the server (requirePermission) and the client (usePermission)
+export const Permission = {
+  // Emergencies
+  EMERGENCY_CREATE: "emergency.create",
+  EMERGENCY_VIEW_OWN: "emergency.view_own",
+  EMERGENCY_VIEW_ALL: "emergency.view_all",
+  EMERGENCY_DISPATCH: "emergency.dispatch",
+  EMERGENCY_MANAGE: "emergency.manage",
+  LOCATION_REPORT: "location.report",
+
+  // The user's own records
+  PROFILE_MANAGE_OWN: "profile.manage_own",
+  MEDICAL_READ_OWN: "medical.read_own",
+  MEDICAL_WRITE_OWN: "medical.write_own",
+  MEDICAL_READ_ANY: "medical.read_any",
+  CONTACTS_MANAGE_OWN: "contacts.manage_own",
+  CHECKUP_MANAGE_OWN: "checkup.manage_own",
+  SUPPORT_CHAT: "support.chat",
+
+  // Fleet, facilities and resources
+  AMBULANCE_VIEW: "ambulance.view",
+  AMBULANCE_MANAGE: "ambulance.manage",
+  FACILITY_VIEW: "facility.view",
+  FACILITY_MANAGE: "facility.manage",
+  FACILITY_CAPACITY_UPDATE: "facility.capacity_update",
+  RESOURCE_VIEW: "resource.view",
+
+  // Administration
+  ADMIN_CONSOLE: "admin.console",
+  USER_VIEW_ALL: "user.view_all",
+  USER_MANAGE: "user.manage",
+  ANALYTICS_VIEW: "analytics.view",
+  AUDIT_VIEW: "audit.view",
+  API_TOKEN_MANAGE: "api_token.manage",
+  SYSTEM_MANAGE: "system.manage",
+} as const;
+
+export type Permission = typeof Permission[keyof typeof Permission];
+
+const MEMBER_PERMISSIONS: Permission[] = [
+  Permission.EMERGENCY_CREATE,
+  Permission.EMERGENCY_VIEW_OWN,
+  Permission.LOCATION_REPORT,
+  Permission.PROFILE_MANAGE_OWN,
+  Permission.MEDICAL_READ_OWN,
+  Permission.MEDICAL_WRITE_OWN,
+  Permission.CONTACTS_MANAGE_OWN,
+  Permission.CHECKUP_MANAGE_OWN,
+  Permission.SUPPORT_CHAT,
+  Permission.AMBULANCE_VIEW,
+  Permission.FACILITY_VIEW,
+  Permission.RESOURCE_VIEW,
+];
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  [UserRole.USER]: MEMBER_PERMISSIONS,
+  [UserRole.RESPONSE_TEAM]: [
+    ...MEMBER_PERMISSIONS,
+    Permission.EMERGENCY_VIEW_ALL,
+    Permission.EMERGENCY_DISPATCH,
+    Permission.MEDICAL_READ_ANY,
+  ],
+  [UserRole.ADMIN]: Object.values(Permission),
+};
+
+export function getPermissions(role: string | undefined | null): readonly Permission[] {
+  return ROLE_PERMISSIONS[role as UserRole] ?? [];
+}
+
+export function hasPermission(role: string | undefined | null, permission: Permission): boolean {
+  return getPermissions(role).includes(permission);
+}
+
+// Scopes a facility or ambulance token may carry. User tokens may carry any of the owner's permissions.
+export const UNIT_TOKEN_SCOPES: Record<Exclude<ApiTokenOwnerType, 'user'>, readonly Permission[]> = {
+  facility: [Permission.FACILITY_CAPACITY_UPDATE],
+  ambulance: [Permission.LOCATION_REPORT],
+};
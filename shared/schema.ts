@@ -1,8 +1,13 @@
-import { pgTable, text, serial, integer, boolean, timestamp, foreignKey, pgEnum, numeric } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, foreignKey, pgEnum, numeric, jsonb, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { relations } from "drizzle-orm";
 import { z } from "zod";
 
+// ambulance_units, medical_facilities, emergency_alerts, emergency_resources and
+// location_updates also carry a `geog` geography(Point, 4326) column. It is kept
+// in step with latitude/longitude by database triggers and only used in spatial
+// SQL, so it is deliberately not mapped here (see migrations/0009_spatial_columns.sql).
+
 // User roles enum
 export const userRoleEnum = pgEnum('user_role', ['user', 'response_team', 'admin']);
 
@@ -12,15 +17,29 @@ export enum UserRole {
   ADMIN = "admin"
 }
 
+// Emergency lifecycle states, in the order an incident normally moves through them
+export enum EmergencyStatus {
+  REPORTED = "reported",
+  ACKNOWLEDGED = "acknowledged",
+  DISPATCHED = "dispatched",
+  EN_ROUTE = "en_route",
+  ON_SCENE = "on_scene",
+  TRANSPORTING = "transporting",
+  AT_FACILITY = "at_facility",
+  RESOLVED = "resolved",
+  CANCELLED = "cancelled"
+}
+
 // Location tracking table
 export const locationUpdates = pgTable("location_updates", {
   id: serial("id").primaryKey(),
-  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }), // null for fixes from a unit's own tracker
   latitude: numeric("latitude").notNull(),
   longitude: numeric("longitude").notNull(),
   accuracy: numeric("accuracy"),
   timestamp: timestamp("timestamp").notNull().defaultNow(),
   source: text("source").notNull().default("user"), // user, ambulance, etc.
+  ambulanceId: integer("ambulance_id").references((): AnyPgColumn => ambulanceUnits.id, { onDelete: 'set null' }), // set when a crew member reports their unit
 });
 
 export const locationUpdatesRelations = relations(locationUpdates, ({ one }) => ({
@@ -39,7 +58,7 @@ export const insertLocationUpdateSchema = createInsertSchema(locationUpdates).pi
 });
 
 // Kenyan phone number validation
-const kenyanPhoneRegex = /^\+254[17]\d{8}$|^\+25420\d{7}$/;
+export const kenyanPhoneRegex = /^\+254[17]\d{8}$|^\+25420\d{7}$/;
 
 // User table
 export const users = pgTable("users", {
@@ -50,10 +69,12 @@ export const users = pgTable("users", {
   lastName: text("last_name").notNull(),
   email: text("email").notNull().unique(),
   phone: text("phone").notNull(),
+  isPhoneVerified: boolean("is_phone_verified").notNull().default(false),
   role: text("role").notNull().default(UserRole.USER),
   isEmailVerified: boolean("is_email_verified").default(false),
   verificationToken: text("verification_token"),
   verificationExpiry: timestamp("verification_expiry"),
+  verificationSentAt: timestamp("verification_sent_at"),
   resetToken: text("reset_token"),
   resetExpiry: timestamp("reset_expiry"),
   lastLoginAt: timestamp("last_login_at")
@@ -78,9 +99,11 @@ export const userSchema = z.object({
   role: z.nativeEnum(UserRole),
   phone: z.string().regex(kenyanPhoneRegex, "Phone number must be a valid Kenyan number (e.g., +254712345678 or +254202345678)"),
   password: z.string(),
+  isPhoneVerified: z.boolean().default(false),
   isEmailVerified: z.boolean().default(false),
   verificationToken: z.string().optional(),
   verificationExpiry: z.date().optional(),
+  verificationSentAt: z.date().optional(),
   resetToken: z.string().optional(),
   resetExpiry: z.date().optional(),
   lastLoginAt: z.date().optional()
@@ -89,20 +112,153 @@ export const userSchema = z.object({
 export const loginUserSchema = z.object({
   username: z.string().min(1, "Username is required"),
   password: z.string().min(1, "Password is required"),
+  // Authenticator or recovery code, on the second step for accounts with two-factor sign-in
+  code: z.string().trim().max(20).optional(),
 });
 
 export const insertUserSchema = userSchema.omit({ 
   id: true,
-  createdAt: true,
-  updatedAt: true,
+  isPhoneVerified: true,
   isEmailVerified: true,
   verificationToken: true,
   verificationExpiry: true,
+  verificationSentAt: true,
   resetToken: true,
   resetExpiry: true,
   lastLoginAt: true
 });
 
+// Phone verifications table, one row per OTP sent; the code itself is only stored hashed
+export const phoneVerifications = pgTable("phone_verifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  phone: text("phone").notNull(),
+  codeHash: text("code_hash").notNull(),
+  attempts: integer("attempts").notNull().default(0),
+  expiresAt: timestamp("expires_at").notNull(),
+  verifiedAt: timestamp("verified_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const phoneVerificationStartSchema = z.object({
+  // Defaults to the number on the account
+  phone: z.string().regex(kenyanPhoneRegex, "Phone number must be a valid Kenyan number (e.g., +254712345678 or +254202345678)").optional(),
+});
+
+export const phoneVerificationConfirmSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, "Enter the 6-digit code"),
+});
+
+// Attempt counters for login and registration throttling, one row per account or IP key
+export const authThrottles = pgTable("auth_throttles", {
+  key: text("key").primaryKey(), // e.g. "account:jdoe", "ip:203.0.113.7", "register:203.0.113.7"
+  attempts: integer("attempts").notNull().default(0),
+  firstAttemptAt: timestamp("first_attempt_at").notNull().defaultNow(),
+  lastAttemptAt: timestamp("last_attempt_at").notNull().defaultNow(),
+  lockedUntil: timestamp("locked_until"),
+  lockCount: integer("lock_count").notNull().default(0),
+});
+
+// TOTP second factor, one row per user; kept off the users table so the secret never rides along with a user record
+export const userTwoFactor = pgTable("user_two_factor", {
+  userId: integer("user_id").primaryKey().references(() => users.id, { onDelete: 'cascade' }),
+  secret: text("secret").notNull(), // base32
+  enabledAt: timestamp("enabled_at"), // null while enrollment is unconfirmed
+  lastUsedStep: integer("last_used_step"), // time step of the last accepted code, so a code cannot be replayed
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Single-use recovery codes for a lost authenticator, stored hashed
+export const twoFactorRecoveryCodes = pgTable("two_factor_recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, "Enter the 6-digit code"),
+});
+
+// Confirms a change to two-factor settings with an authenticator or recovery code
+export const twoFactorVerifySchema = z.object({
+  code: z.string().trim().min(6, "Enter a code").max(20),
+});
+
+// Settings page toggles, one row per user; users without a row get the column defaults
+export const userPreferences = pgTable("user_preferences", {
+  userId: integer("user_id").primaryKey().references(() => users.id, { onDelete: 'cascade' }),
+  notifications: boolean("notifications").notNull().default(true), // email and push
+  smsNotifications: boolean("sms_notifications").notNull().default(false),
+  locationTracking: boolean("location_tracking").notNull().default(true), // sharing position outside emergencies
+  darkMode: boolean("dark_mode").notNull().default(true),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const updateUserPreferencesSchema = createInsertSchema(userPreferences).pick({
+  notifications: true,
+  smsNotifications: true,
+  locationTracking: true,
+  darkMode: true,
+}).partial().strict();
+
+// API tokens for machine clients; only a hash of the token is kept. Exactly one of
+// userId, facilityId and ambulanceId names the owner the token acts for.
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  prefix: text("prefix").notNull(), // first characters of the token, to tell tokens apart in lists
+  scopes: text("scopes").array().notNull(), // permission names, see shared/permissions.ts
+  userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }),
+  facilityId: integer("facility_id").references((): AnyPgColumn => medicalFacilities.id, { onDelete: 'cascade' }),
+  ambulanceId: integer("ambulance_id").references((): AnyPgColumn => ambulanceUnits.id, { onDelete: 'cascade' }),
+  createdById: integer("created_by_id").references(() => users.id, { onDelete: 'set null' }),
+  expiresAt: timestamp("expires_at").notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const apiTokenOwnerTypes = ['user', 'facility', 'ambulance'] as const;
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  ownerType: z.enum(apiTokenOwnerTypes),
+  ownerId: z.number().int().positive(),
+  scopes: z.array(z.string().min(1)).min(1, "Choose at least one scope"),
+  expiresInDays: z.number().int().min(1).max(365).default(90),
+});
+
+// Audit events table, append-only; each row's hash covers the previous row's hash
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  actorId: integer("actor_id").references(() => users.id, { onDelete: 'set null' }), // null for system actions
+  action: text("action").notNull(),
+  entityType: text("entity_type").notNull(),
+  entityId: text("entity_id"),
+  before: jsonb("before"),
+  after: jsonb("after"),
+  ip: text("ip"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  prevHash: text("prev_hash"), // null for the first event
+  hash: text("hash").notNull(),
+});
+
+export const auditEventFiltersSchema = z.object({
+  actorId: z.coerce.number().int().positive().optional(),
+  action: z.string().min(1).optional(),
+  entityType: z.string().min(1).optional(),
+  entityId: z.string().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  // Events older than this id, for paging back through the log
+  beforeId: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
 // Medical info table
 export const medicalInfo = pgTable("medical_info", {
   id: serial("id").primaryKey(),
@@ -128,6 +284,11 @@ export const insertMedicalInfoSchema = createInsertSchema(medicalInfo).pick({
   medications: true,
 });
 
+// Staff outside the assigned crew must say why they need a patient's record
+export const breakGlassAccessSchema = z.object({
+  justification: z.string().trim().min(10, "Explain why you need this record (at least 10 characters)").max(500),
+});
+
 // Emergency contacts table
 export const emergencyContacts = pgTable("emergency_contacts", {
   id: serial("id").primaryKey(),
@@ -135,6 +296,8 @@ export const emergencyContacts = pgTable("emergency_contacts", {
   name: text("name").notNull(),
   relationship: text("relationship").notNull(),
   phone: text("phone").notNull(),
+  notifyOnEmergency: boolean("notify_on_emergency").notNull().default(true), // texted when the user raises an SOS
+  priority: integer("priority").notNull().default(0), // 1 is contacted first
 });
 
 export const emergencyContactsRelations = relations(emergencyContacts, ({ one }) => ({
@@ -149,10 +312,18 @@ export const insertEmergencyContactSchema = createInsertSchema(emergencyContacts
   name: true,
   relationship: true,
   phone: true,
+  notifyOnEmergency: true,
 }).extend({
   phone: z.string().regex(kenyanPhoneRegex, "Phone number must be a valid Kenyan number (e.g., +254712345678 or +254202345678)")
 });
 
+export const updateEmergencyContactSchema = insertEmergencyContactSchema.omit({ userId: true }).partial();
+
+// Every one of the user's contact ids, first to be contacted first
+export const reorderEmergencyContactsSchema = z.object({
+  ids: z.array(z.number().int().positive()).min(1),
+});
+
 // Emergency alerts table
 export const emergencyAlerts = pgTable("emergency_alerts", {
   id: serial("id").primaryKey(),
@@ -163,7 +334,7 @@ export const emergencyAlerts = pgTable("emergency_alerts", {
   accuracy: numeric("accuracy"),
   emergencyType: text("emergency_type").notNull(),
   description: text("description"),
-  status: text("status").notNull().default("pending"),
+  status: text("status").notNull().default(EmergencyStatus.REPORTED),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
   resolvedAt: timestamp("resolved_at"),
@@ -171,6 +342,9 @@ export const emergencyAlerts = pgTable("emergency_alerts", {
   priority: text("priority").notNull().default("medium"), // low, medium, high
   requiredResources: text("required_resources"), // JSON array of required resource types
   assignedResources: text("assigned_resources"), // JSON array of assigned resources
+  etaSeconds: integer("eta_seconds"), // estimated time for the assigned unit to arrive
+  etaUpdatedAt: timestamp("eta_updated_at"),
+  idempotencyKey: text("idempotency_key"), // client-generated, unique per user
 });
 
 export const emergencyAlertsRelations = relations(emergencyAlerts, ({ one }) => ({
@@ -199,12 +373,56 @@ export const insertEmergencyAlertSchema = createInsertSchema(emergencyAlerts)
     emergencyType: true,
     description: true,
     priority: true,
+    requiredResources: true,
+    idempotencyKey: true,
   });
 
+// What an admin may edit on an alert. Units are only assigned through dispatch,
+// so ambulanceId and a move to dispatched are refused here.
+export const adminUpdateEmergencySchema = createInsertSchema(emergencyAlerts)
+  .pick({
+    emergencyType: true,
+    description: true,
+    requiredResources: true,
+    assignedResources: true,
+  })
+  .extend({
+    priority: z.enum(["low", "medium", "high"]),
+    status: z.nativeEnum(EmergencyStatus)
+      .refine(status => status !== EmergencyStatus.DISPATCHED, "Assign a unit to dispatch an emergency"),
+    // Recorded in the status history alongside a status change
+    reason: z.string().trim().max(500),
+  })
+  .partial()
+  .strict();
+
+// Emergency status history table
+export const emergencyStatusHistory = pgTable("emergency_status_history", {
+  id: serial("id").primaryKey(),
+  emergencyId: integer("emergency_id").notNull().references(() => emergencyAlerts.id, { onDelete: 'cascade' }),
+  fromStatus: text("from_status"), // null for the initial report
+  toStatus: text("to_status").notNull(),
+  actorId: integer("actor_id").references(() => users.id, { onDelete: 'set null' }),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const emergencyStatusHistoryRelations = relations(emergencyStatusHistory, ({ one }) => ({
+  emergency: one(emergencyAlerts, {
+    fields: [emergencyStatusHistory.emergencyId],
+    references: [emergencyAlerts.id],
+  }),
+  actor: one(users, {
+    fields: [emergencyStatusHistory.actorId],
+    references: [users.id],
+  }),
+}));
+
 // Ambulance units table
 export const ambulanceUnits = pgTable("ambulance_units", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
+  unitType: text("unit_type").notNull().default("ambulance"), // ambulance, rapid_response, air
   latitude: numeric("latitude"),
   longitude: numeric("longitude"),
   accuracy: numeric("accuracy"),
@@ -225,12 +443,32 @@ export const insertAmbulanceUnitSchema = createInsertSchema(ambulanceUnits)
   .omit({ currentEmergencyId: true })
   .pick({
     name: true,
+    unitType: true,
     latitude: true,
     longitude: true,
     accuracy: true,
     status: true,
   });
 
+// Ambulance crew table, linking response team members to the unit they staff
+export const ambulanceCrewMembers = pgTable("ambulance_crew_members", {
+  id: serial("id").primaryKey(),
+  ambulanceId: integer("ambulance_id").notNull().references((): AnyPgColumn => ambulanceUnits.id, { onDelete: 'cascade' }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+});
+
+// Unit trips table, one row per dispatch used to learn real travel speeds
+export const unitTrips = pgTable("unit_trips", {
+  id: serial("id").primaryKey(),
+  ambulanceId: integer("ambulance_id").notNull().references((): AnyPgColumn => ambulanceUnits.id, { onDelete: 'cascade' }),
+  emergencyId: integer("emergency_id").notNull().references(() => emergencyAlerts.id, { onDelete: 'cascade' }),
+  unitType: text("unit_type").notNull(),
+  timeBand: text("time_band").notNull(), // peak, off_peak, night
+  distanceKm: numeric("distance_km").notNull(),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  arrivedAt: timestamp("arrived_at"),
+});
+
 // Medical facilities table
 export const medicalFacilities = pgTable("medical_facilities", {
   id: serial("id").primaryKey(),
@@ -246,6 +484,8 @@ export const medicalFacilities = pgTable("medical_facilities", {
   currentOccupancy: integer("current_occupancy"),
   lastUpdate: timestamp("last_update"),
   googlePlaceId: text("google_place_id").unique(),
+  source: text("source").notNull().default("manual"), // manual, google_places, or an imported file's source name
+  externalId: text("external_id"), // the facility's id in its source, unique per source
   updatedAt: timestamp("updated_at").defaultNow()
 });
 
@@ -266,6 +506,12 @@ export const insertMedicalFacilitySchema = createInsertSchema(medicalFacilities)
     phone: z.string().regex(kenyanPhoneRegex, "Phone number must be a valid Kenyan number (e.g., +254712345678 or +254202345678)").optional()
   });
 
+// Bed counts pushed by a facility's own systems
+export const facilityCapacitySchema = z.object({
+  capacity: z.number().int().min(0).optional(),
+  currentOccupancy: z.number().int().min(0),
+});
+
 // Emergency resource types
 export const emergencyResourceTypes = pgTable("emergency_resource_types", {
   id: serial("id").primaryKey(),
@@ -308,24 +554,96 @@ export const emergencyResourceAssignments = pgTable("emergency_resource_assignme
   notes: text("notes"),
 });
 
+export const notificationChannels = ['email', 'sms', 'in_app', 'push'] as const;
+
+export const NotificationStatus = {
+  PENDING: 'pending',
+  SENDING: 'sending', // claimed by a worker; retried if the claim lapses
+  SENT: 'sent',
+  FAILED: 'failed', // gave up after the configured number of attempts
+} as const;
+
+// Messages queued for delivery by the notification worker. Content is rendered
+// when the message is queued, so every retry sends exactly the same thing.
+export const notificationOutbox = pgTable("notification_outbox", {
+  id: serial("id").primaryKey(),
+  channel: text("channel").notNull(), // email, sms, in_app, push
+  recipient: text("recipient").notNull(), // email address, phone number or user id, by channel
+  template: text("template").notNull(),
+  subject: text("subject"),
+  body: text("body").notNull(),
+  html: text("html"),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'set null' }),
+  emergencyId: integer("emergency_id").references(() => emergencyAlerts.id, { onDelete: 'set null' }),
+  status: text("status").notNull().default(NotificationStatus.PENDING),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  lastError: text("last_error"),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Unauthenticated links to follow an emergency, such as those texted to emergency
+// contacts. Only a hash of the token is kept.
+export const trackingLinks = pgTable("tracking_links", {
+  id: serial("id").primaryKey(),
+  emergencyId: integer("emergency_id").notNull().references(() => emergencyAlerts.id, { onDelete: 'cascade' }),
+  tokenHash: text("token_hash").notNull().unique(),
+  contactId: integer("contact_id").references(() => emergencyContacts.id, { onDelete: 'set null' }), // the contact it was texted to
+  createdById: integer("created_by_id").references(() => users.id, { onDelete: 'set null' }),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// What the in_app channel delivers: a user's notification list
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  emergencyId: integer("emergency_id").references(() => emergencyAlerts.id, { onDelete: 'set null' }),
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 // Types export
 export type User = z.infer<typeof userSchema>;
 export type LoginUser = z.infer<typeof loginUserSchema>;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
+export type PhoneVerification = typeof phoneVerifications.$inferSelect;
+
+export type AuthThrottle = typeof authThrottles.$inferSelect;
+export type UserTwoFactor = typeof userTwoFactor.$inferSelect;
+export type UserPreferences = typeof userPreferences.$inferSelect;
+export type UpdateUserPreferences = z.infer<typeof updateUserPreferencesSchema>;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type ApiTokenOwnerType = typeof apiTokenOwnerTypes[number];
+export type CreateApiToken = z.infer<typeof createApiTokenSchema>;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type AuditEventFilters = z.infer<typeof auditEventFiltersSchema>;
+
 export type MedicalInfo = typeof medicalInfo.$inferSelect;
 export type InsertMedicalInfo = z.infer<typeof insertMedicalInfoSchema>;
 
 export type EmergencyContact = typeof emergencyContacts.$inferSelect;
 export type InsertEmergencyContact = z.infer<typeof insertEmergencyContactSchema>;
+export type UpdateEmergencyContact = z.infer<typeof updateEmergencyContactSchema>;
 
 export type EmergencyAlert = typeof emergencyAlerts.$inferSelect;
 export type InsertEmergencyAlert = z.infer<typeof insertEmergencyAlertSchema>;
 
+export type EmergencyStatusHistory = typeof emergencyStatusHistory.$inferSelect;
+
 export type AmbulanceUnit = typeof ambulanceUnits.$inferSelect;
 export type InsertAmbulanceUnit = z.infer<typeof insertAmbulanceUnitSchema>;
 
+export type AmbulanceCrewMember = typeof ambulanceCrewMembers.$inferSelect;
+export type UnitTrip = typeof unitTrips.$inferSelect;
+
 export type MedicalFacility = typeof medicalFacilities.$inferSelect;
+export type FacilityUpsert = typeof medicalFacilities.$inferInsert;
 export type InsertMedicalFacility = z.infer<typeof insertMedicalFacilitySchema>;
 
 export type LocationUpdate = typeof locationUpdates.$inferSelect;
@@ -335,3 +653,9 @@ export type EmergencyResourceType = typeof emergencyResourceTypes.$inferSelect;
 export type EmergencyResource = typeof emergencyResources.$inferSelect;
 export type EmergencyTypeResource = typeof emergencyTypeResources.$inferSelect;
 export type EmergencyResourceAssignment = typeof emergencyResourceAssignments.$inferSelect;
+
+export type NotificationChannel = typeof notificationChannels[number];
+export type NotificationOutboxEntry = typeof notificationOutbox.$inferSelect;
+export type NewNotificationOutboxEntry = typeof notificationOutbox.$inferInsert;
+export type Notification = typeof notifications.$inferSelect;
+export type TrackingLink = typeof trackingLinks.$inferSelect;
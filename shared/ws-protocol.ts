@@ -0,0 +1,214 @@
+import { z } from "zod";
+
+// Bump when a message shape changes incompatibly
+export const WS_PROTOCOL_VERSION = 2;
+
+// Every frame is { version, type, data } plus an optional client-chosen id
+// that the server echoes in its ack or error reply.
+function message<T extends string, D extends z.ZodTypeAny>(type: T, data: D) {
+  return z.object({
+    version: z.literal(WS_PROTOCOL_VERSION),
+    id: z.string().max(64).optional(),
+    type: z.literal(type),
+    data,
+  });
+}
+
+const coordinate = z.coerce.number().finite();
+
+// Client -> server payloads
+export const locationReportSchema = z.object({
+  latitude: coordinate.min(-90).max(90),
+  longitude: coordinate.min(-180).max(180),
+  accuracy: z.number().nonnegative().optional(),
+  // Set when a crew member reports their unit's position
+  ambulanceId: z.number().int().positive().optional(),
+  timestamp: z.number().optional(),
+});
+
+// Alerts are created over HTTP; the socket only announces an existing one
+export const emergencyAnnouncementSchema = z.object({
+  emergencyId: z.number().int().positive(),
+});
+
+// Server -> client payloads
+export const locationBroadcastSchema = z.object({
+  userId: z.number().optional(),
+  ambulanceId: z.number().optional(),
+  latitude: z.number(),
+  longitude: z.number(),
+  accuracy: z.number().optional(),
+  role: z.string(),
+  timestamp: z.number(),
+});
+
+// Alerts as serialised over the wire; extra columns pass through untouched
+export const emergencyBroadcastSchema = z.object({
+  id: z.number(),
+  userId: z.number(),
+  emergencyType: z.string(),
+  status: z.string(),
+  priority: z.string(),
+  latitude: z.string(),
+  longitude: z.string(),
+  ambulanceId: z.number().nullable(),
+}).passthrough();
+
+export const emergencyStatusUpdateSchema = z.object({
+  emergencyId: z.number(),
+  userId: z.number(),
+  status: z.string(),
+  previousStatus: z.string().nullable(),
+  message: z.string(),
+});
+
+export const etaUpdateSchema = z.object({
+  emergencyId: z.number(),
+  ambulanceId: z.number(),
+  userId: z.number(),
+  etaSeconds: z.number(),
+  distanceKm: z.number(),
+  speedKmh: z.number(),
+  basis: z.enum(["configured", "historical", "blended"]),
+  sampleSize: z.number(),
+  computedAt: z.string(),
+});
+
+// A new in-app notification for the socket's user
+export const notificationSchema = z.object({
+  id: z.number(),
+  emergencyId: z.number().nullable(),
+  title: z.string(),
+  body: z.string(),
+  createdAt: z.string(),
+});
+
+export const ackSchema = z.object({
+  // The id of the client message being acknowledged
+  replyTo: z.string().optional(),
+});
+
+export const WsErrorCode = {
+  INVALID_JSON: "invalid_json",
+  UNSUPPORTED_VERSION: "unsupported_version",
+  UNKNOWN_TYPE: "unknown_type",
+  INVALID_MESSAGE: "invalid_message",
+  FORBIDDEN: "forbidden",
+  INTERNAL: "internal_error",
+} as const;
+
+export type WsErrorCode = typeof WsErrorCode[keyof typeof WsErrorCode];
+
+export const errorSchema = z.object({
+  code: z.nativeEnum(WsErrorCode),
+  message: z.string(),
+  replyTo: z.string().optional(),
+  issues: z.array(z.object({
+    path: z.string(),
+    message: z.string(),
+  })).optional(),
+});
+
+export const clientMessageSchema = z.discriminatedUnion("type", [
+  message("location_update", locationReportSchema),
+  message("emergency_broadcast", emergencyAnnouncementSchema),
+]);
+
+export const serverMessageSchema = z.discriminatedUnion("type", [
+  message("location_update", locationBroadcastSchema),
+  message("emergency_broadcast", emergencyBroadcastSchema),
+  message("emergency_status_update", emergencyStatusUpdateSchema),
+  message("eta_update", etaUpdateSchema),
+  message("notification", notificationSchema),
+  message("ack", ackSchema),
+  message("error", errorSchema),
+]);
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+export type ServerMessage = z.infer<typeof serverMessageSchema>;
+export type ClientMessageType = ClientMessage["type"];
+export type ServerMessageType = ServerMessage["type"];
+// What senders may pass before coercion (coordinates may arrive as numeric strings)
+export type ClientMessageData<T extends ClientMessageType> = Extract<z.input<typeof clientMessageSchema>, { type: T }>["data"];
+export type ServerMessageData<T extends ServerMessageType> = Extract<ServerMessage, { type: T }>["data"];
+export type WsError = z.infer<typeof errorSchema>;
+export type LocationReport = z.infer<typeof locationReportSchema>;
+
+const envelopeSchema = z.object({
+  version: z.unknown(),
+  id: z.string().max(64).optional(),
+  type: z.string(),
+});
+
+export function createServerMessage<T extends ServerMessageType>(
+  type: T,
+  data: ServerMessageData<T>
+): Extract<ServerMessage, { type: T }> {
+  return { version: WS_PROTOCOL_VERSION, type, data } as Extract<ServerMessage, { type: T }>;
+}
+
+export function createClientMessage<T extends ClientMessageType>(
+  type: T,
+  data: ClientMessageData<T>,
+  id?: string
+) {
+  return { version: WS_PROTOCOL_VERSION, id, type, data };
+}
+
+type ParseResult<M> = { success: true; message: M } | { success: false; error: WsError };
+
+const messageTypes = (schema: typeof clientMessageSchema | typeof serverMessageSchema): string[] =>
+  schema.options.map(option => option.shape.type.value);
+
+function parseWith<M>(schema: z.ZodType<M>, knownTypes: string[], raw: string): ParseResult<M> {
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    return { success: false, error: { code: WsErrorCode.INVALID_JSON, message: "Message is not valid JSON" } };
+  }
+
+  const envelope = envelopeSchema.safeParse(json);
+  if (!envelope.success) {
+    return { success: false, error: { code: WsErrorCode.INVALID_MESSAGE, message: "Message must have a type and version" } };
+  }
+
+  const { version, id: replyTo, type } = envelope.data;
+  if (version !== WS_PROTOCOL_VERSION) {
+    return {
+      success: false,
+      error: {
+        code: WsErrorCode.UNSUPPORTED_VERSION,
+        message: `Unsupported protocol version ${String(version)}, expected ${WS_PROTOCOL_VERSION}`,
+        replyTo,
+      },
+    };
+  }
+
+  if (!knownTypes.includes(type)) {
+    return { success: false, error: { code: WsErrorCode.UNKNOWN_TYPE, message: `Unknown message type '${type}'`, replyTo } };
+  }
+
+  const parsed = schema.safeParse(json);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: {
+        code: WsErrorCode.INVALID_MESSAGE,
+        message: `Invalid ${type} message`,
+        replyTo,
+        issues: parsed.error.issues.map(issue => ({ path: issue.path.join("."), message: issue.message })),
+      },
+    };
+  }
+
+  return { success: true, message: parsed.data };
+}
+
+export function parseClientMessage(raw: string): ParseResult<ClientMessage> {
+  return parseWith(clientMessageSchema, messageTypes(clientMessageSchema), raw);
+}
+
+export function parseServerMessage(raw: string): ParseResult<ServerMessage> {
+  return parseWith(serverMessageSchema, messageTypes(serverMessageSchema), raw);
+}